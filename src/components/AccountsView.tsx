@@ -0,0 +1,376 @@
+import { useState, useEffect } from 'react';
+import { accountManager, ACCOUNT_TYPES, type AccountLedger } from '@/lib/accounts';
+import { CurrencyUtils } from '@/lib/currency';
+import { MoneyUtils } from '@/lib/money';
+import { PreferencesUtils, preferences } from '@/lib/preferences';
+import { recurringManager } from '@/lib/recurring';
+import type { Account } from '@/lib/database';
+
+interface AccountsViewProps {
+  className?: string;
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm';
+
+export default function AccountsView({ className = '' }: AccountsViewProps): JSX.Element {
+  const [balances, setBalances] = useState<Array<{ account: Account; balance: number }>>([]);
+  const [ledger, setLedger] = useState<AccountLedger | null>(null);
+  const [mode, setMode] = useState<'list' | 'addAccount' | 'transfer'>('list');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [accountForm, setAccountForm] = useState({
+    name: '',
+    type: 'checking' as Account['type'],
+    currency: 'USD',
+    openingBalance: '',
+  });
+
+  const [transferForm, setTransferForm] = useState({
+    fromAccountId: '',
+    toAccountId: '',
+    amount: '',
+    toAmount: '',
+    date: new Date().toISOString().split('T')[0]!,
+    description: '',
+  });
+
+  const loadAccounts = async () => {
+    try {
+      setBalances(await accountManager.getBalances());
+    } catch (err) {
+      console.error('Failed to load accounts:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openLedger = async (accountId: number) => {
+    try {
+      setLedger(await accountManager.getLedger(accountId));
+    } catch (err) {
+      console.error('Failed to load account ledger:', err);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      setMode('list');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update accounts');
+    }
+  };
+
+  const handleAddAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await accountManager.createAccount({
+        name: accountForm.name,
+        type: accountForm.type,
+        currency: accountForm.currency,
+        openingBalance: accountForm.openingBalance.trim()
+          ? MoneyUtils.parse(accountForm.openingBalance, accountForm.currency)?.amount ?? NaN
+          : 0,
+      });
+      setAccountForm(prev => ({ ...prev, name: '', openingBalance: '' }));
+    });
+  };
+
+  const handleTransfer = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await accountManager.addTransfer({
+        fromAccountId: parseInt(transferForm.fromAccountId, 10),
+        toAccountId: parseInt(transferForm.toAccountId, 10),
+        amount: MoneyUtils.parse(transferForm.amount, fromAccount?.currency ?? 'USD')?.amount ?? NaN,
+        toAmount: transferForm.toAmount && toAccount ? MoneyUtils.parse(transferForm.toAmount, toAccount.currency)?.amount : undefined,
+        date: new Date(transferForm.date),
+        description: transferForm.description,
+      });
+      setTransferForm(prev => ({ ...prev, amount: '', toAmount: '', description: '' }));
+    });
+  };
+
+  const handleArchive = (account: Account) => {
+    if (!confirm(`Archive "${account.name}"? Its transactions will be kept.`)) {
+      return;
+    }
+    runAction(async () => {
+      await accountManager.archiveAccount(account.id!);
+      setLedger(null);
+    });
+  };
+
+  useEffect(() => {
+    loadAccounts();
+
+    preferences.getPreference('currency').then(currency => {
+      setAccountForm(prev => ({ ...prev, currency }));
+    });
+
+    // Balances depend on every transaction, so refresh when any of them change
+    accountManager.on('accountsChanged', loadAccounts);
+    accountManager.on('balancesChanged', loadAccounts);
+    recurringManager.on('expensesGenerated', loadAccounts);
+
+    return () => {
+      accountManager.off('accountsChanged', loadAccounts);
+      accountManager.off('balancesChanged', loadAccounts);
+      recurringManager.off('expensesGenerated', loadAccounts);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  const fromAccount = balances.find(({ account }) => account.id?.toString() === transferForm.fromAccountId)?.account;
+  const toAccount = balances.find(({ account }) => account.id?.toString() === transferForm.toAccountId)?.account;
+  const needsToAmount = fromAccount && toAccount && fromAccount.currency !== toAccount.currency;
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Accounts</h3>
+        <div className="flex items-center space-x-2">
+          {balances.length >= 2 && (
+            <button
+              onClick={() => setMode(mode === 'transfer' ? 'list' : 'transfer')}
+              className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+            >
+              Transfer
+            </button>
+          )}
+          <button
+            onClick={() => setMode(mode === 'addAccount' ? 'list' : 'addAccount')}
+            className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+          >
+            Add account
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {mode === 'addAccount' && (
+        <form onSubmit={handleAddAccount} className="mb-4 space-y-2">
+          <input
+            type="text"
+            value={accountForm.name}
+            onChange={e => setAccountForm(prev => ({ ...prev, name: e.target.value }))}
+            className={inputClassName}
+            placeholder="Account name"
+            aria-label="Account name"
+            required
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              value={accountForm.type}
+              onChange={e => setAccountForm(prev => ({ ...prev, type: e.target.value as Account['type'] }))}
+              className={inputClassName}
+              aria-label="Account type"
+            >
+              {ACCOUNT_TYPES.map(type => (
+                <option key={type.value} value={type.value}>
+                  {type.icon} {type.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={accountForm.currency}
+              onChange={e => setAccountForm(prev => ({ ...prev, currency: e.target.value }))}
+              className={inputClassName}
+              aria-label="Account currency"
+            >
+              {PreferencesUtils.getAvailableCurrencies().map(currency => (
+                <option key={currency.code} value={currency.code}>
+                  {currency.code}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={accountForm.openingBalance}
+              onChange={e => setAccountForm(prev => ({ ...prev, openingBalance: e.target.value }))}
+              className={inputClassName}
+              placeholder="Opening balance"
+              aria-label="Opening balance"
+            />
+          </div>
+          <button type="submit" className="ds-button ds-button--primary text-xs">
+            Save Account
+          </button>
+        </form>
+      )}
+
+      {mode === 'transfer' && (
+        <form onSubmit={handleTransfer} className="mb-4 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={transferForm.fromAccountId}
+              onChange={e => setTransferForm(prev => ({ ...prev, fromAccountId: e.target.value }))}
+              className={inputClassName}
+              aria-label="From account"
+              required
+            >
+              <option value="">From…</option>
+              {balances.map(({ account }) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={transferForm.toAccountId}
+              onChange={e => setTransferForm(prev => ({ ...prev, toAccountId: e.target.value }))}
+              className={inputClassName}
+              aria-label="To account"
+              required
+            >
+              <option value="">To…</option>
+              {balances
+                .filter(({ account }) => account.id?.toString() !== transferForm.fromAccountId)
+                .map(({ account }) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={transferForm.amount}
+              onChange={e => setTransferForm(prev => ({ ...prev, amount: e.target.value }))}
+              className={inputClassName}
+              placeholder={fromAccount ? `Amount (${fromAccount.currency})` : 'Amount'}
+              aria-label="Amount"
+              required
+            />
+            {needsToAmount ? (
+              <input
+                type="text"
+                inputMode="decimal"
+                value={transferForm.toAmount}
+                onChange={e => setTransferForm(prev => ({ ...prev, toAmount: e.target.value }))}
+                className={inputClassName}
+                placeholder={`Received (${toAccount.currency})`}
+                aria-label="Amount received"
+              />
+            ) : (
+              <input
+                type="date"
+                value={transferForm.date}
+                onChange={e => setTransferForm(prev => ({ ...prev, date: e.target.value }))}
+                className={inputClassName}
+                aria-label="Date"
+                required
+              />
+            )}
+          </div>
+          {needsToAmount && (
+            <input
+              type="date"
+              value={transferForm.date}
+              onChange={e => setTransferForm(prev => ({ ...prev, date: e.target.value }))}
+              className={inputClassName}
+              aria-label="Date"
+              required
+            />
+          )}
+          <input
+            type="text"
+            value={transferForm.description}
+            onChange={e => setTransferForm(prev => ({ ...prev, description: e.target.value }))}
+            className={inputClassName}
+            placeholder="Description (optional)"
+            aria-label="Description"
+          />
+          <button type="submit" className="ds-button ds-button--primary text-xs">
+            Save Transfer
+          </button>
+        </form>
+      )}
+
+      {balances.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No accounts yet. Add your wallets and bank accounts to track their balances.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {balances.map(({ account, balance }) => (
+            <li key={account.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => (ledger?.account.id === account.id ? setLedger(null) : openLedger(account.id!))}
+                  className="text-left"
+                >
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {ACCOUNT_TYPES.find(type => type.value === account.type)?.icon} {account.name}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {ACCOUNT_TYPES.find(type => type.value === account.type)?.label} · {account.currency}
+                  </div>
+                </button>
+                <div className={`text-sm font-semibold ${balance < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-gray-100'}`}>
+                  {CurrencyUtils.format(balance, account.currency)}
+                </div>
+              </div>
+
+              {ledger && ledger.account.id === account.id && (
+                <div className="mt-3">
+                  <ul className="space-y-1 max-h-64 overflow-y-auto">
+                    <li className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                      <span>Opening balance</span>
+                      <span>{CurrencyUtils.format(ledger.openingBalance, account.currency)}</span>
+                    </li>
+                    {ledger.entries.map(entry => (
+                      <li key={entry.expense.id} className="grid grid-cols-12 gap-2 text-xs">
+                        <span className="col-span-3 text-gray-500 dark:text-gray-400">
+                          {entry.expense.date.toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                        </span>
+                        <span className="col-span-5 truncate text-gray-700 dark:text-gray-300">
+                          {entry.expense.description}
+                          {entry.unconverted && ` (${entry.expense.currency}, no rate)`}
+                        </span>
+                        <span className={`col-span-2 text-right ${entry.change < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                          {entry.change < 0 ? '−' : '+'}
+                          {MoneyUtils.toInputValue({ amount: Math.abs(entry.change), currency: account.currency })}
+                        </span>
+                        <span className="col-span-2 text-right text-gray-900 dark:text-gray-100">
+                          {MoneyUtils.toInputValue({ amount: entry.balance, currency: account.currency })}
+                        </span>
+                      </li>
+                    ))}
+                    {ledger.entries.length === 0 && (
+                      <li className="text-xs text-gray-500 dark:text-gray-400">No transactions in this account yet.</li>
+                    )}
+                  </ul>
+                  <button
+                    onClick={() => handleArchive(account)}
+                    className="mt-2 text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                  >
+                    Archive
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
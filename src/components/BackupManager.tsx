@@ -1,18 +1,29 @@
 import { useState, useRef } from 'react';
 import { backupManager } from '@/lib/backup';
 import type { BackupData } from '@/lib/backup';
+import type { MigrationReport } from '@/lib/migrations';
 
 interface BackupManagerProps {
   className?: string;
 }
 
+const describeMigration = (report: MigrationReport): string => {
+  if (report.steps.length === 0) {
+    return 'No format changes needed.';
+  }
+
+  const changes = report.steps.flatMap(step => (step.changes.length > 0 ? step.changes : [step.description]));
+  return [`Upgrading from format ${report.fromVersion} to ${report.toVersion}:`, ...changes.map(change => `• ${change}`)].join('\n');
+};
+
 export default function BackupManager({ className = '' }: BackupManagerProps): JSX.Element {
   const [isCreatingBackup, setIsCreatingBackup] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [applyRules, setApplyRules] = useState(true);
   const [showPasswordModal, setShowPasswordModal] = useState<'export' | 'import' | null>(null);
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
-  const [localBackups, setLocalBackups] = useState<Array<{ key: string; date: Date; metadata: BackupData['metadata'] }>>([]);
+  const [localBackups, setLocalBackups] = useState<Array<{ key: string; date: Date; metadata: BackupData['metadata']; isPreMigration: boolean }>>([]);
   const [isLoadingBackups, setIsLoadingBackups] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -89,7 +100,14 @@ export default function BackupManager({ className = '' }: BackupManagerProps): J
     setError(null);
     
     try {
-      await backupManager.importBackup(pendingFile.current, password);
+      // Show what the import would do before replacing anything
+      const preview = await backupManager.previewBackup(pendingFile.current, password);
+      const summary = `This backup has ${preview.metadata.totalExpenses} expenses and ${preview.metadata.totalCategories} categories.`;
+      if (!confirm(`${summary}\n${describeMigration(preview.report)}\n\nThis will replace all current data. Continue?`)) {
+        return;
+      }
+
+      const report = await backupManager.importBackup(pendingFile.current, password, { applyRules });
       setShowPasswordModal(null);
       setPassword('');
       setConfirmPassword('');
@@ -98,7 +116,7 @@ export default function BackupManager({ className = '' }: BackupManagerProps): J
       // Refresh local backups
       await loadLocalBackups();
       
-      alert('Backup imported successfully! The page will reload to apply changes.');
+      alert(`Backup imported successfully!\n${describeMigration(report)}\n\nThe page will reload to apply changes.`);
       window.location.reload();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to import backup');
@@ -282,6 +300,17 @@ export default function BackupManager({ className = '' }: BackupManagerProps): J
               />
             </label>
           </div>
+
+          <label className="flex items-center mt-2 text-xs text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={applyRules}
+              onChange={(e) => setApplyRules(e.target.checked)}
+              disabled={isImporting}
+              className="mr-2"
+            />
+            Apply categorization rules to imported expenses
+          </label>
         </div>
 
         {/* Local Backups */}
@@ -321,6 +350,9 @@ export default function BackupManager({ className = '' }: BackupManagerProps): J
                   <div className="flex-1">
                     <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
                       {backup.date.toLocaleDateString()} at {backup.date.toLocaleTimeString()}
+                      {backup.isPreMigration && (
+                        <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">Before upgrade</span>
+                      )}
                     </div>
                     <div className="text-xs text-gray-500 dark:text-gray-400">
                       {backup.metadata.totalExpenses} expenses, {backup.metadata.totalCategories} categories
@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react';
+import { db, type Bill, type Category } from '@/lib/database';
+import { billManager, BillUtils, type BillStatus } from '@/lib/bills';
+import { budgetManager } from '@/lib/budgets';
+import { CurrencyUtils } from '@/lib/currency';
+import { MoneyUtils } from '@/lib/money';
+import { PAYMENT_METHODS } from '@/lib/payees';
+import { PreferencesUtils, preferences } from '@/lib/preferences';
+import { pwaService } from '@/lib/pwa';
+
+interface BillRemindersProps {
+  className?: string;
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm';
+
+const emptyForm = {
+  name: '',
+  amount: '',
+  currency: 'USD',
+  dueDate: '',
+  category: 'Bills & Utilities',
+  paymentMethod: 'bank_transfer' as Bill['paymentMethod'],
+};
+
+const statusBadges: Record<BillStatus, { label: string; className: string }> = {
+  paid: { label: 'Paid', className: 'ds-badge--success' },
+  overdue: { label: 'Overdue', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200' },
+  dueSoon: { label: 'Due soon', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200' },
+  upcoming: { label: 'Upcoming', className: 'ds-badge--neutral' },
+};
+
+export default function BillReminders({ className = '' }: BillRemindersProps): JSX.Element {
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [reminderDays, setReminderDays] = useState(3);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [permission, setPermission] = useState(pwaService.getNotificationPermission());
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBills = async () => {
+    try {
+      const [allBills, cats, days, enabled] = await Promise.all([
+        billManager.getBills(true),
+        db.categories.where('kind').equals('expense').sortBy('name'),
+        preferences.getPreference('billReminderDays'),
+        preferences.getPreference('notificationsEnabled'),
+      ]);
+      setBills(allBills);
+      setCategories(cats);
+      setReminderDays(days);
+      setNotificationsEnabled(enabled);
+    } catch (err) {
+      console.error('Failed to load bills:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      await loadBills();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update bills');
+    }
+  };
+
+  const editBill = (bill?: Bill) => {
+    setError(null);
+    if (!bill) {
+      setEditingId('new');
+      setForm(prev => ({ ...emptyForm, currency: prev.currency }));
+      return;
+    }
+
+    setEditingId(bill.id!);
+    setForm({
+      name: bill.name,
+      amount: MoneyUtils.toInputValue({ amount: bill.amount, currency: bill.currency }),
+      currency: bill.currency,
+      dueDate: bill.dueDate.toISOString().split('T')[0]!,
+      category: bill.category,
+      paymentMethod: bill.paymentMethod,
+    });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      const bill = {
+        name: form.name,
+        amount: MoneyUtils.parse(form.amount, form.currency)?.amount ?? NaN,
+        currency: form.currency,
+        dueDate: new Date(form.dueDate),
+        category: form.category,
+        paymentMethod: form.paymentMethod,
+      };
+
+      if (editingId === 'new') {
+        await billManager.createBill(bill);
+      } else if (editingId !== null) {
+        await billManager.updateBill(editingId, bill);
+      }
+      setEditingId(null);
+      await billManager.checkReminders();
+    });
+  };
+
+  const handlePaid = (bill: Bill) => {
+    runAction(async () => {
+      await billManager.markPaid(bill.id!);
+      await budgetManager.checkBudgets();
+    });
+  };
+
+  const handleUnpaid = (bill: Bill) => {
+    if (!confirm(`Mark "${bill.name}" as unpaid? The recorded expense will be moved to the trash.`)) {
+      return;
+    }
+    runAction(() => billManager.markUnpaid(bill.id!));
+  };
+
+  const handleDelete = (bill: Bill) => {
+    if (!confirm(`Delete the bill "${bill.name}"? Any expense already recorded for it is kept.`)) {
+      return;
+    }
+    runAction(() => billManager.deleteBill(bill.id!));
+  };
+
+  const handleReminderDaysChange = (days: number) => {
+    runAction(async () => {
+      await preferences.setPreference('billReminderDays', days);
+      await billManager.checkReminders();
+    });
+  };
+
+  const handleEnableNotifications = () => {
+    runAction(async () => {
+      const result = await pwaService.requestNotificationPermission();
+      setPermission(result);
+      if (result === 'granted') {
+        await billManager.checkReminders();
+      }
+    });
+  };
+
+  useEffect(() => {
+    loadBills();
+    preferences.getPreference('currency').then(currency => setForm(prev => ({ ...prev, currency })));
+
+    // Bills come due while the app sits in the background
+    const handleVisible = () => {
+      billManager.checkReminders().catch(err => console.error('Failed to check bill reminders:', err));
+      loadBills();
+    };
+    billManager.on('billsChanged', loadBills);
+    pwaService.on('appVisible', handleVisible);
+    return () => {
+      billManager.off('billsChanged', loadBills);
+      pwaService.off('appVisible', handleVisible);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  const unpaid = bills.filter(bill => !bill.isPaid);
+  const paid = bills.filter(bill => bill.isPaid).reverse();
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Bills</h3>
+        <button
+          onClick={() => (editingId === null ? editBill() : setEditingId(null))}
+          className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+        >
+          {editingId === null ? 'Add bill' : 'Cancel'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {notificationsEnabled && permission === 'default' && (
+        <div className="mb-3 p-2 bg-yellow-50 dark:bg-yellow-900/20 rounded border border-yellow-200 dark:border-yellow-800 text-xs text-yellow-800 dark:text-yellow-200 flex items-center justify-between">
+          <span>Allow notifications to be reminded before bills are due.</span>
+          <button onClick={handleEnableNotifications} className="ml-2 font-medium underline">
+            Allow
+          </button>
+        </div>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="mb-4 space-y-2">
+          <input
+            type="text"
+            value={form.name}
+            onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className={inputClassName}
+            placeholder="Bill name, e.g. Electricity"
+            aria-label="Bill name"
+            required
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={form.amount}
+              onChange={e => setForm(prev => ({ ...prev, amount: e.target.value }))}
+              className={inputClassName}
+              placeholder="Amount"
+              aria-label="Amount"
+              required
+            />
+            <select
+              value={form.currency}
+              onChange={e => setForm(prev => ({ ...prev, currency: e.target.value }))}
+              className={inputClassName}
+              aria-label="Currency"
+            >
+              {PreferencesUtils.getAvailableCurrencies().map(currency => (
+                <option key={currency.code} value={currency.code}>
+                  {currency.code}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={form.dueDate}
+              onChange={e => setForm(prev => ({ ...prev, dueDate: e.target.value }))}
+              className={inputClassName}
+              aria-label="Due date"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={form.category}
+              onChange={e => setForm(prev => ({ ...prev, category: e.target.value }))}
+              className={inputClassName}
+              aria-label="Category"
+            >
+              {!categories.some(category => category.name === form.category) && <option value={form.category}>{form.category}</option>}
+              {categories.map(category => (
+                <option key={category.id} value={category.name}>
+                  {category.icon} {category.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.paymentMethod}
+              onChange={e => setForm(prev => ({ ...prev, paymentMethod: e.target.value as Bill['paymentMethod'] }))}
+              className={inputClassName}
+              aria-label="Payment method"
+            >
+              {PAYMENT_METHODS.map(method => (
+                <option key={method.value} value={method.value}>
+                  {method.icon} {method.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button type="submit" className="ds-button ds-button--primary text-xs">
+            Save Bill
+          </button>
+        </form>
+      )}
+
+      {unpaid.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No upcoming bills. Add one to be reminded before it is due.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {unpaid.map(bill => {
+            const status = statusBadges[BillUtils.getStatus(bill, reminderDays)];
+            return (
+              <li key={bill.id} className="py-2 flex items-center justify-between">
+                <button onClick={() => editBill(bill)} className="text-left min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{bill.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {bill.dueDate.toLocaleDateString(undefined, { timeZone: 'UTC' })} · {BillUtils.describeDue(bill)}
+                  </div>
+                </button>
+                <div className="ml-3 flex items-center space-x-3">
+                  <span className={`ds-badge ${status.className}`}>{status.label}</span>
+                  <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                    {CurrencyUtils.format(bill.amount, bill.currency)}
+                  </span>
+                  <button
+                    onClick={() => handlePaid(bill)}
+                    className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+                  >
+                    Mark paid
+                  </button>
+                  <button
+                    onClick={() => handleDelete(bill)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                    aria-label={`Delete ${bill.name}`}
+                  >
+                    ×
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {paid.length > 0 && (
+        <details className="mt-3">
+          <summary className="text-xs text-gray-500 dark:text-gray-400 cursor-pointer">Paid bills</summary>
+          <ul className="mt-1 divide-y divide-gray-200 dark:divide-gray-700">
+            {paid.map(bill => (
+              <li key={bill.id} className="py-1 flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+                <span>
+                  {bill.name} · {CurrencyUtils.format(bill.amount, bill.currency)} · paid{' '}
+                  {bill.paidAt?.toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                </span>
+                <div className="flex items-center space-x-3">
+                  <button onClick={() => handleUnpaid(bill)} className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200">
+                    Undo
+                  </button>
+                  <button
+                    onClick={() => handleDelete(bill)}
+                    className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                    aria-label={`Delete ${bill.name}`}
+                  >
+                    ×
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <div className="mt-3 flex items-center justify-between">
+        <label htmlFor="billReminderDays" className="text-xs text-gray-500 dark:text-gray-400">
+          {notificationsEnabled ? 'Remind me' : 'Show as due soon'}
+        </label>
+        <select
+          id="billReminderDays"
+          value={reminderDays}
+          onChange={e => handleReminderDaysChange(parseInt(e.target.value, 10))}
+          className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-xs dark:bg-gray-700 dark:text-gray-100"
+        >
+          <option value={0}>on the due date</option>
+          <option value={1}>1 day before</option>
+          <option value={3}>3 days before</option>
+          <option value={7}>a week before</option>
+          <option value={14}>two weeks before</option>
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState, useEffect } from 'react';
+import { budgetManager, BudgetUtils, type BudgetStatus } from '@/lib/budgets';
+import { CurrencyUtils } from '@/lib/currency';
+import { MoneyUtils } from '@/lib/money';
+import { db, type BudgetPeriod, type Category } from '@/lib/database';
+import { pwaService } from '@/lib/pwa';
+import { recurringManager } from '@/lib/recurring';
+
+interface BudgetProgressProps {
+  className?: string;
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm';
+
+const barColors: Record<BudgetStatus['state'], string> = {
+  ok: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  over: 'bg-red-500',
+};
+
+export default function BudgetProgress({ className = '' }: BudgetProgressProps): JSX.Element {
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState('USD');
+  const [alert, setAlert] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [budgetForm, setBudgetForm] = useState({
+    categoryId: '',
+    amount: '',
+    period: 'monthly' as BudgetPeriod,
+    rollover: false,
+  });
+
+  const loadBudgets = async () => {
+    try {
+      const [budgetStatuses, expenseCategories, currency] = await Promise.all([
+        budgetManager.getBudgetStatuses(),
+        db.categories.where('kind').equals('expense').sortBy('name'),
+        db.getBaseCurrency(),
+      ]);
+      setStatuses(budgetStatuses);
+      setCategories(expenseCategories);
+      setBaseCurrency(currency);
+    } catch (err) {
+      console.error('Failed to load budgets:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAlert = (status: BudgetStatus) => {
+    const period = BudgetUtils.describePeriod(status.period);
+    setAlert(
+      status.state === 'over'
+        ? `${status.category.name} is over budget ${period}.`
+        : `${status.category.name} has used ${Math.round(status.percentUsed)}% of its budget ${period}.`
+    );
+    loadBudgets();
+  };
+
+  const editBudget = (category?: Category) => {
+    setBudgetForm({
+      categoryId: category?.id?.toString() ?? '',
+      amount: category?.budget ? MoneyUtils.toInputValue({ amount: category.budget, currency: baseCurrency }) : '',
+      period: category?.budgetPeriod ?? 'monthly',
+      rollover: category?.budgetRollover ?? false,
+    });
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await budgetManager.setBudget(parseInt(budgetForm.categoryId, 10), {
+        amount: MoneyUtils.parse(budgetForm.amount, baseCurrency)?.amount ?? NaN,
+        period: budgetForm.period,
+        rollover: budgetForm.rollover,
+      });
+      await budgetManager.checkBudgets();
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budget');
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove this budget?')) {
+      return;
+    }
+    try {
+      await budgetManager.setBudget(parseInt(budgetForm.categoryId, 10), { amount: undefined });
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove budget');
+    }
+  };
+
+  useEffect(() => {
+    loadBudgets();
+
+    budgetManager.on('budgetsChanged', loadBudgets);
+    budgetManager.on('budgetsChecked', loadBudgets);
+    budgetManager.on('budgetWarning', handleAlert);
+    budgetManager.on('budgetExceeded', handleAlert);
+    pwaService.on('appVisible', loadBudgets);
+    recurringManager.on('expensesGenerated', loadBudgets);
+
+    return () => {
+      budgetManager.off('budgetsChanged', loadBudgets);
+      budgetManager.off('budgetsChecked', loadBudgets);
+      budgetManager.off('budgetWarning', handleAlert);
+      budgetManager.off('budgetExceeded', handleAlert);
+      pwaService.off('appVisible', loadBudgets);
+      recurringManager.off('expensesGenerated', loadBudgets);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  const selectedCategory = categories.find(category => category.id?.toString() === budgetForm.categoryId);
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Budgets</h3>
+        <button
+          onClick={() => (isEditing ? setIsEditing(false) : editBudget())}
+          className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+        >
+          {isEditing ? 'Cancel' : 'Set budget'}
+        </button>
+      </div>
+
+      {alert && (
+        <div className="mb-3 p-2 bg-yellow-50 dark:bg-yellow-900/20 rounded border border-yellow-200 dark:border-yellow-800 text-xs text-yellow-800 dark:text-yellow-200 flex items-center justify-between">
+          <span>{alert}</span>
+          <button onClick={() => setAlert(null)} className="ml-2" aria-label="Dismiss">
+            ×
+          </button>
+        </div>
+      )}
+
+      {isEditing && (
+        <form onSubmit={handleSave} className="mb-4 space-y-2">
+          {error && (
+            <div className="p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+              {error}
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={budgetForm.categoryId}
+              onChange={e => {
+                const category = categories.find(cat => cat.id?.toString() === e.target.value);
+                editBudget(category);
+              }}
+              className={inputClassName}
+              aria-label="Category"
+              required
+            >
+              <option value="">Category…</option>
+              {categories.map(category => (
+                <option key={category.id} value={category.id}>
+                  {category.icon} {category.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={budgetForm.amount}
+              onChange={e => setBudgetForm(prev => ({ ...prev, amount: e.target.value }))}
+              className={inputClassName}
+              placeholder={`Amount (${baseCurrency})`}
+              aria-label="Budget amount"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2 items-center">
+            <select
+              value={budgetForm.period}
+              onChange={e => setBudgetForm(prev => ({ ...prev, period: e.target.value as BudgetPeriod }))}
+              className={inputClassName}
+              aria-label="Budget period"
+            >
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+              <option value="yearly">Yearly</option>
+            </select>
+            <label className="flex items-center text-xs text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={budgetForm.rollover}
+                onChange={e => setBudgetForm(prev => ({ ...prev, rollover: e.target.checked }))}
+                className="mr-2"
+              />
+              Roll over unspent
+            </label>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button type="submit" className="ds-button ds-button--primary text-xs">
+              Save Budget
+            </button>
+            {selectedCategory?.budget && (
+              <button
+                type="button"
+                onClick={handleRemove}
+                className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {statuses.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No budgets yet. Set a weekly, monthly or yearly budget for a category to track your spending.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {statuses.map(status => (
+            <li key={status.category.id}>
+              <button onClick={() => editBudget(status.category)} className="w-full text-left">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-900 dark:text-gray-100">
+                    {status.category.icon} {status.category.name}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {CurrencyUtils.format(status.spent, baseCurrency)} of{' '}
+                    {CurrencyUtils.format(status.available, baseCurrency)} {BudgetUtils.describePeriod(status.period)}
+                  </span>
+                </div>
+                <div
+                  className="mt-1 h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+                  role="progressbar"
+                  aria-valuenow={Math.round(status.percentUsed)}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                >
+                  <div
+                    className={`h-full rounded-full ${barColors[status.state]}`}
+                    style={{ width: `${Math.min(100, status.percentUsed)}%` }}
+                  ></div>
+                </div>
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {status.remaining >= 0
+                    ? `${CurrencyUtils.format(status.remaining, baseCurrency)} left`
+                    : `${CurrencyUtils.format(-status.remaining, baseCurrency)} over`}
+                  {status.rolledOver > 0 && ` · includes ${CurrencyUtils.format(status.rolledOver, baseCurrency)} rolled over`}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,617 @@
+import { useState, useEffect } from 'react';
+import { db, type CategorizationRule, type Category, type RuleAction, type RuleCondition, type RuleTextField } from '@/lib/database';
+import { categorizationManager, type RuleInput, type RulePreview } from '@/lib/categorization';
+import { PAYMENT_METHODS } from '@/lib/payees';
+import { preferences } from '@/lib/preferences';
+import { MoneyUtils } from '@/lib/money';
+import { RevisionUtils } from '@/lib/revisions';
+import { TagUtils } from '@/lib/tags';
+
+interface CategorizationRulesProps {
+  className?: string;
+}
+
+// Editable form of a condition, with every type's inputs kept while switching types
+interface ConditionDraft {
+  type: RuleCondition['type'];
+  field: RuleTextField;
+  textOperator: 'contains' | 'equals' | 'startsWith';
+  amountOperator: 'lt' | 'lte' | 'eq' | 'gte' | 'gt';
+  value: string; // Text, pattern or amount
+  currency: string;
+  paymentMethods: string[];
+  days: number[];
+}
+
+interface ActionDraft {
+  type: RuleAction['type'];
+  category: string;
+  tags: string; // Comma-separated
+  notes: string;
+}
+
+interface RuleDraft {
+  name: string;
+  match: CategorizationRule['match'];
+  conditions: ConditionDraft[];
+  actions: ActionDraft[];
+  stopProcessing: boolean;
+}
+
+const CONDITION_TYPES: Array<{ value: RuleCondition['type']; label: string }> = [
+  { value: 'text', label: 'Text' },
+  { value: 'regex', label: 'Pattern' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'paymentMethod', label: 'Payment method' },
+  { value: 'weekday', label: 'Weekday' },
+];
+
+const ACTION_TYPES: Array<{ value: RuleAction['type']; label: string }> = [
+  { value: 'setCategory', label: 'Set category' },
+  { value: 'addTags', label: 'Add tags' },
+  { value: 'setNotes', label: 'Set notes' },
+  { value: 'markReimbursable', label: 'Mark reimbursable' },
+];
+
+const AMOUNT_OPERATORS = [
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'eq', label: '=' },
+  { value: 'gte', label: '≥' },
+  { value: 'gt', label: '>' },
+] as const;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClassName =
+  'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-gray-100';
+
+export default function CategorizationRules({ className = '' }: CategorizationRulesProps): JSX.Element {
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState('USD');
+  const [editingRule, setEditingRule] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [previews, setPreviews] = useState<RulePreview[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const newCondition = (): ConditionDraft => ({
+    type: 'text',
+    field: 'description',
+    textOperator: 'contains',
+    amountOperator: 'lt',
+    value: '',
+    currency: baseCurrency,
+    paymentMethods: [],
+    days: [],
+  });
+
+  const newAction = (): ActionDraft => ({ type: 'setCategory', category: '', tags: '', notes: '' });
+
+  const toDraft = (rule: CategorizationRule): RuleDraft => ({
+    name: rule.name,
+    match: rule.match,
+    stopProcessing: rule.stopProcessing,
+    conditions: rule.conditions.map(condition => {
+      const base = { ...newCondition(), type: condition.type };
+      switch (condition.type) {
+        case 'text':
+          return { ...base, field: condition.field, textOperator: condition.operator, value: condition.value };
+        case 'regex':
+          return { ...base, field: condition.field, value: condition.pattern };
+        case 'amount':
+          return {
+            ...base,
+            amountOperator: condition.operator,
+            currency: condition.currency,
+            value: MoneyUtils.toInputValue({ amount: condition.value, currency: condition.currency }),
+          };
+        case 'paymentMethod':
+          return { ...base, paymentMethods: condition.values };
+        case 'weekday':
+          return { ...base, days: condition.days };
+      }
+    }),
+    actions: rule.actions.map(action => ({
+      ...newAction(),
+      type: action.type,
+      category: action.type === 'setCategory' ? action.category : '',
+      tags: action.type === 'addTags' ? action.tags.join(', ') : '',
+      notes: action.type === 'setNotes' ? action.notes : '',
+    })),
+  });
+
+  const toInput = (ruleDraft: RuleDraft, enabled: boolean): RuleInput => ({
+    name: ruleDraft.name,
+    match: ruleDraft.match,
+    stopProcessing: ruleDraft.stopProcessing,
+    enabled,
+    conditions: ruleDraft.conditions.map((condition): RuleCondition => {
+      switch (condition.type) {
+        case 'text':
+          return { type: 'text', field: condition.field, operator: condition.textOperator, value: condition.value };
+        case 'regex':
+          return { type: 'regex', field: condition.field, pattern: condition.value };
+        case 'amount':
+          return {
+            type: 'amount',
+            operator: condition.amountOperator,
+            currency: condition.currency,
+            value: MoneyUtils.parse(condition.value, condition.currency)?.amount ?? NaN,
+          };
+        case 'paymentMethod':
+          return { type: 'paymentMethod', values: condition.paymentMethods as Extract<RuleCondition, { type: 'paymentMethod' }>['values'] };
+        case 'weekday':
+          return { type: 'weekday', days: condition.days };
+      }
+    }),
+    actions: ruleDraft.actions.map((action): RuleAction => {
+      switch (action.type) {
+        case 'setCategory':
+          return { type: 'setCategory', category: action.category };
+        case 'addTags':
+          return { type: 'addTags', tags: TagUtils.parseInput(action.tags) };
+        case 'setNotes':
+          return { type: 'setNotes', notes: action.notes };
+        case 'markReimbursable':
+          return { type: 'markReimbursable' };
+      }
+    }),
+  });
+
+  const loadRules = async () => {
+    try {
+      const [list, cats, currency] = await Promise.all([
+        categorizationManager.getRules(),
+        db.categories.orderBy('name').toArray(),
+        preferences.getPreference('currency'),
+      ]);
+      setRules(list);
+      setCategories(cats);
+      setBaseCurrency(currency);
+    } catch (err) {
+      console.error('Failed to load rules:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+      await loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update rules');
+    }
+  };
+
+  const startEditing = (rule: CategorizationRule | null) => {
+    const id = rule ? rule.id! : 'new';
+    if (editingRule === id) {
+      setEditingRule(null);
+      return;
+    }
+    setEditingRule(id);
+    setDraft(
+      rule
+        ? toDraft(rule)
+        : { name: '', match: 'all', stopProcessing: false, conditions: [newCondition()], actions: [newAction()] }
+    );
+    setError(null);
+  };
+
+  const updateCondition = (index: number, changes: Partial<ConditionDraft>) => {
+    setDraft(prev => prev && { ...prev, conditions: prev.conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+  };
+
+  const updateAction = (index: number, changes: Partial<ActionDraft>) => {
+    setDraft(prev => prev && { ...prev, actions: prev.actions.map((a, i) => (i === index ? { ...a, ...changes } : a)) });
+  };
+
+  const toggleListValue = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    runAction(async () => {
+      if (editingRule === 'new') {
+        await categorizationManager.createRule(toInput(draft, true));
+      } else if (editingRule !== null) {
+        const enabled = rules.find(rule => rule.id === editingRule)?.enabled ?? true;
+        await categorizationManager.updateRule(editingRule, toInput(draft, enabled));
+      }
+      setEditingRule(null);
+    });
+  };
+
+  const handleDelete = (rule: CategorizationRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"? Expenses it already changed stay as they are.`)) {
+      return;
+    }
+    runAction(() => categorizationManager.deleteRule(rule.id!));
+  };
+
+  const handlePreview = () => {
+    runAction(async () => {
+      const result = await categorizationManager.previewHistory();
+      setPreviews(result);
+      if (result.length === 0) setMessage('Your rules would not change any existing expenses.');
+    });
+  };
+
+  const handleApply = () => {
+    if (!previews) return;
+    runAction(async () => {
+      const changed = await categorizationManager.applyToHistory(previews);
+      setPreviews(null);
+      setMessage(`Updated ${changed} expense${changed === 1 ? '' : 's'}.`);
+    });
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const renderCondition = (condition: ConditionDraft, index: number) => (
+    <div key={index} className="flex flex-wrap items-center gap-1">
+      <select
+        value={condition.type}
+        onChange={e => updateCondition(index, { type: e.target.value as ConditionDraft['type'] })}
+        className={inputClassName}
+        aria-label="Condition type"
+      >
+        {CONDITION_TYPES.map(type => (
+          <option key={type.value} value={type.value}>
+            {type.label}
+          </option>
+        ))}
+      </select>
+
+      {(condition.type === 'text' || condition.type === 'regex') && (
+        <select
+          value={condition.field}
+          onChange={e => updateCondition(index, { field: e.target.value as RuleTextField })}
+          className={inputClassName}
+          aria-label="Field"
+        >
+          <option value="description">Description</option>
+          <option value="notes">Notes</option>
+        </select>
+      )}
+
+      {condition.type === 'text' && (
+        <select
+          value={condition.textOperator}
+          onChange={e => updateCondition(index, { textOperator: e.target.value as ConditionDraft['textOperator'] })}
+          className={inputClassName}
+          aria-label="Operator"
+        >
+          <option value="contains">contains</option>
+          <option value="startsWith">starts with</option>
+          <option value="equals">is</option>
+        </select>
+      )}
+
+      {condition.type === 'amount' && (
+        <select
+          value={condition.amountOperator}
+          onChange={e => updateCondition(index, { amountOperator: e.target.value as ConditionDraft['amountOperator'] })}
+          className={inputClassName}
+          aria-label="Operator"
+        >
+          {AMOUNT_OPERATORS.map(operator => (
+            <option key={operator.value} value={operator.value}>
+              {operator.label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {(condition.type === 'text' || condition.type === 'regex' || condition.type === 'amount') && (
+        <input
+          type="text"
+          inputMode={condition.type === 'amount' ? 'decimal' : undefined}
+          value={condition.value}
+          onChange={e => updateCondition(index, { value: e.target.value })}
+          className={`flex-1 ${inputClassName}`}
+          placeholder={condition.type === 'amount' ? `0.00 ${condition.currency}` : condition.type === 'regex' ? '^uber\\b' : 'uber'}
+          aria-label="Value"
+        />
+      )}
+
+      {condition.type === 'paymentMethod' &&
+        PAYMENT_METHODS.map(method => (
+          <label key={method.value} className="text-xs text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={condition.paymentMethods.includes(method.value)}
+              onChange={() => updateCondition(index, { paymentMethods: toggleListValue(condition.paymentMethods, method.value) })}
+              className="mr-1"
+            />
+            {method.label}
+          </label>
+        ))}
+
+      {condition.type === 'weekday' &&
+        WEEKDAYS.map((day, dayIndex) => (
+          <label key={day} className="text-xs text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={condition.days.includes(dayIndex)}
+              onChange={() => updateCondition(index, { days: toggleListValue(condition.days, dayIndex) })}
+              className="mr-1"
+            />
+            {day}
+          </label>
+        ))}
+
+      <button
+        type="button"
+        onClick={() => setDraft(prev => prev && { ...prev, conditions: prev.conditions.filter((_, i) => i !== index) })}
+        className="text-xs text-red-600 dark:text-red-400 hover:text-red-800"
+        aria-label="Remove condition"
+      >
+        ✕
+      </button>
+    </div>
+  );
+
+  const renderAction = (action: ActionDraft, index: number) => (
+    <div key={index} className="flex flex-wrap items-center gap-1">
+      <select
+        value={action.type}
+        onChange={e => updateAction(index, { type: e.target.value as ActionDraft['type'] })}
+        className={inputClassName}
+        aria-label="Action type"
+      >
+        {ACTION_TYPES.map(type => (
+          <option key={type.value} value={type.value}>
+            {type.label}
+          </option>
+        ))}
+      </select>
+
+      {action.type === 'setCategory' && (
+        <select
+          value={action.category}
+          onChange={e => updateAction(index, { category: e.target.value })}
+          className={`flex-1 ${inputClassName}`}
+          aria-label="Category"
+        >
+          <option value="">Choose…</option>
+          {categories.map(category => (
+            <option key={category.id} value={category.name}>
+              {category.icon} {category.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {action.type === 'addTags' && (
+        <input
+          type="text"
+          value={action.tags}
+          onChange={e => updateAction(index, { tags: e.target.value })}
+          className={`flex-1 ${inputClassName}`}
+          placeholder="work, travel"
+          aria-label="Tags"
+        />
+      )}
+
+      {action.type === 'setNotes' && (
+        <input
+          type="text"
+          value={action.notes}
+          onChange={e => updateAction(index, { notes: e.target.value })}
+          className={`flex-1 ${inputClassName}`}
+          aria-label="Notes"
+        />
+      )}
+
+      <button
+        type="button"
+        onClick={() => setDraft(prev => prev && { ...prev, actions: prev.actions.filter((_, i) => i !== index) })}
+        className="text-xs text-red-600 dark:text-red-400 hover:text-red-800"
+        aria-label="Remove action"
+      >
+        ✕
+      </button>
+    </div>
+  );
+
+  const renderEditor = () =>
+    draft && (
+      <form onSubmit={handleSave} className="mt-3 space-y-3">
+        <input
+          type="text"
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          className={`w-full ${inputClassName}`}
+          placeholder="Rule name"
+          aria-label="Rule name"
+          required
+        />
+
+        <div className="space-y-1">
+          <div className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+            When
+            <select
+              value={draft.match}
+              onChange={e => setDraft({ ...draft, match: e.target.value as RuleDraft['match'] })}
+              className={`mx-1 ${inputClassName}`}
+              aria-label="Match"
+            >
+              <option value="all">all</option>
+              <option value="any">any</option>
+            </select>
+            of these hold
+          </div>
+          {draft.conditions.map(renderCondition)}
+          <button
+            type="button"
+            onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, newCondition()] })}
+            className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+          >
+            Add condition
+          </button>
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-xs text-gray-500 dark:text-gray-400">Then</div>
+          {draft.actions.map(renderAction)}
+          <button
+            type="button"
+            onClick={() => setDraft({ ...draft, actions: [...draft.actions, newAction()] })}
+            className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+          >
+            Add action
+          </button>
+        </div>
+
+        <label className="flex items-center text-xs text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={draft.stopProcessing}
+            onChange={e => setDraft({ ...draft, stopProcessing: e.target.checked })}
+            className="mr-2"
+          />
+          Stop here when this rule matches
+        </label>
+
+        <button type="submit" className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800">
+          Save rule
+        </button>
+      </form>
+    );
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Rules</h3>
+        <span className="flex items-center space-x-3">
+          {rules.length > 0 && (
+            <button onClick={handlePreview} className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800">
+              Run on history
+            </button>
+          )}
+          <button onClick={() => startEditing(null)} className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800">
+            Add rule
+          </button>
+        </span>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {message && <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">{message}</p>}
+
+      {previews && previews.length > 0 && (
+        <div className="mb-3 p-2 rounded border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between mb-2 text-xs text-gray-700 dark:text-gray-300">
+            <span>
+              {previews.length} expense{previews.length === 1 ? '' : 's'} would change
+            </span>
+            <span className="space-x-2">
+              <button onClick={handleApply} className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800">
+                Apply
+              </button>
+              <button
+                onClick={() => setPreviews(null)}
+                className="text-xs text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100"
+              >
+                Cancel
+              </button>
+            </span>
+          </div>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+            {previews.map(preview => (
+              <li key={preview.expense.id} className="py-1 text-xs">
+                <div className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                  {preview.expense.description} · {preview.expense.date.toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                </div>
+                {preview.changes.map(change => (
+                  <div key={change.field} className="text-gray-500 dark:text-gray-400">
+                    {RevisionUtils.getFieldLabel(change.field)}: {RevisionUtils.formatValue(change.before)} →{' '}
+                    {RevisionUtils.formatValue(change.after)}
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {editingRule === 'new' && renderEditor()}
+
+      {rules.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No rules yet. Rules categorize and tag new expenses as you add them.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {rules.map((rule, index) => (
+            <li key={rule.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-2">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => startEditing(rule)}
+                  className={`text-left text-sm ${rule.enabled ? 'text-gray-900 dark:text-gray-100' : 'text-gray-400 line-through'}`}
+                >
+                  {rule.name}
+                </button>
+                <span className="flex items-center space-x-2 text-xs">
+                  <button
+                    onClick={() => runAction(() => categorizationManager.moveRule(rule.id!, -1))}
+                    disabled={index === 0}
+                    className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    aria-label="Run earlier"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => runAction(() => categorizationManager.moveRule(rule.id!, 1))}
+                    disabled={index === rules.length - 1}
+                    className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    aria-label="Run later"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    onClick={() => runAction(() => categorizationManager.updateRule(rule.id!, { enabled: !rule.enabled }))}
+                    className="text-primary-600 dark:text-primary-400 hover:text-primary-800"
+                  >
+                    {rule.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </div>
+
+              {editingRule === rule.id && renderEditor()}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
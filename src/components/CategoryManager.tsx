@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { db, type Category } from '@/lib/database';
+import { CategoryUtils, type CategoryNode } from '@/lib/categories';
+
+interface CategoryManagerProps {
+  className?: string;
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm';
+
+export default function CategoryManager({ className = '' }: CategoryManagerProps): JSX.Element {
+  const [kind, setKind] = useState<Category['kind']>('expense');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [movingCategory, setMovingCategory] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [categoryForm, setCategoryForm] = useState({
+    name: '',
+    icon: '📁',
+    parentId: '',
+  });
+
+  const loadCategories = async () => {
+    try {
+      setCategories(await db.categories.toArray());
+    } catch (err) {
+      console.error('Failed to load categories:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      setIsAdding(false);
+      setMovingCategory(null);
+      await loadCategories();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update categories');
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      const name = categoryForm.name.trim();
+      if (!name) {
+        throw new Error('Please enter a category name.');
+      }
+      if (categories.some(category => category.name.toLowerCase() === name.toLowerCase())) {
+        throw new Error(`A category named "${name}" already exists.`);
+      }
+
+      const parent = categories.find(category => category.id?.toString() === categoryForm.parentId);
+      await db.addCategory({
+        name,
+        kind,
+        icon: categoryForm.icon || '📁',
+        color: parent?.color ?? '#6b7280',
+        parentId: parent?.id,
+        isDefault: false,
+      });
+      setCategoryForm({ name: '', icon: '📁', parentId: '' });
+    });
+  };
+
+  const handleMove = (category: Category, parentId: string) => {
+    runAction(() => db.updateCategory(category.id!, { parentId: parentId ? parseInt(parentId, 10) : undefined }));
+  };
+
+  const handleDelete = (node: CategoryNode) => {
+    const parentName = node.path[node.path.length - 2];
+    const replacement = parentName ?? (kind === 'income' ? 'Other Income' : 'Other');
+    if (!confirm(`Delete "${node.category.name}"? Its expenses and subcategories will move to "${replacement}".`)) {
+      return;
+    }
+    runAction(() => db.deleteCategory(node.category.id!));
+  };
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  const tree = CategoryUtils.flattenTree(categories.filter(category => category.kind === kind));
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Categories</h3>
+        <button
+          onClick={() => setIsAdding(!isAdding)}
+          className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+        >
+          {isAdding ? 'Cancel' : 'Add category'}
+        </button>
+      </div>
+
+      <div className="inline-flex rounded-md shadow-sm mb-3" role="group" aria-label="Category type">
+        {(['expense', 'income'] as const).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setKind(option)}
+            aria-pressed={kind === option}
+            className={`px-3 py-1 text-xs font-medium border border-gray-300 dark:border-gray-600 first:rounded-l-md last:rounded-r-md ${
+              kind === option
+                ? 'bg-primary-600 text-white border-primary-600'
+                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600'
+            }`}
+          >
+            {option === 'expense' ? 'Expense' : 'Income'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleAdd} className="mb-4 space-y-2">
+          <div className="grid grid-cols-4 gap-2">
+            <input
+              type="text"
+              value={categoryForm.icon}
+              onChange={e => setCategoryForm(prev => ({ ...prev, icon: e.target.value }))}
+              className={inputClassName}
+              aria-label="Icon"
+              maxLength={4}
+            />
+            <input
+              type="text"
+              value={categoryForm.name}
+              onChange={e => setCategoryForm(prev => ({ ...prev, name: e.target.value }))}
+              className={`${inputClassName} col-span-3`}
+              placeholder="Category name"
+              aria-label="Category name"
+              required
+            />
+          </div>
+          <select
+            value={categoryForm.parentId}
+            onChange={e => setCategoryForm(prev => ({ ...prev, parentId: e.target.value }))}
+            className={inputClassName}
+            aria-label="Parent category"
+          >
+            <option value="">Top level</option>
+            {tree.map(node => (
+              <option key={node.category.id} value={node.category.id}>
+                {node.path.join(' > ')}
+              </option>
+            ))}
+          </select>
+          <button type="submit" className="ds-button ds-button--primary text-xs">
+            Save Category
+          </button>
+        </form>
+      )}
+
+      <ul className="space-y-1">
+        {tree.map(node => (
+          <li key={node.category.id} style={{ paddingLeft: `${node.depth * 1.25}rem` }}>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-900 dark:text-gray-100">
+                {node.category.icon} {node.category.name}
+              </span>
+              {!node.category.isDefault && (
+                <span className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setMovingCategory(movingCategory === node.category.id ? null : node.category.id!)}
+                    className="text-xs text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                  >
+                    Move
+                  </button>
+                  <button
+                    onClick={() => handleDelete(node)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                  >
+                    Delete
+                  </button>
+                </span>
+              )}
+            </div>
+
+            {movingCategory === node.category.id && (
+              <select
+                value={node.category.parentId?.toString() ?? ''}
+                onChange={e => handleMove(node.category, e.target.value)}
+                className={`${inputClassName} mt-1`}
+                aria-label={`Move ${node.category.name} under`}
+              >
+                <option value="">Top level</option>
+                {tree
+                  .filter(
+                    other =>
+                      other.category.id !== node.category.id &&
+                      !CategoryUtils.getDescendantIds(node.category.id!, categories).includes(other.category.id!)
+                  )
+                  .map(other => (
+                    <option key={other.category.id} value={other.category.id}>
+                      {other.path.join(' > ')}
+                    </option>
+                  ))}
+              </select>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
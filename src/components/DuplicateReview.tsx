@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { duplicateManager, type DuplicateReview as DuplicatePairReview } from '@/lib/duplicates';
+import { trashManager } from '@/lib/trash';
+import { CurrencyUtils } from '@/lib/currency';
+import type { DuplicateReason, Expense } from '@/lib/database';
+
+interface DuplicateReviewProps {
+  className?: string;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  amount: 'Same amount',
+  date: 'Same day',
+  description: 'Similar description',
+  receipt: 'Same receipt',
+};
+
+export default function DuplicateReview({ className = '' }: DuplicateReviewProps): JSX.Element {
+  const [reviews, setReviews] = useState<DuplicatePairReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isScanning, setIsScanning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReviews = async () => {
+    try {
+      setReviews(await duplicateManager.getPending());
+    } catch (err) {
+      console.error('Failed to load duplicates:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+      await loadReviews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update duplicates');
+    }
+  };
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    await runAction(async () => {
+      const found = await duplicateManager.scan();
+      setMessage(found === 0 ? 'No new duplicates found.' : `Found ${found} possible duplicate${found === 1 ? '' : 's'}.`);
+    });
+    setIsScanning(false);
+  };
+
+  useEffect(() => {
+    loadReviews();
+
+    // Saving an expense can flag a pair, and deleting one can settle it
+    const handleChange = () => loadReviews();
+    duplicateManager.on('duplicatesChanged', handleChange);
+    trashManager.on('trashChanged', handleChange);
+    return () => {
+      duplicateManager.off('duplicatesChanged', handleChange);
+      trashManager.off('trashChanged', handleChange);
+    };
+  }, []);
+
+  const renderSide = (review: DuplicatePairReview, expense: Expense) => (
+    <div className="flex-1 min-w-0 p-2 rounded border border-gray-200 dark:border-gray-700">
+      <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+        {expense.receipt && <span aria-label="Has receipt">📎 </span>}
+        {expense.description}
+      </div>
+      <div className="text-xs text-gray-500 dark:text-gray-400">
+        {CurrencyUtils.format(expense.amount, expense.currency)} · {expense.date.toLocaleDateString()}
+      </div>
+      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+        {expense.category}
+        {expense.tags && expense.tags.length > 0 && ` · ${expense.tags.join(', ')}`}
+      </div>
+      <button
+        onClick={() => runAction(() => duplicateManager.merge(review.pair.id!, expense.id!))}
+        className="mt-1 text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+      >
+        Keep this
+      </button>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Possible Duplicates</h3>
+        <button
+          onClick={handleScan}
+          disabled={isScanning}
+          className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800 disabled:opacity-50"
+        >
+          {isScanning ? 'Scanning...' : 'Scan'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {message && <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">{message}</p>}
+
+      {reviews.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No duplicates waiting for review.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {reviews.map(review => (
+            <li key={review.pair.id} className="py-3">
+              <div className="flex items-center justify-between mb-2 text-xs text-gray-500 dark:text-gray-400">
+                <span>
+                  {Math.round(review.pair.score * 100)}% match · {review.pair.reasons.map(reason => REASON_LABELS[reason]).join(', ')}
+                </span>
+                <button
+                  onClick={() => runAction(() => duplicateManager.dismiss(review.pair.id!))}
+                  className="text-xs text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100"
+                >
+                  Not duplicates
+                </button>
+              </div>
+              <div className="flex space-x-2">
+                {renderSide(review, review.expense)}
+                {renderSide(review, review.other)}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
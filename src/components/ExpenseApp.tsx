@@ -1,5 +1,9 @@
 import { useEffect, useState } from 'react';
 import { pwaService } from '@/lib/pwa';
+import { recurringManager } from '@/lib/recurring';
+import { budgetManager } from '@/lib/budgets';
+import { trashManager } from '@/lib/trash';
+import { billManager } from '@/lib/bills';
 import PWAInstallButton from '@/components/PWAInstallButton';
 import PWAUpdateNotification from '@/components/PWAUpdateNotification';
 import OfflineIndicator from '@/components/OfflineIndicator';
@@ -7,6 +11,24 @@ import PerformanceDashboard from '@/components/PerformanceDashboard';
 import SecurityDashboard from '@/components/SecurityDashboard';
 import PrivacyConsent, { ConsentBanner } from '@/components/PrivacyConsent';
 import StorageWarning, { StorageIndicator } from '@/components/StorageWarning';
+import RecurringRules from '@/components/RecurringRules';
+import BillReminders from '@/components/BillReminders';
+import QuickStats from '@/components/QuickStats';
+import SavingsGoals from '@/components/SavingsGoals';
+import AccountsView from '@/components/AccountsView';
+import SharedBalances from '@/components/SharedBalances';
+import ProjectsView from '@/components/ProjectsView';
+import MileageLog from '@/components/MileageLog';
+import TaxReport from '@/components/TaxReport';
+import BudgetProgress from '@/components/BudgetProgress';
+import ExpenseSearch from '@/components/ExpenseSearch';
+import TagManager from '@/components/TagManager';
+import PayeeManager from '@/components/PayeeManager';
+import CategorizationRules from '@/components/CategorizationRules';
+import CategoryManager from '@/components/CategoryManager';
+import TrashView from '@/components/TrashView';
+import DuplicateReview from '@/components/DuplicateReview';
+import UndoRedoControls from '@/components/UndoRedoControls';
 
 export default function ExpenseApp(): JSX.Element {
   const [isInitialized, setIsInitialized] = useState(false);
@@ -35,7 +57,20 @@ export default function ExpenseApp(): JSX.Element {
 
     initializePWA().finally(() => {
       clearTimeout(timeout);
+
+      // Reminders go through the service worker, so wait for it first
+      billManager.checkReminders().catch(err => console.error('Failed to check bill reminders:', err));
     });
+
+    // Generate recurring expenses missed while the app was closed, then
+    // check whether they pushed any budgets over a threshold
+    recurringManager
+      .processDueRules()
+      .then(() => budgetManager.checkBudgets())
+      .catch(err => console.error('Failed to process recurring expenses:', err));
+
+    // Drop expenses that have been in the trash longer than the retention period
+    trashManager.purgeExpired().catch(err => console.error('Failed to purge trash:', err));
   }, []);
 
   if (!isInitialized) {
@@ -101,6 +136,9 @@ export default function ExpenseApp(): JSX.Element {
               {/* Storage Indicator */}
               <StorageIndicator />
               
+              {/* Undo / redo */}
+              <UndoRedoControls />
+
               {/* Theme toggle */}
               <ThemeToggle />
               
@@ -180,50 +218,82 @@ export default function ExpenseApp(): JSX.Element {
 
         {/* Quick Stats */}
         <div className="ds-card">
-          <div className="ds-card-header">
-            <h3 className="ds-card-header__title">Quick Stats</h3>
-          </div>
-          
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div className="ds-stat">
-              <div className="flex items-center mb-2">
-                <div className="ds-avatar ds-avatar--small" style={{ backgroundColor: 'var(--color-primary-accent)' }}>
-                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" style={{ color: 'var(--color-neutral-black)' }}>
-                    <path fillRule="evenodd" d="M4 4a2 2 0 00-2 2v4a2 2 0 002 2V6h10a2 2 0 00-2-2H4zm2 6a2 2 0 012-2h8a2 2 0 012 2v4a2 2 0 01-2 2H8a2 2 0 01-2-2v-4zm6 4a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
-                  </svg>
-                </div>
-                <span className="ds-badge ds-badge--success ml-2">This Month</span>
-              </div>
-              <div className="ds-stat__value">$0.00</div>
-              <div className="ds-stat__label">Monthly Total</div>
-            </div>
+          <QuickStats />
+        </div>
 
-            <div className="ds-stat">
-              <div className="flex items-center mb-2">
-                <div className="ds-avatar ds-avatar--small" style={{ backgroundColor: 'var(--color-neutral-light-gray)' }}>
-                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" style={{ color: 'var(--color-neutral-dark-gray)' }}>
-                    <path d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                  </svg>
-                </div>
-                <span className="ds-badge ds-badge--neutral ml-2">All Time</span>
-              </div>
-              <div className="ds-stat__value">0</div>
-              <div className="ds-stat__label">Total Expenses</div>
-            </div>
+        {/* Savings Goals */}
+        <div className="ds-card">
+          <SavingsGoals />
+        </div>
 
-            <div className="ds-stat">
-              <div className="flex items-center mb-2">
-                <div className="ds-avatar ds-avatar--small" style={{ backgroundColor: 'var(--color-neutral-medium-gray)' }}>
-                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" style={{ color: 'var(--color-neutral-dark-gray)' }}>
-                    <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
-                  </svg>
-                </div>
-                <span className="ds-badge ds-badge--neutral ml-2">Active</span>
-              </div>
-              <div className="ds-stat__value">0</div>
-              <div className="ds-stat__label">Categories</div>
-            </div>
-          </div>
+        {/* Budgets */}
+        <div className="ds-card">
+          <BudgetProgress />
+        </div>
+
+        {/* Recurring Expenses */}
+        <div className="ds-card">
+          <RecurringRules />
+        </div>
+
+        {/* Bills */}
+        <div className="ds-card">
+          <BillReminders />
+        </div>
+
+        {/* Accounts */}
+        <div className="ds-card">
+          <AccountsView />
+        </div>
+
+        {/* Shared Expenses */}
+        <div className="ds-card">
+          <SharedBalances />
+        </div>
+
+        {/* Trips & Projects */}
+        <div className="ds-card">
+          <ProjectsView />
+        </div>
+
+        {/* Mileage */}
+        <div className="ds-card">
+          <MileageLog />
+        </div>
+
+        {/* Tax Report */}
+        <div className="ds-card">
+          <TaxReport />
+        </div>
+
+        {/* Categories */}
+        <div className="ds-card">
+          <CategoryManager />
+        </div>
+
+        {/* Tags */}
+        <div className="ds-card">
+          <TagManager />
+        </div>
+
+        {/* Payees */}
+        <div className="ds-card">
+          <PayeeManager />
+        </div>
+
+        {/* Categorization Rules */}
+        <div className="ds-card">
+          <CategorizationRules />
+        </div>
+
+        {/* Trash */}
+        <div className="ds-card">
+          <TrashView />
+        </div>
+
+        {/* Duplicates */}
+        <div className="ds-card">
+          <DuplicateReview />
         </div>
 
         {/* Performance Dashboard */}
@@ -236,6 +306,11 @@ export default function ExpenseApp(): JSX.Element {
           <SecurityDashboard />
         </div>
 
+        {/* Search */}
+        <div className="ds-card ds-card--wide">
+          <ExpenseSearch />
+        </div>
+
         {/* Recent Expenses */}
         <div className="ds-card ds-card--wide">
           <div className="ds-card-header">
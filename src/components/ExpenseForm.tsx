@@ -1,7 +1,45 @@
 import { useState, useRef } from 'react';
-import { db, type Expense } from '@/lib/database';
+import { db, type Account, type Category, type Expense, type ExpenseSharing, type Payee, type Person, type Project, type RecurrenceFrequency, type ShareMethod, type Tag } from '@/lib/database';
 import { opfsStorage, StorageUtils } from '@/lib/storage';
-import { preferences } from '@/lib/preferences';
+import { attachmentManager, AttachmentUtils, MAX_ATTACHMENTS } from '@/lib/attachments';
+import { preferences, PreferencesUtils } from '@/lib/preferences';
+import { recurringManager } from '@/lib/recurring';
+import { SplitUtils } from '@/lib/splits';
+import { MoneyUtils } from '@/lib/money';
+import { CurrencyUtils } from '@/lib/currency';
+import { accountManager } from '@/lib/accounts';
+import { budgetManager } from '@/lib/budgets';
+import { duplicateManager } from '@/lib/duplicates';
+import { payeeManager, PayeeUtils } from '@/lib/payees';
+import { categorizationManager } from '@/lib/categorization';
+import { peopleManager } from '@/lib/people';
+import { SharingUtils } from '@/lib/sharing';
+import { projectManager, ProjectUtils, type ProjectTotal } from '@/lib/projects';
+import { taxManager } from '@/lib/tax';
+import { TagUtils } from '@/lib/tags';
+import { CategoryUtils } from '@/lib/categories';
+import ExpenseHistory from '@/components/ExpenseHistory';
+
+interface SplitLine {
+  amount: string;
+  category: string;
+  notes: string;
+}
+
+interface ShareLine {
+  personId: string; // Empty for you
+  included: boolean;
+  value: string; // Percentage or amount, depending on the method
+}
+
+interface AttachmentItem {
+  key: string;
+  id?: number; // Already stored
+  file?: File; // Waiting to be uploaded
+  fileName: string;
+  preview: string | null; // Image URL, or null for PDFs
+  caption: string;
+}
 
 interface ExpenseFormProps {
   expense?: Expense;
@@ -17,21 +55,47 @@ export default function ExpenseForm({
   className = '',
 }: ExpenseFormProps): JSX.Element {
   const [formData, setFormData] = useState({
-    amount: expense?.amount?.toString() || '',
+    kind: expense?.kind || 'expense',
+    amount: expense ? MoneyUtils.toInputValue({ amount: expense.amount, currency: expense.currency }) : '',
+    currency: expense?.currency || 'USD',
     description: expense?.description || '',
     category: expense?.category || 'Other',
     paymentMethod: expense?.paymentMethod || 'card',
+    accountId: expense?.accountId?.toString() || '',
+    projectId: expense?.projectId?.toString() || '',
     date: expense?.date ? expense.date.toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
     notes: expense?.notes || '',
     tags: expense?.tags?.join(', ') || '',
+    repeat: 'none',
+    reimbursable: expense?.reimbursable ?? false,
+    taxDeductible: expense?.taxDeductible ?? false,
+    taxCategory: expense?.taxCategory || '',
   });
 
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [receiptFile, setReceiptFile] = useState<File | null>(null);
-  const [receiptPreview, setReceiptPreview] = useState<string | null>(
-    expense?.receipt?.mediaId || null
+  const [splitLines, setSplitLines] = useState<SplitLine[]>(
+    expense?.splits?.map(split => ({
+      amount: MoneyUtils.toInputValue({ amount: split.amount, currency: expense.currency }),
+      category: split.category,
+      notes: split.notes || '',
+    })) || []
   );
-  const [categories, setCategories] = useState<Array<{ name: string; icon: string }>>([]);
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [attachments, setAttachments] = useState<AttachmentItem[]>([]);
+  const [categories, setCategories] = useState<Array<{ name: string; icon: string; kind: Category['kind']; depth: number }>>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectTotals, setProjectTotals] = useState<Map<number, ProjectTotal>>(new Map());
+  const [taxCategories, setTaxCategories] = useState<string[]>([]);
+  const [tagSuggestions, setTagSuggestions] = useState<Tag[]>([]);
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [payee, setPayee] = useState<Payee | null>(null);
+  const [payeeSuggestions, setPayeeSuggestions] = useState<Payee[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [isShared, setIsShared] = useState(!!expense?.sharing);
+  const [shareMethod, setShareMethod] = useState<ShareMethod>(expense?.sharing?.method ?? 'equal');
+  const [sharePaidBy, setSharePaidBy] = useState(expense?.sharing?.paidBy?.toString() ?? '');
+  const [shareLines, setShareLines] = useState<ShareLine[]>([]);
   const [error, setError] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -39,8 +103,76 @@ export default function ExpenseForm({
   // Load categories on component mount
   useState(() => {
     db.categories.toArray().then(cats => {
-      setCategories(cats.map(cat => ({ name: cat.name, icon: cat.icon })));
+      // Subcategories are listed under their parents
+      setCategories(
+        CategoryUtils.flattenTree(cats).map(({ category, depth }) => ({
+          name: category.name,
+          icon: category.icon,
+          kind: category.kind,
+          depth,
+        }))
+      );
+    });
+
+    accountManager.getAccounts().then(setAccounts);
+    taxManager.getTaxCategories().then(setTaxCategories);
+
+    if (expense?.id) {
+      attachmentManager.getAttachments(expense.id).then(async files => {
+        setAttachments(
+          await Promise.all(
+            files.map(async media => ({
+              key: media.mediaId,
+              id: media.id,
+              fileName: media.fileName,
+              preview: media.mimeType.startsWith('image/') && media.thumbnailId
+                ? await opfsStorage.getThumbnailURL(media.thumbnailId).catch(() => null)
+                : null,
+              caption: media.caption || '',
+            }))
+          )
+        );
+      });
+    }
+
+    // Active projects, plus an archived one already on this expense
+    Promise.all([projectManager.getProjects(true), projectManager.getTotals(true)]).then(([list, totals]) => {
+      setProjects(list.filter(project => !project.isArchived || project.id === expense?.projectId));
+      setProjectTotals(totals);
     });
+
+    // Everyone can share, plus archived people already on this expense
+    peopleManager.getPeople(true).then(list => {
+      const involved = new Set(SharingUtils.getPeople(expense?.sharing) ?? []);
+      const available = list.filter(person => !person.isArchived || involved.has(person.id!));
+      setPeople(available);
+      setShareLines(
+        [undefined, ...available.map(person => person.id)].map(personId => {
+          const share = expense?.sharing?.shares.find(s => s.personId === personId);
+          const value =
+            expense?.sharing?.method === 'percentage'
+              ? share?.percentage?.toString() ?? ''
+              : share && expense
+                ? MoneyUtils.toInputValue({ amount: share.amount, currency: expense.currency })
+                : '';
+          return { personId: personId?.toString() ?? '', included: expense ? !!share : true, value };
+        })
+      );
+    });
+
+    payeeManager.getPayees().then(list => {
+      setPayees(list);
+      if (expense) {
+        setPayee(list.find(p => p.id === expense.payeeId) ?? PayeeUtils.findMatch(list, expense.description) ?? null);
+      }
+    });
+
+    // New expenses default to the user's base currency
+    if (!expense?.currency) {
+      preferences.getPreference('currency').then(currency => {
+        setFormData(prev => ({ ...prev, currency }));
+      });
+    }
   });
 
   const handleInputChange = (
@@ -51,39 +183,196 @@ export default function ExpenseForm({
     setError(null);
   };
 
-  const handleReceiptUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const handleProjectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const project = projects.find(p => p.id?.toString() === e.target.value);
+    setFormData(prev => ({
+      ...prev,
+      projectId: e.target.value,
+      // New expenses default to the project's currency
+      currency: !expense && project ? project.currency : prev.currency,
+    }));
+    setError(null);
+  };
 
-    // Validate file type
-    if (!StorageUtils.isValidMediaType(file.type)) {
-      setError('Please select a valid image or PDF file.');
-      return;
+  const handleKindChange = (kind: Category['kind']) => {
+    const firstCategory = categories.find(cat => cat.kind === kind)?.name;
+    setFormData(prev => ({
+      ...prev,
+      kind,
+      category: kind === 'income' ? firstCategory || 'Other Income' : 'Other',
+    }));
+    setSplitLines([]);
+    setError(null);
+  };
+
+  // Fill in the payee's usual category and payment method when the payee changes
+  const applyPayee = (match: Payee | null) => {
+    if (match?.id === payee?.id) return;
+    setPayee(match);
+    if (!match) return;
+
+    const category = kindCategories.some(cat => cat.name === match.defaultCategory) ? match.defaultCategory : undefined;
+    setFormData(prev => ({
+      ...prev,
+      category: category && splitLines.length === 0 ? category : prev.category,
+      paymentMethod: match.defaultPaymentMethod ?? prev.paymentMethod,
+    }));
+  };
+
+  const handleDescriptionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleInputChange(e);
+
+    const match = PayeeUtils.findMatch(payees, e.target.value) ?? null;
+    applyPayee(match);
+    setPayeeSuggestions(PayeeUtils.suggest(payees, e.target.value).filter(p => p.id !== match?.id));
+  };
+
+  const handlePayeeSuggestion = (suggestion: Payee) => {
+    setFormData(prev => ({ ...prev, description: suggestion.name }));
+    applyPayee(suggestion);
+    setPayeeSuggestions([]);
+  };
+
+  const handleCreatePayee = async () => {
+    setError(null);
+    try {
+      const id = await payeeManager.createPayee({
+        name: formData.description.trim(),
+        aliases: [],
+        defaultCategory: splitLines.length === 0 ? formData.category : undefined,
+        defaultPaymentMethod: formData.paymentMethod as Expense['paymentMethod'],
+      });
+      const list = await payeeManager.getPayees();
+      setPayees(list);
+      setPayee(list.find(p => p.id === id) ?? null);
+      setPayeeSuggestions([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save payee');
     }
+  };
+
+  const handleTagsChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleInputChange(e);
 
-    // Validate file size (10MB max)
-    if (file.size > 10 * 1024 * 1024) {
-      setError('File size must be less than 10MB.');
+    // Suggest tags for the one being typed, leaving out those already entered
+    const parts = e.target.value.split(',');
+    const current = parts.pop() ?? '';
+    const entered = TagUtils.normalizeList(parts);
+
+    if (!current.trim()) {
+      setTagSuggestions([]);
       return;
     }
 
-    setReceiptFile(file);
-    
-    // Create preview for images
-    if (file.type.startsWith('image/')) {
-      const previewUrl = URL.createObjectURL(file);
-      setReceiptPreview(previewUrl);
-    } else {
-      setReceiptPreview('pdf');
+    const suggestions = await db.suggestTags(current);
+    setTagSuggestions(suggestions.filter(tag => !entered.includes(tag.name)));
+  };
+
+  const handleTagSuggestion = (tag: Tag) => {
+    const parts = formData.tags.split(',').slice(0, -1).map(part => part.trim()).filter(Boolean);
+    setFormData(prev => ({ ...prev, tags: [...parts, tag.name].join(', ') + ', ' }));
+    setTagSuggestions([]);
+  };
+
+  const kindCategories = categories.filter(cat => cat.kind === formData.kind);
+
+  const handleToggleSplit = () => {
+    if (splitLines.length > 0) {
+      setSplitLines([]);
+      return;
     }
+
+    // Start with the whole amount on the current category plus an empty line
+    setSplitLines([
+      { amount: formData.amount, category: formData.category, notes: '' },
+      { amount: '', category: 'Other', notes: '' },
+    ]);
+    setError(null);
+  };
+
+  const handleSplitChange = (index: number, field: keyof SplitLine, value: string) => {
+    setSplitLines(prev => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+    setError(null);
   };
 
-  const handleRemoveReceipt = () => {
-    setReceiptFile(null);
-    setReceiptPreview(null);
+  // Minor units typed so far, treating anything unreadable as zero
+  const parseAmount = (value: string) => MoneyUtils.parse(value, formData.currency)?.amount ?? 0;
+
+  const getSplitRemaining = () =>
+    SplitUtils.getRemaining(
+      parseAmount(formData.amount),
+      splitLines.map(line => ({ amount: parseAmount(line.amount), category: line.category }))
+    );
+
+  const handleAddSplitLine = () => {
+    const remaining = getSplitRemaining();
+    setSplitLines(prev => [
+      ...prev,
+      { amount: remaining > 0 ? MoneyUtils.toInputValue({ amount: remaining, currency: formData.currency }) : '', category: 'Other', notes: '' },
+    ]);
+  };
+
+  const handleRemoveSplitLine = (index: number) => {
+    setSplitLines(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleShareLineChange = (index: number, changes: Partial<ShareLine>) => {
+    setShareLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+    setError(null);
+  };
+
+  const getPersonName = (personId: string) =>
+    personId ? people.find(person => person.id?.toString() === personId)?.name ?? 'Someone' : 'You';
+
+  const handleAttachmentUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+    if (files.length === 0) return;
+
+    if (attachments.length + files.length > MAX_ATTACHMENTS) {
+      setError(`An expense can have at most ${MAX_ATTACHMENTS} attachments.`);
+      return;
+    }
+
+    try {
+      files.forEach(file => AttachmentUtils.validateFile(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid file');
+      return;
+    }
+
+    setAttachments(prev => [
+      ...prev,
+      ...files.map(file => ({
+        key: StorageUtils.generateMediaId(),
+        file,
+        fileName: file.name,
+        // Create preview for images
+        preview: file.type.startsWith('image/') ? URL.createObjectURL(file) : null,
+        caption: '',
+      })),
+    ]);
+    setError(null);
+  };
+
+  const handleAttachmentChange = (index: number, caption: string) => {
+    setAttachments(prev => prev.map((item, i) => (i === index ? { ...item, caption } : item)));
+  };
+
+  const handleMoveAttachment = (index: number, direction: -1 | 1) => {
+    setAttachments(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target]!, next[index]!];
+      return next;
+    });
+  };
+
+  const handleRemoveAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -93,7 +382,7 @@ export default function ExpenseForm({
 
     try {
       // Validate form
-      const amount = parseFloat(formData.amount);
+      const amount = MoneyUtils.parse(formData.amount, formData.currency)?.amount ?? NaN;
       if (isNaN(amount) || amount <= 0) {
         throw new Error('Please enter a valid amount.');
       }
@@ -102,48 +391,54 @@ export default function ExpenseForm({
         throw new Error('Please enter a description.');
       }
 
-      // Handle receipt upload if present
-      let receiptData = expense?.receipt;
-      
-      if (receiptFile) {
-        const mediaId = StorageUtils.generateMediaId();
-        
-        const mediaMetadata = await opfsStorage.storeMediaFile(receiptFile, mediaId, {
-          compress: true,
-          quality: 0.8,
-          maxWidth: 1920,
-          maxHeight: 1080,
-          generateThumbnail: true,
-          thumbnailSize: 200,
-        });
-
-        // Store media metadata in database
-        await db.addMediaFile({
-          mediaId: mediaMetadata.id,
-          fileName: mediaMetadata.fileName,
-          mimeType: mediaMetadata.mimeType,
-          size: mediaMetadata.size,
-          thumbnailId: mediaMetadata.thumbnailId,
-        });
-
-        receiptData = {
-          mediaId: mediaMetadata.id,
-          fileName: mediaMetadata.fileName,
-          mimeType: mediaMetadata.mimeType,
-          size: mediaMetadata.size,
-        };
+      const splits = splitLines.length > 0
+        ? splitLines.map(line => ({
+            amount: MoneyUtils.parse(line.amount, formData.currency)?.amount ?? NaN,
+            category: line.category,
+            notes: line.notes.trim() || undefined,
+          }))
+        : undefined;
+      SplitUtils.validate(amount, splits, formData.currency);
+
+      let sharing: ExpenseSharing | undefined;
+      if (isShared) {
+        sharing = SharingUtils.resolve(
+          amount,
+          {
+            method: shareMethod,
+            paidBy: sharePaidBy ? parseInt(sharePaidBy, 10) : undefined,
+            shares: shareLines
+              .filter(line => line.included)
+              .map(line => ({
+                personId: line.personId ? parseInt(line.personId, 10) : undefined,
+                amount: shareMethod === 'exact' ? MoneyUtils.parse(line.value, formData.currency)?.amount ?? NaN : 0,
+                percentage: shareMethod === 'percentage' ? parseFloat(line.value) : undefined,
+              })),
+          },
+          formData.currency
+        );
       }
 
       // Prepare expense data
-      const expenseData: Omit<Expense, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'> = {
+      let expenseData: Omit<Expense, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'> = {
+        kind: formData.kind as Expense['kind'],
         amount,
+        currency: formData.currency,
         description: formData.description.trim(),
         category: formData.category,
         paymentMethod: formData.paymentMethod as Expense['paymentMethod'],
         date: new Date(formData.date),
         notes: formData.notes.trim() || undefined,
-        tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
-        receipt: receiptData,
+        tags: TagUtils.parseInput(formData.tags),
+        receipt: expense?.receipt,
+        splits,
+        sharing,
+        accountId: formData.accountId ? parseInt(formData.accountId, 10) : undefined,
+        payeeId: payee?.id,
+        projectId: formData.projectId ? parseInt(formData.projectId, 10) : undefined,
+        reimbursable: formData.reimbursable || undefined,
+        taxDeductible: (formData.kind === 'expense' && formData.taxDeductible) || undefined,
+        taxCategory: (formData.kind === 'expense' && formData.taxDeductible && formData.taxCategory.trim()) || undefined,
       };
 
       let savedExpense: Expense;
@@ -153,8 +448,18 @@ export default function ExpenseForm({
         await db.updateExpense(expense.id, expenseData);
         savedExpense = { ...expense, ...expenseData, updatedAt: new Date() };
       } else {
-        // Create new expense
+        // Create new expense, letting the user's rules fill in what they cover
+        expenseData = await categorizationManager.prepareExpense(expenseData);
         const id = await db.addExpense(expenseData);
+
+        // Start a series with this expense as its first occurrence
+        if (formData.repeat !== 'none') {
+          await recurringManager.createRuleFromExpense(id, {
+            frequency: formData.repeat as RecurrenceFrequency,
+            interval: 1,
+          });
+        }
+
         savedExpense = {
           ...expenseData,
           id,
@@ -164,6 +469,30 @@ export default function ExpenseForm({
         };
       }
 
+      // Attachments are stored against the saved expense; the first one
+      // becomes its receipt
+      if (attachments.length > 0 || expense?.receipt) {
+        savedExpense.receipt = await attachmentManager.setAttachments(
+          savedExpense.id!,
+          attachments.map(item => ({ id: item.id, file: item.file, caption: item.caption }))
+        );
+      }
+
+      if (savedExpense.kind === 'expense') {
+        await budgetManager.checkBudgets();
+      }
+
+      if (savedExpense.projectId !== undefined || expense?.projectId !== undefined) {
+        projectManager.notifyExpenseSaved();
+      }
+
+      // Flag a double entry for review; the expense is saved either way
+      try {
+        await duplicateManager.checkExpense(savedExpense.id!);
+      } catch (err) {
+        console.error('Failed to check for duplicates:', err);
+      }
+
       onSave?.(savedExpense);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save expense');
@@ -173,6 +502,8 @@ export default function ExpenseForm({
     }
   };
 
+  const selectedProject = projects.find(project => project.id?.toString() === formData.projectId);
+
   return (
     <form onSubmit={handleSubmit} className={`space-y-6 ${className}`}>
       {error && (
@@ -190,6 +521,25 @@ export default function ExpenseForm({
         </div>
       )}
 
+      {/* Transaction Kind */}
+      <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Transaction type">
+        {(['expense', 'income'] as const).map(kind => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => handleKindChange(kind)}
+            aria-pressed={formData.kind === kind}
+            className={`px-4 py-2 text-sm font-medium border border-gray-300 dark:border-gray-600 first:rounded-l-md last:rounded-r-md ${
+              formData.kind === kind
+                ? 'bg-primary-600 text-white border-primary-600'
+                : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-600'
+            }`}
+          >
+            {kind === 'expense' ? 'Expense' : 'Income'}
+          </button>
+        ))}
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Amount */}
         <div>
@@ -197,21 +547,38 @@ export default function ExpenseForm({
             Amount *
           </label>
           <div className="relative">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <span className="text-gray-500 dark:text-gray-400 sm:text-sm">$</span>
-            </div>
             <input
-              type="number"
-              step="0.01"
-              min="0"
+              type="text"
+              inputMode="decimal"
               id="amount"
               name="amount"
               value={formData.amount}
               onChange={handleInputChange}
-              className="block w-full pl-7 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+              className="block w-full pl-3 pr-24 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
               placeholder="0.00"
               required
             />
+            <div className="absolute inset-y-0 right-0 flex items-center">
+              <label htmlFor="currency" className="sr-only">
+                Currency
+              </label>
+              <select
+                id="currency"
+                name="currency"
+                value={formData.currency}
+                onChange={handleInputChange}
+                className="h-full py-0 pl-2 pr-7 border-transparent bg-transparent text-gray-500 dark:text-gray-400 focus:ring-primary-500 focus:border-primary-500 rounded-md sm:text-sm"
+              >
+                {PreferencesUtils.getAvailableCurrencies().map(currency => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.code}
+                  </option>
+                ))}
+                {!PreferencesUtils.getAvailableCurrencies().some(c => c.code === formData.currency) && (
+                  <option value={formData.currency}>{formData.currency}</option>
+                )}
+              </select>
+            </div>
           </div>
         </div>
 
@@ -242,30 +609,72 @@ export default function ExpenseForm({
           id="description"
           name="description"
           value={formData.description}
-          onChange={handleInputChange}
+          onChange={handleDescriptionChange}
           className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
-          placeholder="What did you spend money on?"
+          placeholder={formData.kind === 'income' ? 'Where did this money come from?' : 'What did you spend money on?'}
           required
         />
+        {payeeSuggestions.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-2" role="listbox" aria-label="Payee suggestions">
+            {payeeSuggestions.map(suggestion => (
+              <button
+                key={suggestion.id}
+                type="button"
+                role="option"
+                aria-selected={false}
+                onClick={() => handlePayeeSuggestion(suggestion)}
+                className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                {suggestion.name}
+                {suggestion.defaultCategory && <span className="ml-1 text-gray-400">{suggestion.defaultCategory}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {payee ? (
+            <>Payee: {payee.name}</>
+          ) : (
+            formData.description.trim() && (
+              <button
+                type="button"
+                onClick={handleCreatePayee}
+                className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+              >
+                Save as payee
+              </button>
+            )
+          )}
+        </p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Category */}
         <div>
-          <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Category *
-          </label>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="category" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Category *
+            </label>
+            <button
+              type="button"
+              onClick={handleToggleSplit}
+              className="text-xs font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+            >
+              {splitLines.length > 0 ? 'Remove split' : 'Split across categories'}
+            </button>
+          </div>
           <select
             id="category"
             name="category"
             value={formData.category}
             onChange={handleInputChange}
-            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+            disabled={splitLines.length > 0}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm disabled:opacity-50"
             required
           >
-            {categories.map(cat => (
+            {kindCategories.map(cat => (
               <option key={cat.name} value={cat.name}>
-                {cat.icon} {cat.name}
+                {'\u00A0\u00A0'.repeat(cat.depth)}{cat.icon} {cat.name}
               </option>
             ))}
           </select>
@@ -292,6 +701,219 @@ export default function ExpenseForm({
         </div>
       </div>
 
+      {/* Account */}
+      {accounts.length > 0 && (
+        <div>
+          <label htmlFor="accountId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            {formData.kind === 'income' ? 'Received Into' : 'Paid From'}
+          </label>
+          <select
+            id="accountId"
+            name="accountId"
+            value={formData.accountId}
+            onChange={handleInputChange}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+          >
+            <option value="">No account</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>
+                {account.name} ({account.currency})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Project */}
+      {projects.length > 0 && (
+        <div>
+          <label htmlFor="projectId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Trip or Project
+          </label>
+          <select
+            id="projectId"
+            name="projectId"
+            value={formData.projectId}
+            onChange={handleProjectChange}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+          >
+            <option value="">No project</option>
+            {projects.map(project => {
+              const total = projectTotals.get(project.id!) ?? ProjectUtils.emptyTotal();
+              return (
+                <option key={project.id} value={project.id}>
+                  {project.name} · {CurrencyUtils.format(total.spent, project.currency)}
+                  {project.budget !== undefined && ` of ${CurrencyUtils.format(project.budget, project.currency)}`}
+                </option>
+              );
+            })}
+          </select>
+          {selectedProject && formData.date && !ProjectUtils.isInRange(selectedProject, new Date(formData.date)) && (
+            <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-300">This date is outside the project dates.</p>
+          )}
+        </div>
+      )}
+
+      {/* Split Lines */}
+      {splitLines.length > 0 && (
+        <div className="space-y-3">
+          {splitLines.map((line, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-start">
+              <input
+                type="text"
+                inputMode="decimal"
+                aria-label={`Split ${index + 1} amount`}
+                value={line.amount}
+                onChange={e => handleSplitChange(index, 'amount', e.target.value)}
+                className="col-span-3 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+                placeholder="0.00"
+              />
+              <select
+                aria-label={`Split ${index + 1} category`}
+                value={line.category}
+                onChange={e => handleSplitChange(index, 'category', e.target.value)}
+                className="col-span-4 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+              >
+                {kindCategories.map(cat => (
+                  <option key={cat.name} value={cat.name}>
+                    {'\u00A0\u00A0'.repeat(cat.depth)}{cat.icon} {cat.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                aria-label={`Split ${index + 1} notes`}
+                value={line.notes}
+                onChange={e => handleSplitChange(index, 'notes', e.target.value)}
+                className="col-span-4 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+                placeholder="Notes"
+              />
+              <button
+                type="button"
+                onClick={() => handleRemoveSplitLine(index)}
+                disabled={splitLines.length <= 2}
+                className="col-span-1 p-2 text-gray-400 hover:text-red-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                aria-label={`Remove split ${index + 1}`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between text-sm">
+            <button
+              type="button"
+              onClick={handleAddSplitLine}
+              className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+            >
+              + Add line
+            </button>
+            {(() => {
+              const remaining = getSplitRemaining();
+              return (
+                <span className={remaining === 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                  {remaining >= 0 ? 'Remaining' : 'Over by'}: {MoneyUtils.format({ amount: Math.abs(remaining), currency: formData.currency })}
+                </span>
+              );
+            })()}
+          </div>
+        </div>
+      )}
+
+      {/* Repeat */}
+      {!expense && (
+        <div>
+          <label htmlFor="repeat" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Repeat
+          </label>
+          <select
+            id="repeat"
+            name="repeat"
+            value={formData.repeat}
+            onChange={handleInputChange}
+            className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+          >
+            <option value="none">Does not repeat</option>
+            <option value="daily">Every day</option>
+            <option value="weekly">Every week</option>
+            <option value="monthly">Every month</option>
+            <option value="yearly">Every year</option>
+          </select>
+        </div>
+      )}
+
+      {/* Sharing */}
+      {people.length > 0 && (
+        <div>
+          <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={isShared}
+              onChange={e => setIsShared(e.target.checked)}
+              className="mr-2 rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+            />
+            Shared with others
+          </label>
+
+          {isShared && (
+            <div className="mt-2 space-y-2">
+              <div className="flex space-x-2">
+                <select
+                  value={sharePaidBy}
+                  onChange={e => setSharePaidBy(e.target.value)}
+                  className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+                  aria-label="Paid by"
+                >
+                  <option value="">Paid by you</option>
+                  {people.map(person => (
+                    <option key={person.id} value={person.id}>
+                      Paid by {person.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={shareMethod}
+                  onChange={e => setShareMethod(e.target.value as ShareMethod)}
+                  className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+                  aria-label="Split method"
+                >
+                  <option value="equal">Split equally</option>
+                  <option value="percentage">Split by percentage</option>
+                  <option value="exact">Split by exact amounts</option>
+                </select>
+              </div>
+
+              {shareLines.map((line, index) => (
+                <div key={line.personId || 'self'} className="flex items-center space-x-2">
+                  <label className="flex-1 flex items-center text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={line.included}
+                      onChange={e => handleShareLineChange(index, { included: e.target.checked })}
+                      className="mr-2 rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+                    />
+                    {getPersonName(line.personId)}
+                  </label>
+                  {shareMethod !== 'equal' && line.included && (
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={line.value}
+                      onChange={e => handleShareLineChange(index, { value: e.target.value })}
+                      className="w-28 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-gray-100"
+                      placeholder={shareMethod === 'percentage' ? '%' : '0.00'}
+                      aria-label={`Share for ${getPersonName(line.personId)}`}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Tags */}
       <div>
         <label htmlFor="tags" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -302,48 +924,100 @@ export default function ExpenseForm({
           id="tags"
           name="tags"
           value={formData.tags}
-          onChange={handleInputChange}
+          onChange={handleTagsChange}
           className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
           placeholder="business, travel, urgent (comma separated)"
+          autoComplete="off"
         />
+        {tagSuggestions.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-2" role="listbox" aria-label="Tag suggestions">
+            {tagSuggestions.map(tag => (
+              <button
+                key={tag.id}
+                type="button"
+                role="option"
+                aria-selected={false}
+                onClick={() => handleTagSuggestion(tag)}
+                className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: tag.color }}></span>
+                {tag.name}
+                <span className="ml-1 text-gray-400">{tag.usageCount}</span>
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
-      {/* Receipt Upload */}
+      {/* Attachments */}
       <div>
         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-          Receipt
+          Receipts & attachments
         </label>
-        
-        {receiptPreview ? (
-          <div className="relative">
-            {receiptPreview === 'pdf' ? (
-              <div className="flex items-center justify-center w-full h-32 bg-gray-100 dark:bg-gray-700 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600">
-                <div className="text-center">
-                  <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                  </svg>
-                  <p className="text-sm text-gray-500 dark:text-gray-400">PDF Receipt</p>
+
+        {attachments.length > 0 && (
+          <ul className="space-y-2 mb-2">
+            {attachments.map((item, index) => (
+              <li key={item.key} className="flex items-center gap-3 p-2 border border-gray-200 dark:border-gray-600 rounded-lg">
+                {item.preview ? (
+                  <img src={item.preview} alt={item.caption || item.fileName} className="w-12 h-12 object-cover rounded" />
+                ) : (
+                  <div className="flex items-center justify-center w-12 h-12 bg-gray-100 dark:bg-gray-700 rounded">
+                    <svg className="h-6 w-6 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                    </svg>
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {index === 0 && <span className="font-medium">Receipt · </span>}
+                    {item.fileName}
+                  </p>
+                  <input
+                    type="text"
+                    value={item.caption}
+                    onChange={(e) => handleAttachmentChange(index, e.target.value)}
+                    placeholder="Caption, e.g. Hotel folio"
+                    aria-label={`Caption for ${item.fileName}`}
+                    className="w-full mt-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white"
+                  />
                 </div>
-              </div>
-            ) : (
-              <img
-                src={receiptPreview}
-                alt="Receipt preview"
-                className="w-full h-48 object-cover rounded-lg"
-              />
-            )}
-            
-            <button
-              type="button"
-              onClick={handleRemoveReceipt}
-              className="absolute top-2 right-2 p-1 bg-red-500 text-white rounded-full hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
-          </div>
-        ) : (
+                <div className="flex flex-col">
+                  <button
+                    type="button"
+                    onClick={() => handleMoveAttachment(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move up"
+                    className="px-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 disabled:opacity-30"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMoveAttachment(index, 1)}
+                    disabled={index === attachments.length - 1}
+                    aria-label="Move down"
+                    className="px-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 disabled:opacity-30"
+                  >
+                    ▼
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveAttachment(index)}
+                  aria-label={`Remove ${item.fileName}`}
+                  className="p-1 bg-red-500 text-white rounded-full hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {attachments.length < MAX_ATTACHMENTS && (
           <div className="flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 dark:border-gray-600 border-dashed rounded-lg">
             <div className="space-y-1 text-center">
               <svg className="mx-auto h-12 w-12 text-gray-400" stroke="currentColor" fill="none" viewBox="0 0 48 48">
@@ -351,21 +1025,22 @@ export default function ExpenseForm({
               </svg>
               <div className="flex text-sm text-gray-600 dark:text-gray-400">
                 <label htmlFor="receipt" className="relative cursor-pointer bg-white dark:bg-gray-700 rounded-md font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500 focus-within:outline-none focus-within:ring-2 focus-within:ring-offset-2 focus-within:ring-primary-500">
-                  <span>Upload a receipt</span>
+                  <span>{attachments.length > 0 ? 'Add another file' : 'Upload a receipt'}</span>
                   <input
                     ref={fileInputRef}
                     id="receipt"
                     name="receipt"
                     type="file"
                     accept="image/*,.pdf"
-                    onChange={handleReceiptUpload}
+                    multiple
+                    onChange={handleAttachmentUpload}
                     className="sr-only"
                   />
                 </label>
                 <p className="pl-1">or drag and drop</p>
               </div>
               <p className="text-xs text-gray-500 dark:text-gray-400">
-                PNG, JPG, PDF up to 10MB
+                PNG, JPG, PDF up to 10MB each
               </p>
             </div>
           </div>
@@ -388,6 +1063,51 @@ export default function ExpenseForm({
         />
       </div>
 
+      {/* Reimbursable */}
+      <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={formData.reimbursable}
+          onChange={e => setFormData(prev => ({ ...prev, reimbursable: e.target.checked }))}
+          className="mr-2 rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+        />
+        Reimbursable
+      </label>
+
+      {/* Tax Deduction */}
+      {formData.kind === 'expense' && (
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={formData.taxDeductible}
+              onChange={e => setFormData(prev => ({ ...prev, taxDeductible: e.target.checked }))}
+              className="mr-2 rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+            />
+            Tax deductible
+          </label>
+          {formData.taxDeductible && (
+            <>
+              <input
+                type="text"
+                name="taxCategory"
+                value={formData.taxCategory}
+                onChange={handleInputChange}
+                list="tax-categories"
+                placeholder="Tax category, e.g. Home office"
+                aria-label="Tax category"
+                className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+              />
+              <datalist id="tax-categories">
+                {taxCategories.map(taxCategory => (
+                  <option key={taxCategory} value={taxCategory} />
+                ))}
+              </datalist>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex justify-end space-x-3">
         {onCancel && (
@@ -418,11 +1138,16 @@ export default function ExpenseForm({
               <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
-              {expense ? 'Update Expense' : 'Save Expense'}
+              {expense ? 'Update' : 'Save'} {formData.kind === 'income' ? 'Income' : 'Expense'}
             </>
           )}
         </button>
       </div>
+
+      {/* Change history */}
+      {expense?.id !== undefined && (
+        <ExpenseHistory expenseId={expense.id} className="pt-4 border-t border-gray-200 dark:border-gray-700" />
+      )}
     </form>
   );
 }
@@ -0,0 +1,122 @@
+import { useState, useEffect } from 'react';
+import { db, type ExpenseRevision } from '@/lib/database';
+import { historyManager, HistoryUtils } from '@/lib/history';
+import { RevisionUtils, REVISION_MONEY_FIELDS } from '@/lib/revisions';
+
+interface ExpenseHistoryProps {
+  expenseId: number;
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<ExpenseRevision['source'], string> = {
+  user: 'You',
+  recurring: 'Recurring rule',
+  rule: 'Categorization rule',
+  system: 'Automatic update',
+  undo: 'Undo',
+  redo: 'Redo',
+};
+
+export default function ExpenseHistory({ expenseId, className = '' }: ExpenseHistoryProps): JSX.Element {
+  const [revisions, setRevisions] = useState<ExpenseRevision[]>([]);
+  const [currencies, setCurrencies] = useState<{ currency?: string; toCurrency?: string }>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = async () => {
+    try {
+      setRevisions(await db.getExpenseRevisions(expenseId));
+
+      // Amounts are stored in minor units, so they need a currency to be read
+      const expense = (await db.expenses.get(expenseId)) ?? (await db.trash.get(expenseId));
+      const toAccount = expense?.toAccountId ? await db.accounts.get(expense.toAccountId) : undefined;
+      setCurrencies({ currency: expense?.currency, toCurrency: toAccount?.currency ?? expense?.currency });
+    } catch (err) {
+      console.error('Failed to load expense history:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevert = async (revision: ExpenseRevision) => {
+    if (!confirm(`Roll back "${HistoryUtils.describe(revision)}"?`)) {
+      return;
+    }
+
+    setError(null);
+    try {
+      await historyManager.revert(revision.id!);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to roll back change');
+    }
+  };
+
+  const getCurrency = (field: string) => {
+    if (!REVISION_MONEY_FIELDS.includes(field)) return undefined;
+    return field === 'toAmount' ? currencies.toCurrency : currencies.currency;
+  };
+
+  useEffect(() => {
+    loadRevisions();
+
+    historyManager.on('historyChanged', loadRevisions);
+    return () => historyManager.off('historyChanged', loadRevisions);
+  }, [expenseId]);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-24"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <h4 className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">History</h4>
+
+      {error && (
+        <div className="mb-2 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {revisions.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No recorded changes.</p>
+      ) : (
+        <ol className="space-y-2">
+          {revisions.map(revision => (
+            <li key={revision.id} className="text-xs border-l-2 border-gray-200 dark:border-gray-700 pl-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-gray-900 dark:text-gray-100">
+                  {HistoryUtils.describe(revision)}
+                </span>
+                {revision.operation === 'update' && (
+                  <button
+                    onClick={() => handleRevert(revision)}
+                    className="text-primary-600 dark:text-primary-400 hover:text-primary-800"
+                  >
+                    Roll back
+                  </button>
+                )}
+              </div>
+              <div className="text-gray-500 dark:text-gray-400">
+                {SOURCE_LABELS[revision.source]} · {revision.timestamp.toLocaleString()}
+              </div>
+              {revision.operation === 'update' && (
+                <ul className="mt-1 text-gray-600 dark:text-gray-300">
+                  {revision.changes.map(change => (
+                    <li key={change.field}>
+                      {RevisionUtils.getFieldLabel(change.field)}: {RevisionUtils.formatValue(change.before, getCurrency(change.field))} →{' '}
+                      {RevisionUtils.formatValue(change.after, getCurrency(change.field))}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
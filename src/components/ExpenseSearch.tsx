@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { db, type Project, type SearchResult } from '@/lib/database';
+import { CurrencyUtils } from '@/lib/currency';
+import { trashManager } from '@/lib/trash';
+import { projectManager, type ProjectTotal } from '@/lib/projects';
+import { TaxUtils } from '@/lib/tax';
+import ExpenseHistory from '@/components/ExpenseHistory';
+
+interface ExpenseSearchProps {
+  className?: string;
+}
+
+// Wait for typing to pause before querying
+const SEARCH_DELAY_MS = 200;
+
+export default function ExpenseSearch({ className = '' }: ExpenseSearchProps): JSX.Element {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [historyFor, setHistoryFor] = useState<number | null>(null);
+  const [projects, setProjects] = useState<Map<number, { project: Project; total?: ProjectTotal }>>(new Map());
+
+  const loadProjects = async () => {
+    try {
+      const [list, totals] = await Promise.all([projectManager.getProjects(true), projectManager.getTotals(true)]);
+      setProjects(new Map(list.map(project => [project.id!, { project, total: totals.get(project.id!) }])));
+    } catch (err) {
+      console.error('Failed to load projects:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadProjects();
+    projectManager.on('projectsChanged', loadProjects);
+    projectManager.on('totalsChanged', loadProjects);
+    return () => {
+      projectManager.off('projectsChanged', loadProjects);
+      projectManager.off('totalsChanged', loadProjects);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const found = await db.searchExpenses(query, 25);
+        if (!cancelled) setResults(found);
+      } catch (err) {
+        console.error('Failed to search expenses:', err);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const handleDelete = async (id: number) => {
+    try {
+      await trashManager.moveToTrash(id);
+      setResults(prev => prev.filter(result => result.expense.id !== id));
+    } catch (err) {
+      console.error('Failed to delete expense:', err);
+    }
+  };
+
+  // Project name with its running total, so a match shows what the whole trip cost
+  const describeProject = (projectId: number) => {
+    const entry = projects.get(projectId)!;
+    return entry.total
+      ? `${entry.project.name} (${CurrencyUtils.format(entry.total.spent, entry.project.currency)})`
+      : entry.project.name;
+  };
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Search</h3>
+        {isSearching && <span className="ds-badge ds-badge--neutral">Searching…</span>}
+      </div>
+
+      <input
+        type="search"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm"
+        placeholder='Search descriptions, notes, tags and places. Use "quotes" for exact phrases.'
+        aria-label="Search expenses"
+      />
+
+      {query.trim() && !isSearching && results.length === 0 && (
+        <p className="mt-3 ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No matching transactions.
+        </p>
+      )}
+
+      {results.length > 0 && (
+        <ul className="mt-3 divide-y divide-gray-200 dark:divide-gray-700">
+          {results.map(({ expense }) => (
+            <li key={expense.id} className="py-2">
+              <div className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{expense.description}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {expense.date.toLocaleDateString(undefined, { timeZone: 'UTC' })} · {expense.category}
+                    {expense.location?.name && ` · ${expense.location.name}`}
+                    {expense.projectId !== undefined && projects.has(expense.projectId) && ` · ${describeProject(expense.projectId)}`}
+                    {expense.taxDeductible && ` · Tax: ${TaxUtils.getTaxCategory(expense)}`}
+                    {expense.tags && expense.tags.length > 0 && ` · ${expense.tags.map(tag => `#${tag}`).join(' ')}`}
+                  </div>
+                </div>
+                <div className="ml-3 flex items-center space-x-3">
+                  <span
+                    className={`text-sm font-semibold ${expense.kind === 'income' ? 'text-green-600 dark:text-green-400' : 'text-gray-900 dark:text-gray-100'}`}
+                  >
+                    {CurrencyUtils.format(expense.amount, expense.currency)}
+                  </span>
+                  <button
+                    onClick={() => setHistoryFor(historyFor === expense.id ? null : expense.id!)}
+                    className="text-xs text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                    aria-expanded={historyFor === expense.id}
+                  >
+                    History
+                  </button>
+                  <button
+                    onClick={() => handleDelete(expense.id!)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                    aria-label={`Move ${expense.description} to trash`}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {historyFor === expense.id && <ExpenseHistory expenseId={expense.id!} className="mt-2" />}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
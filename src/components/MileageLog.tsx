@@ -0,0 +1,501 @@
+import { useState, useEffect } from 'react';
+import { mileageManager, MileageUtils, DISTANCE_UNITS, type MileageTripInput } from '@/lib/mileage';
+import { CurrencyUtils } from '@/lib/currency';
+import { PreferencesUtils, preferences } from '@/lib/preferences';
+import type { DistanceUnit, MileageRate, MileageTrip, Vehicle } from '@/lib/database';
+
+interface MileageLogProps {
+  className?: string;
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm';
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+const emptyTripForm = { date: '', vehicleId: '', purpose: '', useOdometer: true, startOdometer: '', endOdometer: '', distance: '' };
+
+const emptyRateForm = { rate: '', currency: 'USD', unit: 'km' as DistanceUnit, effectiveFrom: '', vehicleId: '' };
+
+// Trips listed before the rest are left to the export
+const RECENT_TRIPS = 10;
+
+export default function MileageLog({ className = '' }: MileageLogProps): JSX.Element {
+  const [trips, setTrips] = useState<MileageTrip[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [rates, setRates] = useState<MileageRate[]>([]);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [tripForm, setTripForm] = useState(emptyTripForm);
+  const [rateForm, setRateForm] = useState(emptyRateForm);
+  const [vehicleForm, setVehicleForm] = useState({ name: '', unit: 'km' as DistanceUnit });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMileage = async () => {
+    try {
+      const [allTrips, allVehicles, allRates] = await Promise.all([
+        mileageManager.getTrips(),
+        mileageManager.getVehicles(true),
+        mileageManager.getRates(),
+      ]);
+      setTrips(allTrips);
+      setVehicles(allVehicles);
+      setRates(allRates);
+    } catch (err) {
+      console.error('Failed to load mileage:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      await loadMileage();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update mileage');
+    }
+  };
+
+  const activeVehicles = vehicles.filter(vehicle => !vehicle.isArchived);
+  const getVehicle = (id: number | string) => vehicles.find(vehicle => vehicle.id?.toString() === id.toString());
+
+  const editTrip = async (trip?: MileageTrip) => {
+    setError(null);
+    if (!trip) {
+      const vehicleId = activeVehicles[0]?.id;
+      const lastOdometer = vehicleId !== undefined ? await mileageManager.getLastOdometer(vehicleId) : undefined;
+      setEditingId('new');
+      setTripForm({
+        ...emptyTripForm,
+        date: today(),
+        vehicleId: vehicleId?.toString() ?? '',
+        startOdometer: lastOdometer?.toString() ?? '',
+      });
+      return;
+    }
+
+    setEditingId(trip.id!);
+    setTripForm({
+      date: trip.date.toISOString().split('T')[0]!,
+      vehicleId: trip.vehicleId.toString(),
+      purpose: trip.purpose,
+      useOdometer: trip.startOdometer !== undefined && trip.endOdometer !== undefined,
+      startOdometer: trip.startOdometer?.toString() ?? '',
+      endOdometer: trip.endOdometer?.toString() ?? '',
+      distance: trip.distance.toString(),
+    });
+  };
+
+  const handleVehicleChange = async (vehicleId: string) => {
+    setTripForm(prev => ({ ...prev, vehicleId }));
+    // Carry on from where the vehicle's last trip ended
+    if (editingId === 'new' && vehicleId) {
+      const lastOdometer = await mileageManager.getLastOdometer(parseInt(vehicleId, 10));
+      setTripForm(prev => ({ ...prev, startOdometer: lastOdometer?.toString() ?? '' }));
+    }
+  };
+
+  const parseNumber = (value: string) => (value.trim() ? parseFloat(value.replace(',', '.')) : undefined);
+
+  const getTripInput = (): MileageTripInput => ({
+    date: new Date(tripForm.date),
+    vehicleId: parseInt(tripForm.vehicleId, 10),
+    purpose: tripForm.purpose,
+    ...(tripForm.useOdometer
+      ? { startOdometer: parseNumber(tripForm.startOdometer), endOdometer: parseNumber(tripForm.endOdometer) }
+      : { distance: parseNumber(tripForm.distance) }),
+  });
+
+  const handleSaveTrip = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      if (editingId === 'new') {
+        await mileageManager.logTrip(getTripInput());
+      } else if (editingId !== null) {
+        await mileageManager.updateTrip(editingId, getTripInput());
+      }
+      setEditingId(null);
+    });
+  };
+
+  const handleDeleteTrip = (trip: MileageTrip) => {
+    if (!confirm(`Delete the trip "${trip.purpose}"? Its expense will be moved to the trash.`)) {
+      return;
+    }
+    runAction(() => mileageManager.deleteTrip(trip.id!));
+  };
+
+  const handleAddVehicle = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await mileageManager.createVehicle(vehicleForm);
+      setVehicleForm(prev => ({ ...prev, name: '' }));
+    });
+  };
+
+  const handleRemoveVehicle = (vehicle: Vehicle) => {
+    runAction(async () => {
+      if (trips.some(trip => trip.vehicleId === vehicle.id)) {
+        await mileageManager.archiveVehicle(vehicle.id!, !vehicle.isArchived);
+      } else {
+        await mileageManager.deleteVehicle(vehicle.id!);
+      }
+    });
+  };
+
+  const handleAddRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await mileageManager.addRate({
+        rate: MileageUtils.parseRate(rateForm.rate, rateForm.currency),
+        currency: rateForm.currency,
+        unit: rateForm.unit,
+        effectiveFrom: new Date(rateForm.effectiveFrom),
+        vehicleId: rateForm.vehicleId ? parseInt(rateForm.vehicleId, 10) : undefined,
+      });
+      setRateForm(prev => ({ ...emptyRateForm, currency: prev.currency, unit: prev.unit }));
+    });
+  };
+
+  const handleDeleteRate = (rate: MileageRate) => {
+    if (!confirm('Delete this rate? Trips already logged keep their amounts.')) {
+      return;
+    }
+    runAction(() => mileageManager.deleteRate(rate.id!));
+  };
+
+  useEffect(() => {
+    loadMileage();
+    preferences.getPreference('currency').then(currency => setRateForm(prev => ({ ...prev, currency })));
+
+    mileageManager.on('tripsChanged', loadMileage);
+    return () => {
+      mileageManager.off('tripsChanged', loadMileage);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  // What the trip being entered comes to, before it is saved
+  const preview = (() => {
+    const vehicle = getVehicle(tripForm.vehicleId);
+    if (!vehicle || !tripForm.date) return null;
+    const distance = MileageUtils.getDistance(getTripInput());
+    const rate = MileageUtils.findRate(rates, vehicle.id!, new Date(tripForm.date));
+    if (!rate || !Number.isFinite(distance) || distance <= 0) return null;
+    const ratePerUnit = MileageUtils.convertRate(rate, vehicle.unit);
+    return `${MileageUtils.formatDistance(distance, vehicle.unit)} × ${MileageUtils.formatRate(ratePerUnit, rate.currency, vehicle.unit)} = ${CurrencyUtils.format(MileageUtils.getAmount(distance, ratePerUnit), rate.currency)}`;
+  })();
+
+  const yearStart = new Date(Date.UTC(new Date().getFullYear(), 0, 1));
+  const thisYear = trips.filter(trip => trip.date >= yearStart);
+  const yearTotals = new Map<string, number>();
+  thisYear.forEach(trip => yearTotals.set(trip.currency, (yearTotals.get(trip.currency) ?? 0) + trip.amount));
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Mileage</h3>
+        <div className="space-x-3">
+          {trips.length > 0 && (
+            <button
+              onClick={() => runAction(() => mileageManager.exportLog())}
+              className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+            >
+              Export log
+            </button>
+          )}
+          {activeVehicles.length > 0 && (
+            <button
+              onClick={() => (editingId === null ? editTrip() : setEditingId(null))}
+              className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+            >
+              {editingId === null ? 'Log trip' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSaveTrip} className="mb-4 space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="date"
+              value={tripForm.date}
+              onChange={e => setTripForm(prev => ({ ...prev, date: e.target.value }))}
+              className={inputClassName}
+              aria-label="Date"
+              required
+            />
+            <select
+              value={tripForm.vehicleId}
+              onChange={e => handleVehicleChange(e.target.value)}
+              className={inputClassName}
+              aria-label="Vehicle"
+              required
+            >
+              {vehicles
+                .filter(vehicle => !vehicle.isArchived || vehicle.id?.toString() === tripForm.vehicleId)
+                .map(vehicle => (
+                  <option key={vehicle.id} value={vehicle.id}>
+                    {vehicle.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={tripForm.purpose}
+            onChange={e => setTripForm(prev => ({ ...prev, purpose: e.target.value }))}
+            className={inputClassName}
+            placeholder="Purpose, e.g. Client meeting in Leeds"
+            aria-label="Purpose"
+            required
+          />
+          <label className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={tripForm.useOdometer}
+              onChange={e => setTripForm(prev => ({ ...prev, useOdometer: e.target.checked }))}
+              className="mr-2 rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+            />
+            Odometer readings
+          </label>
+          {tripForm.useOdometer ? (
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                inputMode="decimal"
+                value={tripForm.startOdometer}
+                onChange={e => setTripForm(prev => ({ ...prev, startOdometer: e.target.value }))}
+                className={inputClassName}
+                placeholder="Start"
+                aria-label="Start odometer"
+                required
+              />
+              <input
+                type="text"
+                inputMode="decimal"
+                value={tripForm.endOdometer}
+                onChange={e => setTripForm(prev => ({ ...prev, endOdometer: e.target.value }))}
+                className={inputClassName}
+                placeholder="End"
+                aria-label="End odometer"
+                required
+              />
+            </div>
+          ) : (
+            <input
+              type="text"
+              inputMode="decimal"
+              value={tripForm.distance}
+              onChange={e => setTripForm(prev => ({ ...prev, distance: e.target.value }))}
+              className={inputClassName}
+              placeholder={`Distance in ${getVehicle(tripForm.vehicleId)?.unit ?? 'km'}`}
+              aria-label="Distance"
+              required
+            />
+          )}
+          {preview && <p className="text-xs text-gray-500 dark:text-gray-400">{preview}</p>}
+          <button type="submit" className="ds-button ds-button--primary text-xs">
+            Save Trip
+          </button>
+        </form>
+      )}
+
+      {activeVehicles.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          Add a vehicle and a mileage rate below to start logging business trips.
+        </p>
+      ) : trips.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No trips logged yet. Each trip is recorded as a reimbursable expense.
+        </p>
+      ) : (
+        <>
+          {yearTotals.size > 0 && (
+            <div className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+              This year: {thisYear.length} trips ·{' '}
+              {[...yearTotals].map(([currency, amount]) => CurrencyUtils.format(amount, currency)).join(' + ')}
+            </div>
+          )}
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {trips.slice(0, RECENT_TRIPS).map(trip => (
+              <li key={trip.id} className="py-2 flex items-center justify-between">
+                <button onClick={() => editTrip(trip)} className="text-left min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{trip.purpose}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {trip.date.toLocaleDateString(undefined, { timeZone: 'UTC' })} · {getVehicle(trip.vehicleId)?.name ?? 'Vehicle'} ·{' '}
+                    {MileageUtils.formatDistance(trip.distance, trip.unit)}
+                  </div>
+                </button>
+                <div className="ml-3 flex items-center space-x-3">
+                  <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                    {CurrencyUtils.format(trip.amount, trip.currency)}
+                  </span>
+                  <button
+                    onClick={() => handleDeleteTrip(trip)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                    aria-label={`Delete ${trip.purpose}`}
+                  >
+                    ×
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          {trips.length > RECENT_TRIPS && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {trips.length - RECENT_TRIPS} older trips are in the exported log.
+            </p>
+          )}
+        </>
+      )}
+
+      <details className="mt-3" open={activeVehicles.length === 0 || rates.length === 0}>
+        <summary className="text-xs text-gray-500 dark:text-gray-400 cursor-pointer">Vehicles and rates</summary>
+
+        <ul className="mt-2 space-y-1">
+          {vehicles.map(vehicle => (
+            <li key={vehicle.id} className="flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+              <span className={vehicle.isArchived ? 'line-through text-gray-400' : ''}>
+                🚗 {vehicle.name} <span className="text-gray-500 dark:text-gray-400">({vehicle.unit})</span>
+              </span>
+              <button
+                onClick={() => handleRemoveVehicle(vehicle)}
+                className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+              >
+                {trips.some(trip => trip.vehicleId === vehicle.id) ? (vehicle.isArchived ? 'Unarchive' : 'Archive') : 'Delete'}
+              </button>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddVehicle} className="mt-2 grid grid-cols-3 gap-2">
+          <input
+            type="text"
+            value={vehicleForm.name}
+            onChange={e => setVehicleForm(prev => ({ ...prev, name: e.target.value }))}
+            className={`${inputClassName} col-span-2`}
+            placeholder="Vehicle, e.g. Blue Golf"
+            aria-label="Vehicle name"
+            required
+          />
+          <select
+            value={vehicleForm.unit}
+            onChange={e => setVehicleForm(prev => ({ ...prev, unit: e.target.value as DistanceUnit }))}
+            className={inputClassName}
+            aria-label="Odometer unit"
+          >
+            {DISTANCE_UNITS.map(unit => (
+              <option key={unit.value} value={unit.value}>
+                {unit.label}
+              </option>
+            ))}
+          </select>
+          <button type="submit" className="ds-button ds-button--primary text-xs col-span-3">
+            Add Vehicle
+          </button>
+        </form>
+
+        <ul className="mt-3 space-y-1">
+          {rates.map(rate => (
+            <li key={rate.id} className="flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+              <span>
+                {MileageUtils.formatRate(rate.rate, rate.currency, rate.unit)} from{' '}
+                {rate.effectiveFrom.toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                <span className="text-gray-500 dark:text-gray-400">
+                  {' '}· {rate.vehicleId !== undefined ? getVehicle(rate.vehicleId)?.name ?? 'Vehicle' : 'All vehicles'}
+                </span>
+              </span>
+              <button
+                onClick={() => handleDeleteRate(rate)}
+                className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                aria-label="Delete rate"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddRate} className="mt-2 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={rateForm.rate}
+              onChange={e => setRateForm(prev => ({ ...prev, rate: e.target.value }))}
+              className={inputClassName}
+              placeholder="Rate, e.g. 0.70"
+              aria-label="Rate per distance"
+              required
+            />
+            <select
+              value={rateForm.currency}
+              onChange={e => setRateForm(prev => ({ ...prev, currency: e.target.value }))}
+              className={inputClassName}
+              aria-label="Currency"
+            >
+              {PreferencesUtils.getAvailableCurrencies().map(currency => (
+                <option key={currency.code} value={currency.code}>
+                  {currency.code}
+                </option>
+              ))}
+            </select>
+            <select
+              value={rateForm.unit}
+              onChange={e => setRateForm(prev => ({ ...prev, unit: e.target.value as DistanceUnit }))}
+              className={inputClassName}
+              aria-label="Per"
+            >
+              {DISTANCE_UNITS.map(unit => (
+                <option key={unit.value} value={unit.value}>
+                  per {unit.value}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="date"
+              value={rateForm.effectiveFrom}
+              onChange={e => setRateForm(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+              className={inputClassName}
+              aria-label="Effective from"
+              required
+            />
+            <select
+              value={rateForm.vehicleId}
+              onChange={e => setRateForm(prev => ({ ...prev, vehicleId: e.target.value }))}
+              className={inputClassName}
+              aria-label="Applies to"
+            >
+              <option value="">All vehicles</option>
+              {activeVehicles.map(vehicle => (
+                <option key={vehicle.id} value={vehicle.id}>
+                  {vehicle.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button type="submit" className="ds-button ds-button--primary text-xs">
+            Add Rate
+          </button>
+        </form>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState, useEffect } from 'react';
+import { db, type Category, type Payee } from '@/lib/database';
+import { payeeManager, PAYMENT_METHODS, type PayeeInput } from '@/lib/payees';
+
+interface PayeeManagerProps {
+  className?: string;
+}
+
+interface PayeeDraft {
+  name: string;
+  aliases: string; // Comma-separated
+  defaultCategory: string;
+  defaultPaymentMethod: string;
+}
+
+const EMPTY_DRAFT: PayeeDraft = { name: '', aliases: '', defaultCategory: '', defaultPaymentMethod: '' };
+
+const inputClassName =
+  'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-gray-100';
+
+export default function PayeeManager({ className = '' }: PayeeManagerProps): JSX.Element {
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingPayee, setEditingPayee] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<PayeeDraft>(EMPTY_DRAFT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPayees = async () => {
+    try {
+      const [list, cats] = await Promise.all([payeeManager.getPayees(), db.categories.orderBy('name').toArray()]);
+      setPayees(list);
+      setCategories(cats);
+    } catch (err) {
+      console.error('Failed to load payees:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      setEditingPayee(null);
+      await loadPayees();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update payees');
+    }
+  };
+
+  const startEditing = (payee: Payee | null) => {
+    const id = payee ? payee.id! : 'new';
+    setEditingPayee(editingPayee === id ? null : id);
+    setDraft(
+      payee
+        ? {
+            name: payee.name,
+            aliases: payee.aliases.join(', '),
+            defaultCategory: payee.defaultCategory ?? '',
+            defaultPaymentMethod: payee.defaultPaymentMethod ?? '',
+          }
+        : EMPTY_DRAFT
+    );
+    setError(null);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: PayeeInput = {
+      name: draft.name,
+      aliases: draft.aliases.split(','),
+      defaultCategory: draft.defaultCategory || undefined,
+      defaultPaymentMethod: (draft.defaultPaymentMethod || undefined) as PayeeInput['defaultPaymentMethod'],
+    };
+    runAction(async () => {
+      if (editingPayee === 'new') {
+        await payeeManager.createPayee(input);
+      } else if (editingPayee !== null) {
+        await payeeManager.updatePayee(editingPayee, input);
+      }
+    });
+  };
+
+  const handleDelete = (payee: Payee) => {
+    if (!confirm(`Delete "${payee.name}"? Its expenses are kept but no longer linked to it.`)) {
+      return;
+    }
+    runAction(() => payeeManager.deletePayee(payee.id!));
+  };
+
+  useEffect(() => {
+    loadPayees();
+
+    // The expense form can add payees while this card is open
+    const handleChange = () => loadPayees();
+    payeeManager.on('payeesChanged', handleChange);
+    return () => payeeManager.off('payeesChanged', handleChange);
+  }, []);
+
+  const renderForm = () => (
+    <form onSubmit={handleSave} className="mt-3 space-y-2">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={e => setDraft({ ...draft, name: e.target.value })}
+        className={inputClassName}
+        placeholder="Name"
+        aria-label="Payee name"
+        required
+      />
+      <input
+        type="text"
+        value={draft.aliases}
+        onChange={e => setDraft({ ...draft, aliases: e.target.value })}
+        className={inputClassName}
+        placeholder="Other names, comma-separated"
+        aria-label="Aliases"
+      />
+      <div className="flex space-x-2">
+        <select
+          value={draft.defaultCategory}
+          onChange={e => setDraft({ ...draft, defaultCategory: e.target.value })}
+          className={inputClassName}
+          aria-label="Default category"
+        >
+          <option value="">No default category</option>
+          {categories.map(category => (
+            <option key={category.id} value={category.name}>
+              {category.icon} {category.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={draft.defaultPaymentMethod}
+          onChange={e => setDraft({ ...draft, defaultPaymentMethod: e.target.value })}
+          className={inputClassName}
+          aria-label="Default payment method"
+        >
+          <option value="">No default payment</option>
+          {PAYMENT_METHODS.map(method => (
+            <option key={method.value} value={method.value}>
+              {method.icon} {method.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button type="submit" className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800">
+        Save
+      </button>
+    </form>
+  );
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Payees</h3>
+        <button
+          onClick={() => startEditing(null)}
+          className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+        >
+          Add payee
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {editingPayee === 'new' && <div className="mb-3">{renderForm()}</div>}
+
+      {payees.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No payees yet. Save a merchant from the expense form or add one here.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {payees.map(payee => (
+            <li key={payee.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-2">
+              <button onClick={() => startEditing(payee)} className="w-full flex items-center justify-between text-left">
+                <span className="text-sm text-gray-900 dark:text-gray-100">{payee.name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{payee.defaultCategory ?? '—'}</span>
+              </button>
+
+              {editingPayee === payee.id && (
+                <>
+                  {renderForm()}
+                  <button
+                    onClick={() => handleDelete(payee)}
+                    className="mt-2 text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
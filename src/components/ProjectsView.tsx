@@ -0,0 +1,390 @@
+import { useState, useEffect } from 'react';
+import { projectManager, ProjectUtils, type ProjectSummary, type ProjectTotal } from '@/lib/projects';
+import { CurrencyUtils } from '@/lib/currency';
+import { MoneyUtils } from '@/lib/money';
+import { PreferencesUtils, preferences } from '@/lib/preferences';
+import { pwaService } from '@/lib/pwa';
+import { recurringManager } from '@/lib/recurring';
+import { trashManager } from '@/lib/trash';
+import type { Project } from '@/lib/database';
+
+interface ProjectsViewProps {
+  className?: string;
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm';
+
+const emptyForm = { name: '', startDate: '', endDate: '', budget: '', currency: 'USD' };
+
+export default function ProjectsView({ className = '' }: ProjectsViewProps): JSX.Element {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [totals, setTotals] = useState<Map<number, ProjectTotal>>(new Map());
+  const [summary, setSummary] = useState<ProjectSummary | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProjects = async () => {
+    try {
+      const [allProjects, allTotals] = await Promise.all([projectManager.getProjects(true), projectManager.getTotals(true)]);
+      setProjects(allProjects);
+      setTotals(allTotals);
+    } catch (err) {
+      console.error('Failed to load projects:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openSummary = async (projectId: number) => {
+    try {
+      setSummary(await projectManager.getSummary(projectId));
+    } catch (err) {
+      console.error('Failed to load project summary:', err);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      await loadProjects();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update projects');
+    }
+  };
+
+  const toInputDate = (date: Date | undefined) => (date ? date.toISOString().split('T')[0]! : '');
+
+  const editProject = (project?: Project) => {
+    setError(null);
+    if (!project) {
+      setEditingId('new');
+      setForm(prev => ({ ...emptyForm, currency: prev.currency }));
+      return;
+    }
+
+    setEditingId(project.id!);
+    setForm({
+      name: project.name,
+      startDate: toInputDate(project.startDate),
+      endDate: toInputDate(project.endDate),
+      budget: project.budget !== undefined ? MoneyUtils.toInputValue({ amount: project.budget, currency: project.currency }) : '',
+      currency: project.currency,
+    });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      const project = {
+        name: form.name,
+        // Date inputs parse as UTC midnight, matching expense dates
+        startDate: form.startDate ? new Date(form.startDate) : undefined,
+        endDate: form.endDate ? new Date(form.endDate) : undefined,
+        budget: form.budget.trim() ? MoneyUtils.parse(form.budget, form.currency)?.amount ?? NaN : undefined,
+        currency: form.currency,
+      };
+
+      if (editingId === 'new') {
+        await projectManager.createProject(project);
+      } else if (editingId !== null) {
+        await projectManager.updateProject(editingId, project);
+        if (summary?.project.id === editingId) await openSummary(editingId);
+      }
+      setEditingId(null);
+    });
+  };
+
+  const handleArchive = (project: Project) => {
+    runAction(async () => {
+      await projectManager.archiveProject(project.id!, !project.isArchived);
+      if (summary?.project.id === project.id) setSummary(null);
+    });
+  };
+
+  const handleDelete = (project: Project) => {
+    if (!confirm(`Delete "${project.name}"?`)) {
+      return;
+    }
+    runAction(async () => {
+      await projectManager.deleteProject(project.id!);
+      if (summary?.project.id === project.id) setSummary(null);
+      setEditingId(null);
+    });
+  };
+
+  useEffect(() => {
+    loadProjects();
+    preferences.getPreference('currency').then(currency => setForm(prev => ({ ...prev, currency })));
+
+    // Totals depend on the expenses in each project, so refresh when they may have changed
+    projectManager.on('projectsChanged', loadProjects);
+    projectManager.on('totalsChanged', loadProjects);
+    pwaService.on('appVisible', loadProjects);
+    recurringManager.on('expensesGenerated', loadProjects);
+    trashManager.on('trashChanged', loadProjects);
+
+    return () => {
+      projectManager.off('projectsChanged', loadProjects);
+      projectManager.off('totalsChanged', loadProjects);
+      pwaService.off('appVisible', loadProjects);
+      recurringManager.off('expensesGenerated', loadProjects);
+      trashManager.off('trashChanged', loadProjects);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  const visibleProjects = projects.filter(project => showArchived || !project.isArchived);
+  const editing = typeof editingId === 'number' ? projects.find(project => project.id === editingId) : undefined;
+
+  const describeDates = (project: Project) => {
+    const format = (date: Date) => date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+    if (project.startDate && project.endDate) return `${format(project.startDate)} – ${format(project.endDate)}`;
+    if (project.startDate) return `From ${format(project.startDate)}`;
+    if (project.endDate) return `Until ${format(project.endDate)}`;
+    return 'No dates';
+  };
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Trips & Projects</h3>
+        <div className="flex items-center space-x-2">
+          {projects.some(project => project.isArchived) && (
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+            >
+              {showArchived ? 'Hide archived' : 'Show archived'}
+            </button>
+          )}
+          <button
+            onClick={() => (editingId === null ? editProject() : setEditingId(null))}
+            className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+          >
+            {editingId === null ? 'Add project' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSave} className="mb-4 space-y-2">
+          <input
+            type="text"
+            value={form.name}
+            onChange={e => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className={inputClassName}
+            placeholder="Trip or project name"
+            aria-label="Project name"
+            required
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="date"
+              value={form.startDate}
+              onChange={e => setForm(prev => ({ ...prev, startDate: e.target.value }))}
+              className={inputClassName}
+              aria-label="Start date"
+            />
+            <input
+              type="date"
+              value={form.endDate}
+              onChange={e => setForm(prev => ({ ...prev, endDate: e.target.value }))}
+              className={inputClassName}
+              aria-label="End date"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={form.budget}
+              onChange={e => setForm(prev => ({ ...prev, budget: e.target.value }))}
+              className={inputClassName}
+              placeholder={`Budget (${form.currency}, optional)`}
+              aria-label="Budget"
+            />
+            <select
+              value={form.currency}
+              onChange={e => setForm(prev => ({ ...prev, currency: e.target.value }))}
+              className={inputClassName}
+              aria-label="Project currency"
+            >
+              {PreferencesUtils.getAvailableCurrencies().map(currency => (
+                <option key={currency.code} value={currency.code}>
+                  {currency.code}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button type="submit" className="ds-button ds-button--primary text-xs">
+              Save Project
+            </button>
+            {editing && (
+              <button
+                type="button"
+                onClick={() => handleDelete(editing)}
+                className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {visibleProjects.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No projects yet. Group the expenses of a trip or project to track them against their own budget.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {visibleProjects.map(project => {
+            const total = totals.get(project.id!) ?? ProjectUtils.emptyTotal();
+            const percentUsed = project.budget ? (total.spent / project.budget) * 100 : null;
+
+            return (
+              <li key={project.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => (summary?.project.id === project.id ? setSummary(null) : openSummary(project.id!))}
+                    className="text-left min-w-0"
+                  >
+                    <div className={`text-sm font-medium truncate ${project.isArchived ? 'text-gray-400' : 'text-gray-900 dark:text-gray-100'}`}>
+                      {project.name}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {describeDates(project)} · {total.count} transaction{total.count === 1 ? '' : 's'}
+                    </div>
+                  </button>
+                  <div className="ml-3 text-right">
+                    <div className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                      {CurrencyUtils.format(total.spent, project.currency)}
+                    </div>
+                    {project.budget !== undefined && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        of {CurrencyUtils.format(project.budget, project.currency)}
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {percentUsed !== null && (
+                  <div
+                    className="mt-2 h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+                    role="progressbar"
+                    aria-valuenow={Math.round(percentUsed)}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                  >
+                    <div
+                      className={`h-full rounded-full ${percentUsed > 100 ? 'bg-red-500' : 'bg-primary-500'}`}
+                      style={{ width: `${Math.min(100, percentUsed)}%` }}
+                    ></div>
+                  </div>
+                )}
+
+                <div className="mt-2 flex items-center space-x-3">
+                  <button
+                    onClick={() => editProject(project)}
+                    className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleArchive(project)}
+                    className="text-xs text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                  >
+                    {project.isArchived ? 'Restore' : 'Archive'}
+                  </button>
+                </div>
+
+                {summary && summary.project.id === project.id && (
+                  <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 space-y-3">
+                    <div className="grid grid-cols-3 gap-2 text-xs text-gray-600 dark:text-gray-300">
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400">Per day</div>
+                        {CurrencyUtils.format(summary.dailyAverage, project.currency)}
+                      </div>
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400">Income</div>
+                        {CurrencyUtils.format(summary.income, project.currency)}
+                      </div>
+                      <div>
+                        <div className="text-gray-500 dark:text-gray-400">{(summary.remaining ?? 0) < 0 ? 'Over' : 'Left'}</div>
+                        {summary.remaining === null ? '—' : CurrencyUtils.format(Math.abs(summary.remaining), project.currency)}
+                      </div>
+                    </div>
+
+                    {summary.unconverted > 0 && (
+                      <p className="text-xs text-yellow-700 dark:text-yellow-300">
+                        {summary.unconverted} transaction{summary.unconverted === 1 ? ' is' : 's are'} left out because no exchange
+                        rate to {project.currency} was available.
+                      </p>
+                    )}
+
+                    {summary.byCategory.length === 0 ? (
+                      <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+                        No spending in this project yet.
+                      </p>
+                    ) : (
+                      <>
+                        <div>
+                          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">By category</div>
+                          <ul className="space-y-1">
+                            {summary.byCategory.map(entry => (
+                              <li key={entry.category} className="flex justify-between text-xs text-gray-700 dark:text-gray-300">
+                                <span>{entry.category}</span>
+                                <span>
+                                  {CurrencyUtils.format(entry.amount, project.currency)} · {Math.round(entry.percentage)}%
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+
+                        <div>
+                          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">By day</div>
+                          <ul className="space-y-1 max-h-48 overflow-y-auto">
+                            {summary.byDay.map(entry => (
+                              <li key={entry.date.getTime()} className="flex justify-between text-xs text-gray-700 dark:text-gray-300">
+                                <span>
+                                  {entry.date.toLocaleDateString(undefined, { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' })}
+                                </span>
+                                <span className={entry.amount === 0 ? 'text-gray-400' : ''}>
+                                  {CurrencyUtils.format(entry.amount, project.currency)}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+import { db } from '@/lib/database';
+import { pwaService } from '@/lib/pwa';
+import { recurringManager } from '@/lib/recurring';
+import { CurrencyUtils } from '@/lib/currency';
+
+interface QuickStatsProps {
+  className?: string;
+}
+
+interface QuickStatsData {
+  baseCurrency: string;
+  monthlySpending: number;
+  monthlyIncome: number;
+  netCashFlow: number;
+  totalExpenses: number;
+  categoryCount: number;
+}
+
+export default function QuickStats({ className = '' }: QuickStatsProps): JSX.Element {
+  const [stats, setStats] = useState<QuickStatsData | null>(null);
+
+  const loadStats = async () => {
+    try {
+      // Expense dates are stored as UTC midnight, so whole UTC months line up with the rollups
+      const now = new Date();
+      const monthStart = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1));
+      const monthEnd = new Date(Date.UTC(now.getFullYear(), now.getMonth() + 1, 1));
+
+      const [monthly, totalExpenses, categoryCount] = await Promise.all([
+        db.getExpenseStats(monthStart, monthEnd),
+        db.expenses.where('kind').equals('expense').count(),
+        db.categories.where('kind').equals('expense').count(),
+      ]);
+
+      setStats({
+        baseCurrency: monthly.baseCurrency,
+        monthlySpending: monthly.totalAmount,
+        monthlyIncome: monthly.incomeAmount,
+        netCashFlow: monthly.netCashFlow,
+        totalExpenses,
+        categoryCount,
+      });
+    } catch (error) {
+      console.error('Failed to load quick stats:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadStats();
+
+    // Refresh when returning to the app or when recurring entries are generated
+    pwaService.on('appVisible', loadStats);
+    recurringManager.on('expensesGenerated', loadStats);
+
+    return () => {
+      pwaService.off('appVisible', loadStats);
+      recurringManager.off('expensesGenerated', loadStats);
+    };
+  }, []);
+
+  const format = (amount: number) => CurrencyUtils.format(amount, stats?.baseCurrency ?? 'USD');
+  const isAhead = (stats?.netCashFlow ?? 0) >= 0;
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Quick Stats</h3>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="ds-stat">
+          <div className="flex items-center mb-2">
+            <div className="ds-avatar ds-avatar--small" style={{ backgroundColor: 'var(--color-primary-accent)' }}>
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" style={{ color: 'var(--color-neutral-black)' }}>
+                <path fillRule="evenodd" d="M4 4a2 2 0 00-2 2v4a2 2 0 002 2V6h10a2 2 0 00-2-2H4zm2 6a2 2 0 012-2h8a2 2 0 012 2v4a2 2 0 01-2 2H8a2 2 0 01-2-2v-4zm6 4a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" />
+              </svg>
+            </div>
+            <span className="ds-badge ds-badge--success ml-2">This Month</span>
+          </div>
+          <div className="ds-stat__value">{format(stats?.monthlySpending ?? 0)}</div>
+          <div className="ds-stat__label">Monthly Total</div>
+        </div>
+
+        <div className="ds-stat">
+          <div className="flex items-center mb-2">
+            <div className="ds-avatar ds-avatar--small" style={{ backgroundColor: 'var(--color-primary-accent)' }}>
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" style={{ color: 'var(--color-neutral-black)' }}>
+                <path fillRule="evenodd" d="M10 3a1 1 0 01.707.293l3 3a1 1 0 01-1.414 1.414L11 6.414V13a1 1 0 11-2 0V6.414L7.707 7.707a1 1 0 01-1.414-1.414l3-3A1 1 0 0110 3zM3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" clipRule="evenodd" />
+              </svg>
+            </div>
+            <span className="ds-badge ds-badge--success ml-2">This Month</span>
+          </div>
+          <div className="ds-stat__value">{format(stats?.monthlyIncome ?? 0)}</div>
+          <div className="ds-stat__label">Monthly Income</div>
+        </div>
+
+        <div className="ds-stat">
+          <div className="flex items-center mb-2">
+            <div className="ds-avatar ds-avatar--small" style={{ backgroundColor: 'var(--color-neutral-light-gray)' }}>
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+                <path fillRule="evenodd" d="M12 7a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0V8.414l-4.293 4.293a1 1 0 01-1.414 0L8 10.414l-4.293 4.293a1 1 0 01-1.414-1.414l5-5a1 1 0 011.414 0L11 10.586 14.586 7H12z" clipRule="evenodd" />
+              </svg>
+            </div>
+            <span className={`ds-badge ${isAhead ? 'ds-badge--success' : 'ds-badge--neutral'} ml-2`}>
+              {isAhead ? 'Ahead' : 'Behind'}
+            </span>
+          </div>
+          <div className="ds-stat__value">{format(stats?.netCashFlow ?? 0)}</div>
+          <div className="ds-stat__label">Net Cash Flow</div>
+        </div>
+
+        <div className="ds-stat">
+          <div className="flex items-center mb-2">
+            <div className="ds-avatar ds-avatar--small" style={{ backgroundColor: 'var(--color-neutral-light-gray)' }}>
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+                <path d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <span className="ds-badge ds-badge--neutral ml-2">All Time</span>
+          </div>
+          <div className="ds-stat__value">{stats?.totalExpenses ?? 0}</div>
+          <div className="ds-stat__label">Total Expenses</div>
+        </div>
+
+        <div className="ds-stat">
+          <div className="flex items-center mb-2">
+            <div className="ds-avatar ds-avatar--small" style={{ backgroundColor: 'var(--color-neutral-medium-gray)' }}>
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+                <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+              </svg>
+            </div>
+            <span className="ds-badge ds-badge--neutral ml-2">Active</span>
+          </div>
+          <div className="ds-stat__value">{stats?.categoryCount ?? 0}</div>
+          <div className="ds-stat__label">Categories</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { recurringManager, RecurrenceUtils, type UpcomingOccurrence } from '@/lib/recurring';
+import { CurrencyUtils } from '@/lib/currency';
+import type { RecurringRule } from '@/lib/database';
+
+interface RecurringRulesProps {
+  className?: string;
+}
+
+export default function RecurringRules({ className = '' }: RecurringRulesProps): JSX.Element {
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [upcoming, setUpcoming] = useState<Record<number, UpcomingOccurrence[]>>({});
+  const [expandedRule, setExpandedRule] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = async () => {
+    try {
+      const allRules = await recurringManager.getRules();
+      setRules(allRules);
+
+      const occurrences: Record<number, UpcomingOccurrence[]> = {};
+      for (const rule of allRules) {
+        occurrences[rule.id!] = await recurringManager.getUpcomingOccurrences(rule.id!, 3);
+      }
+      setUpcoming(occurrences);
+    } catch (err) {
+      console.error('Failed to load recurring rules:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update recurring expense');
+    }
+  };
+
+  const handleDelete = (rule: RecurringRule) => {
+    if (!confirm(`Stop "${rule.name}"? Expenses already created will be kept.`)) {
+      return;
+    }
+    runAction(() => recurringManager.deleteRule(rule.id!));
+  };
+
+  useEffect(() => {
+    loadRules();
+
+    recurringManager.on('rulesChanged', loadRules);
+    recurringManager.on('expensesGenerated', loadRules);
+
+    return () => {
+      recurringManager.off('rulesChanged', loadRules);
+      recurringManager.off('expensesGenerated', loadRules);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Recurring Expenses</h3>
+        <span className="ds-badge ds-badge--neutral">
+          {rules.filter(rule => rule.status === 'active').length} active
+        </span>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No recurring expenses yet. Choose a repeat schedule when saving an expense.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {rules.map(rule => (
+            <li key={rule.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setExpandedRule(expandedRule === rule.id ? null : rule.id!)}
+                  className="text-left"
+                >
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100">{rule.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {CurrencyUtils.format(rule.template.amount, rule.template.currency)} ·{' '}
+                    {RecurrenceUtils.describe(rule)}
+                    {rule.status === 'paused' && ' · Paused'}
+                  </div>
+                </button>
+
+                <div className="flex items-center space-x-2">
+                  {rule.status === 'active' ? (
+                    <button
+                      onClick={() => runAction(() => recurringManager.pauseRule(rule.id!))}
+                      className="text-xs text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100"
+                    >
+                      Pause
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => runAction(() => recurringManager.resumeRule(rule.id!))}
+                      className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+                    >
+                      Resume
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                  >
+                    Stop
+                  </button>
+                </div>
+              </div>
+
+              {expandedRule === rule.id && (
+                <ul className="mt-3 space-y-1">
+                  {(upcoming[rule.id!] ?? []).map(occurrence => (
+                    <li key={occurrence.index} className="flex items-center justify-between text-xs">
+                      <span className={occurrence.skipped ? 'line-through text-gray-400' : 'text-gray-700 dark:text-gray-300'}>
+                        {occurrence.date.toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                        {occurrence.overrides?.amount !== undefined &&
+                          ` · ${CurrencyUtils.format(occurrence.overrides.amount, rule.template.currency)}`}
+                      </span>
+                      {occurrence.skipped || occurrence.overrides ? (
+                        <button
+                          onClick={() => runAction(() => recurringManager.clearException(rule.id!, occurrence.date))}
+                          className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                        >
+                          Restore
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => runAction(() => recurringManager.skipOccurrence(rule.id!, occurrence.date))}
+                          className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                        >
+                          Skip
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                  {(upcoming[rule.id!] ?? []).length === 0 && (
+                    <li className="text-xs text-gray-500 dark:text-gray-400">This series has ended.</li>
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
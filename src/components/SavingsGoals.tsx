@@ -0,0 +1,354 @@
+import { useState, useEffect } from 'react';
+import { goalManager, GOAL_ICONS, type GoalProgress } from '@/lib/goals';
+import { CurrencyUtils } from '@/lib/currency';
+import { MoneyUtils } from '@/lib/money';
+import { PreferencesUtils, preferences } from '@/lib/preferences';
+import type { GoalContribution } from '@/lib/database';
+
+interface SavingsGoalsProps {
+  className?: string;
+}
+
+const inputClassName =
+  'block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-gray-100 sm:text-sm';
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+export default function SavingsGoals({ className = '' }: SavingsGoalsProps): JSX.Element {
+  const [progress, setProgress] = useState<GoalProgress[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [contributingTo, setContributingTo] = useState<number | null>(null);
+  const [historyFor, setHistoryFor] = useState<number | null>(null);
+  const [history, setHistory] = useState<GoalContribution[]>([]);
+  const [goalForm, setGoalForm] = useState({ name: '', icon: GOAL_ICONS[0]!, targetAmount: '', currency: 'USD', deadline: '' });
+  const [contributionForm, setContributionForm] = useState({ amount: '', date: today(), isWithdrawal: false });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGoals = async () => {
+    try {
+      setProgress(await goalManager.getProgress());
+    } catch (err) {
+      console.error('Failed to load savings goals:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openHistory = async (goalId: number) => {
+    try {
+      setHistory(await goalManager.getContributions(goalId));
+      setHistoryFor(goalId);
+    } catch (err) {
+      console.error('Failed to load contributions:', err);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update savings goals');
+    }
+  };
+
+  const handleAddGoal = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await goalManager.createGoal({
+        name: goalForm.name,
+        icon: goalForm.icon,
+        targetAmount: MoneyUtils.parse(goalForm.targetAmount, goalForm.currency)?.amount ?? NaN,
+        currency: goalForm.currency,
+        deadline: goalForm.deadline ? new Date(goalForm.deadline) : undefined,
+      });
+      setGoalForm(prev => ({ ...prev, name: '', targetAmount: '', deadline: '' }));
+      setIsAdding(false);
+    });
+  };
+
+  const handleContribute = (e: React.FormEvent, { goal }: GoalProgress) => {
+    e.preventDefault();
+    runAction(async () => {
+      const amount = MoneyUtils.parse(contributionForm.amount, goal.currency)?.amount ?? NaN;
+      await goalManager.addContribution({
+        goalId: goal.id!,
+        amount: contributionForm.isWithdrawal ? -amount : amount,
+        date: new Date(contributionForm.date),
+      });
+      setContributionForm({ amount: '', date: today(), isWithdrawal: false });
+      setContributingTo(null);
+      if (historyFor === goal.id) await openHistory(goal.id!);
+    });
+  };
+
+  const handleDeleteContribution = (contribution: GoalContribution) => {
+    runAction(async () => {
+      await goalManager.deleteContribution(contribution.id!);
+      await openHistory(contribution.goalId);
+    });
+  };
+
+  const handleDeleteGoal = ({ goal }: GoalProgress) => {
+    if (!confirm(`Delete "${goal.name}" and all of its contributions?`)) {
+      return;
+    }
+    runAction(() => goalManager.deleteGoal(goal.id!));
+  };
+
+  useEffect(() => {
+    loadGoals();
+    preferences.getPreference('currency').then(currency => setGoalForm(prev => ({ ...prev, currency })));
+
+    goalManager.on('goalsChanged', loadGoals);
+    return () => {
+      goalManager.off('goalsChanged', loadGoals);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  const formatDate = (date: Date) => date.toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', year: 'numeric' });
+
+  const describeProjection = (entry: GoalProgress) => {
+    if (entry.isComplete) return 'Goal reached 🎉';
+    if (!entry.projectedDate) return 'Add contributions to see when you will get there';
+    return `At ${CurrencyUtils.format(entry.monthlyRate, entry.goal.currency)}/month, reached by ${formatDate(entry.projectedDate)}`;
+  };
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Savings Goals</h3>
+        <button
+          onClick={() => setIsAdding(!isAdding)}
+          className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+        >
+          {isAdding ? 'Cancel' : 'Add goal'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleAddGoal} className="mb-4 space-y-2">
+          <div className="flex space-x-2">
+            <select
+              value={goalForm.icon}
+              onChange={e => setGoalForm(prev => ({ ...prev, icon: e.target.value }))}
+              className={`w-16 ${inputClassName}`}
+              aria-label="Goal icon"
+            >
+              {GOAL_ICONS.map(icon => (
+                <option key={icon} value={icon}>
+                  {icon}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={goalForm.name}
+              onChange={e => setGoalForm(prev => ({ ...prev, name: e.target.value }))}
+              className={inputClassName}
+              placeholder="What are you saving for?"
+              aria-label="Goal name"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={goalForm.targetAmount}
+              onChange={e => setGoalForm(prev => ({ ...prev, targetAmount: e.target.value }))}
+              className={inputClassName}
+              placeholder="Target"
+              aria-label="Target amount"
+              required
+            />
+            <select
+              value={goalForm.currency}
+              onChange={e => setGoalForm(prev => ({ ...prev, currency: e.target.value }))}
+              className={inputClassName}
+              aria-label="Goal currency"
+            >
+              {PreferencesUtils.getAvailableCurrencies().map(currency => (
+                <option key={currency.code} value={currency.code}>
+                  {currency.code}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={goalForm.deadline}
+              onChange={e => setGoalForm(prev => ({ ...prev, deadline: e.target.value }))}
+              className={inputClassName}
+              aria-label="Deadline (optional)"
+            />
+          </div>
+          <button type="submit" className="ds-button ds-button--primary text-xs">
+            Save Goal
+          </button>
+        </form>
+      )}
+
+      {progress.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No goals yet. Add something you are saving toward to track your progress.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {progress.map(entry => {
+            const { goal } = entry;
+            return (
+              <div key={goal.id} className="ds-stat">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {goal.icon} {goal.name}
+                  </span>
+                  {entry.onTrack !== null && !entry.isComplete && (
+                    <span className={`ds-badge ${entry.onTrack ? 'ds-badge--success' : 'ds-badge--neutral'}`}>
+                      {entry.onTrack ? 'On track' : 'Behind'}
+                    </span>
+                  )}
+                </div>
+                <div className="ds-stat__value">{CurrencyUtils.format(entry.saved, goal.currency)}</div>
+                <div className="ds-stat__label">of {CurrencyUtils.format(goal.targetAmount, goal.currency)}</div>
+
+                <div
+                  className="mt-2 h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+                  role="progressbar"
+                  aria-valuenow={Math.round(entry.percentComplete)}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                >
+                  <div
+                    className={`h-full rounded-full ${entry.isComplete ? 'bg-green-500' : 'bg-primary-500'}`}
+                    style={{ width: `${entry.percentComplete}%` }}
+                  ></div>
+                </div>
+
+                <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">{describeProjection(entry)}</div>
+                {goal.deadline && !entry.isComplete && entry.requiredMonthly !== null && (
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {CurrencyUtils.format(entry.requiredMonthly, goal.currency)}/month needed by {formatDate(goal.deadline)}
+                  </div>
+                )}
+
+                {contributingTo === goal.id ? (
+                  <form onSubmit={e => handleContribute(e, entry)} className="mt-2 space-y-2">
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={contributionForm.amount}
+                        onChange={e => setContributionForm(prev => ({ ...prev, amount: e.target.value }))}
+                        className={inputClassName}
+                        placeholder={`0.00 ${goal.currency}`}
+                        aria-label="Contribution amount"
+                        required
+                      />
+                      <input
+                        type="date"
+                        value={contributionForm.date}
+                        onChange={e => setContributionForm(prev => ({ ...prev, date: e.target.value }))}
+                        className={inputClassName}
+                        aria-label="Contribution date"
+                        required
+                      />
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <label className="flex items-center text-xs text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={contributionForm.isWithdrawal}
+                          onChange={e => setContributionForm(prev => ({ ...prev, isWithdrawal: e.target.checked }))}
+                          className="mr-1"
+                        />
+                        Withdrawal
+                      </label>
+                      <button type="submit" className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800">
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setContributingTo(null)}
+                        className="text-xs text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="mt-2 flex items-center space-x-3">
+                    <button
+                      onClick={() => setContributingTo(goal.id!)}
+                      className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+                    >
+                      Add money
+                    </button>
+                    <button
+                      onClick={() => (historyFor === goal.id ? setHistoryFor(null) : openHistory(goal.id!))}
+                      className="text-xs text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                      aria-expanded={historyFor === goal.id}
+                    >
+                      History
+                    </button>
+                    {entry.isComplete && (
+                      <button
+                        onClick={() => runAction(() => goalManager.archiveGoal(goal.id!))}
+                        className="text-xs text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                      >
+                        Archive
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDeleteGoal(entry)}
+                      className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+
+                {historyFor === goal.id && (
+                  <ul className="mt-2 divide-y divide-gray-200 dark:divide-gray-700">
+                    {history.length === 0 && <li className="py-1 text-xs text-gray-500 dark:text-gray-400">No contributions yet.</li>}
+                    {history.map(contribution => (
+                      <li key={contribution.id} className="py-1 flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+                        <span>
+                          {contribution.date.toLocaleDateString(undefined, { timeZone: 'UTC' })} ·{' '}
+                          <span className={contribution.amount < 0 ? 'text-red-600 dark:text-red-400' : ''}>
+                            {CurrencyUtils.format(contribution.amount, goal.currency)}
+                          </span>
+                        </span>
+                        <button
+                          onClick={() => handleDeleteContribution(contribution)}
+                          className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                          aria-label="Delete contribution"
+                        >
+                          ×
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
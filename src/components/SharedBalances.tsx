@@ -0,0 +1,293 @@
+import { useState, useEffect } from 'react';
+import { peopleManager, type IouLedger } from '@/lib/people';
+import { SELF_ID, type Debt } from '@/lib/sharing';
+import { CurrencyUtils } from '@/lib/currency';
+import { MoneyUtils } from '@/lib/money';
+import { preferences } from '@/lib/preferences';
+import type { Person, Settlement } from '@/lib/database';
+
+interface SharedBalancesProps {
+  className?: string;
+}
+
+const inputClassName =
+  'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-gray-100';
+
+export default function SharedBalances({ className = '' }: SharedBalancesProps): JSX.Element {
+  const [people, setPeople] = useState<Person[]>([]);
+  const [ledgers, setLedgers] = useState<IouLedger[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [showAllDebts, setShowAllDebts] = useState(false);
+  const [newPerson, setNewPerson] = useState('');
+  const [settleForm, setSettleForm] = useState({ from: String(SELF_ID), to: '', amount: '', currency: 'USD' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLedger = async () => {
+    try {
+      const [allPeople, allLedgers, allSettlements] = await Promise.all([
+        peopleManager.getPeople(true),
+        peopleManager.getLedgers(),
+        peopleManager.getSettlements(),
+      ]);
+      setPeople(allPeople);
+      setLedgers(allLedgers);
+      setSettlements(allSettlements);
+    } catch (err) {
+      console.error('Failed to load shared balances:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      await loadLedger();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update shared expenses');
+    }
+  };
+
+  const getName = (personId: number | undefined) =>
+    personId === undefined || personId === SELF_ID ? 'You' : people.find(person => person.id === personId)?.name ?? 'Someone';
+
+  // Settlements store you as a missing id
+  const toPersonId = (personKey: number) => (personKey === SELF_ID ? undefined : personKey);
+
+  const describeDebt = (debt: Debt) =>
+    `${getName(debt.from)} ${debt.from === SELF_ID ? 'owe' : 'owes'} ${getName(debt.to)} ${CurrencyUtils.format(debt.amount, debt.currency)}`;
+
+  const handleAddPerson = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await peopleManager.createPerson(newPerson);
+      setNewPerson('');
+    });
+  };
+
+  const handleSettleTransfer = (debt: Debt) => {
+    if (!confirm(`Record that ${getName(debt.from)} paid ${getName(debt.to)} ${CurrencyUtils.format(debt.amount, debt.currency)}?`)) {
+      return;
+    }
+    runAction(async () => {
+      await peopleManager.settleUp({
+        fromPersonId: toPersonId(debt.from),
+        toPersonId: toPersonId(debt.to),
+        amount: debt.amount,
+        currency: debt.currency,
+        date: new Date(),
+      });
+    });
+  };
+
+  const handleSettle = (e: React.FormEvent) => {
+    e.preventDefault();
+    runAction(async () => {
+      await peopleManager.settleUp({
+        fromPersonId: toPersonId(parseInt(settleForm.from, 10)),
+        toPersonId: toPersonId(parseInt(settleForm.to, 10)),
+        amount: MoneyUtils.parse(settleForm.amount, settleForm.currency)?.amount ?? NaN,
+        currency: settleForm.currency,
+        date: new Date(),
+      });
+      setSettleForm(prev => ({ ...prev, amount: '' }));
+    });
+  };
+
+  const handleDeleteSettlement = (settlement: Settlement) => {
+    if (!confirm('Delete this settlement? The amount will be owed again.')) {
+      return;
+    }
+    runAction(() => peopleManager.deleteSettlement(settlement.id!));
+  };
+
+  useEffect(() => {
+    loadLedger();
+    preferences.getPreference('currency').then(currency => setSettleForm(prev => ({ ...prev, currency })));
+
+    const handleChange = () => loadLedger();
+    peopleManager.on('peopleChanged', handleChange);
+    peopleManager.on('settlementsChanged', handleChange);
+    return () => {
+      peopleManager.off('peopleChanged', handleChange);
+      peopleManager.off('settlementsChanged', handleChange);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  const activePeople = people.filter(person => !person.isArchived);
+  const participants = [{ id: SELF_ID, name: 'You' }, ...activePeople.map(person => ({ id: person.id!, name: person.name }))];
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Shared Expenses</h3>
+        {ledgers.some(ledger => ledger.debts.length > 0) && (
+          <button
+            onClick={() => setShowAllDebts(!showAllDebts)}
+            className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+          >
+            {showAllDebts ? 'Simplified' : 'Who owes whom'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {ledgers.length === 0 ? (
+        <p className="ds-text-sm mb-3" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          {people.length === 0 ? 'Add the people you share costs with.' : 'Everyone is settled up.'}
+        </p>
+      ) : (
+        ledgers.map(ledger => (
+          <div key={ledger.currency} className="mb-4">
+            <ul className="mb-2 space-y-1">
+              {ledger.balances.map(entry => (
+                <li key={entry.personId} className="flex justify-between text-sm">
+                  <span className="text-gray-900 dark:text-gray-100">{getName(entry.personId)}</span>
+                  <span className={entry.balance > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                    {entry.personId === SELF_ID ? (entry.balance > 0 ? 'get back ' : 'owe ') : entry.balance > 0 ? 'gets back ' : 'owes '}
+                    {CurrencyUtils.format(Math.abs(entry.balance), ledger.currency)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+              {showAllDebts ? 'Who owes whom' : `Settle up in ${ledger.transfers.length} payment${ledger.transfers.length === 1 ? '' : 's'}`}
+            </div>
+            <ul className="space-y-1">
+              {(showAllDebts ? ledger.debts : ledger.transfers).map(debt => (
+                <li key={`${debt.from}-${debt.to}`} className="flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+                  <span>{describeDebt(debt)}</span>
+                  {!showAllDebts && (
+                    <button
+                      onClick={() => handleSettleTransfer(debt)}
+                      className="text-primary-600 dark:text-primary-400 hover:text-primary-800"
+                    >
+                      Settle
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+      )}
+
+      {activePeople.length > 0 && (
+        <form onSubmit={handleSettle} className="mb-3 flex flex-wrap items-center gap-1">
+          <select
+            value={settleForm.from}
+            onChange={e => setSettleForm({ ...settleForm, from: e.target.value })}
+            className={inputClassName}
+            aria-label="Paid by"
+          >
+            {participants.map(person => (
+              <option key={person.id} value={person.id}>
+                {person.name}
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-500 dark:text-gray-400">paid</span>
+          <select
+            value={settleForm.to}
+            onChange={e => setSettleForm({ ...settleForm, to: e.target.value })}
+            className={inputClassName}
+            aria-label="Paid to"
+            required
+          >
+            <option value="">Choose…</option>
+            {participants.map(person => (
+              <option key={person.id} value={person.id}>
+                {person.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={settleForm.amount}
+            onChange={e => setSettleForm({ ...settleForm, amount: e.target.value })}
+            className={`w-24 ${inputClassName}`}
+            placeholder={`0.00 ${settleForm.currency}`}
+            aria-label="Amount"
+            required
+          />
+          <button type="submit" className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800">
+            Record
+          </button>
+        </form>
+      )}
+
+      {settlements.length > 0 && (
+        <details className="mb-3">
+          <summary className="text-xs text-gray-500 dark:text-gray-400 cursor-pointer">Settlements</summary>
+          <ul className="mt-1 divide-y divide-gray-200 dark:divide-gray-700">
+            {settlements.map(settlement => (
+              <li key={settlement.id} className="py-1 flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+                <span>
+                  {getName(settlement.fromPersonId)} paid {getName(settlement.toPersonId)}{' '}
+                  {CurrencyUtils.format(settlement.amount, settlement.currency)} · {settlement.date.toLocaleDateString()}
+                </span>
+                <button
+                  onClick={() => handleDeleteSettlement(settlement)}
+                  className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      <ul className="mb-2 flex flex-wrap gap-2">
+        {people.map(person => (
+          <li
+            key={person.id}
+            className={`inline-flex items-center px-2 py-1 rounded-full text-xs bg-gray-100 dark:bg-gray-700 ${
+              person.isArchived ? 'text-gray-400' : 'text-gray-700 dark:text-gray-200'
+            }`}
+          >
+            {person.name}
+            <button
+              onClick={() => runAction(() => peopleManager.archivePerson(person.id!, !person.isArchived))}
+              className="ml-1 text-gray-400 hover:text-gray-700"
+              aria-label={person.isArchived ? `Restore ${person.name}` : `Archive ${person.name}`}
+            >
+              {person.isArchived ? '↺' : '×'}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleAddPerson} className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={newPerson}
+          onChange={e => setNewPerson(e.target.value)}
+          className={`flex-1 ${inputClassName}`}
+          placeholder="Add a person"
+          aria-label="Person name"
+        />
+        <button type="submit" className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800">
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -127,6 +127,23 @@ export default function StorageDiagnostics({ className = '' }: StorageDiagnostic
     }
   };
 
+  const handleCheckStatistics = async () => {
+    try {
+      const result = await db.verifyRollups();
+      if (result.ok) {
+        alert(`Statistics are up to date (${result.checked} totals checked).`);
+        return;
+      }
+      if (confirm(`${result.mismatches.length} statistics totals are out of date. Rebuild them from your expenses now?`)) {
+        await db.rebuildRollups();
+        alert('Statistics have been rebuilt.');
+      }
+    } catch (error) {
+      console.error('Failed to check statistics:', error);
+      alert('Failed to check statistics. Please try again.');
+    }
+  };
+
   useEffect(() => {
     loadStorageData();
   }, []);
@@ -337,6 +354,16 @@ export default function StorageDiagnostics({ className = '' }: StorageDiagnostic
               </svg>
               Clear Cache
             </button>
+
+            <button
+              onClick={handleCheckStatistics}
+              className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+              </svg>
+              Check Statistics
+            </button>
             
             <button
               onClick={handleClearMedia}
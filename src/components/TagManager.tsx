@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { db, type Tag } from '@/lib/database';
+import { TAG_COLORS } from '@/lib/tags';
+
+interface TagManagerProps {
+  className?: string;
+}
+
+export default function TagManager({ className = '' }: TagManagerProps): JSX.Element {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [editingTag, setEditingTag] = useState<number | null>(null);
+  const [newName, setNewName] = useState('');
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTags = async () => {
+    try {
+      setTags(await db.getTags());
+    } catch (err) {
+      console.error('Failed to load tags:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      setEditingTag(null);
+      await loadTags();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tags');
+    }
+  };
+
+  const startEditing = (tag: Tag) => {
+    setEditingTag(editingTag === tag.id ? null : tag.id!);
+    setNewName(tag.name);
+    setMergeTarget('');
+    setError(null);
+  };
+
+  const handleRename = (e: React.FormEvent, tag: Tag) => {
+    e.preventDefault();
+    runAction(() => db.renameTag(tag.id!, newName));
+  };
+
+  const handleMerge = (tag: Tag) => {
+    const target = tags.find(t => t.id?.toString() === mergeTarget);
+    if (!target || !confirm(`Merge "${tag.name}" into "${target.name}"? ${tag.usageCount} expenses will be retagged.`)) {
+      return;
+    }
+    runAction(() => db.mergeTags([tag.id!], target.id!));
+  };
+
+  const handleDelete = (tag: Tag) => {
+    if (!confirm(`Delete "${tag.name}"? It will be removed from ${tag.usageCount} expenses.`)) {
+      return;
+    }
+    runAction(() => db.deleteTag(tag.id!));
+  };
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Tags</h3>
+        <span className="ds-badge ds-badge--neutral">{tags.length} tags</span>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {tags.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No tags yet. Tags you add to expenses will appear here.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {tags.map(tag => (
+            <li key={tag.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-2">
+              <button onClick={() => startEditing(tag)} className="w-full flex items-center justify-between text-left">
+                <span className="flex items-center text-sm text-gray-900 dark:text-gray-100">
+                  <span className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: tag.color }}></span>
+                  {tag.name}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{tag.usageCount} uses</span>
+              </button>
+
+              {editingTag === tag.id && (
+                <div className="mt-3 space-y-2">
+                  <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Tag color">
+                    {TAG_COLORS.map(color => (
+                      <button
+                        key={color}
+                        role="radio"
+                        aria-checked={tag.color === color}
+                        aria-label={color}
+                        onClick={() => runAction(() => db.updateTagColor(tag.id!, color))}
+                        className={`w-5 h-5 rounded-full ${tag.color === color ? 'ring-2 ring-offset-1 ring-gray-500' : ''}`}
+                        style={{ backgroundColor: color }}
+                      ></button>
+                    ))}
+                  </div>
+
+                  <form onSubmit={e => handleRename(e, tag)} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={newName}
+                      onChange={e => setNewName(e.target.value)}
+                      className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-gray-100"
+                      aria-label="New tag name"
+                    />
+                    <button type="submit" className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800">
+                      Rename
+                    </button>
+                  </form>
+
+                  {tags.length > 1 && (
+                    <div className="flex items-center space-x-2">
+                      <select
+                        value={mergeTarget}
+                        onChange={e => setMergeTarget(e.target.value)}
+                        className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm dark:bg-gray-700 dark:text-gray-100"
+                        aria-label="Merge into"
+                      >
+                        <option value="">Merge into…</option>
+                        {tags
+                          .filter(other => other.id !== tag.id)
+                          .map(other => (
+                            <option key={other.id} value={other.id}>
+                              {other.name}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        onClick={() => handleMerge(tag)}
+                        disabled={!mergeTarget}
+                        className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800 disabled:opacity-50"
+                      >
+                        Merge
+                      </button>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={() => handleDelete(tag)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { taxManager, TaxUtils, type FinancialYear, type TaxReport as TaxReportData } from '@/lib/tax';
+import { CurrencyUtils } from '@/lib/currency';
+import { preferences } from '@/lib/preferences';
+import { pwaService } from '@/lib/pwa';
+import { trashManager } from '@/lib/trash';
+
+interface TaxReportProps {
+  className?: string;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => ({
+  value: i + 1,
+  label: new Date(Date.UTC(2000, i, 1)).toLocaleDateString(undefined, { month: 'long', timeZone: 'UTC' }),
+}));
+
+// How many past financial years can be picked
+const YEARS_SHOWN = 6;
+
+export default function TaxReport({ className = '' }: TaxReportProps): JSX.Element {
+  const [report, setReport] = useState<TaxReportData | null>(null);
+  const [currentYear, setCurrentYear] = useState<FinancialYear | null>(null);
+  const [startYear, setStartYear] = useState<number | null>(null);
+  const [startMonth, setStartMonth] = useState(1);
+  const [startDay, setStartDay] = useState(1);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = async (year: number | null = startYear) => {
+    try {
+      const [current, month, day] = await Promise.all([
+        taxManager.getFinancialYear(),
+        preferences.getPreference('financialYearStartMonth'),
+        preferences.getPreference('financialYearStartDay'),
+      ]);
+      const selected = year ?? current.startYear;
+      setCurrentYear(current);
+      setStartYear(selected);
+      setStartMonth(month);
+      setStartDay(day);
+      setReport(await taxManager.getReport(selected));
+    } catch (err) {
+      console.error('Failed to load tax report:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => void | Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export tax report');
+    }
+  };
+
+  const handleYearStartChange = (month: number, day: number) => {
+    runAction(async () => {
+      await preferences.setPreference('financialYearStartMonth', month);
+      await preferences.setPreference('financialYearStartDay', day);
+      // The selected year follows the new start
+      await loadReport(null);
+    });
+  };
+
+  useEffect(() => {
+    loadReport();
+
+    // Expenses are added and deleted in other cards while this one is open
+    const handleChange = () => loadReport();
+    pwaService.on('appVisible', handleChange);
+    trashManager.on('trashChanged', handleChange);
+    return () => {
+      pwaService.off('appVisible', handleChange);
+      trashManager.off('trashChanged', handleChange);
+    };
+  }, [startYear]);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  const years = currentYear ? Array.from({ length: YEARS_SHOWN }, (_, i) => currentYear.startYear - i) : [];
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Tax Report</h3>
+        <button
+          onClick={() => setShowSettings(prev => !prev)}
+          className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+        >
+          {showSettings ? 'Done' : 'Year start'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {showSettings && (
+        <div className="mb-3 flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400">
+          <span>Financial year starts</span>
+          <select
+            value={startDay}
+            onChange={e => handleYearStartChange(startMonth, parseInt(e.target.value, 10))}
+            className="text-xs border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-gray-100"
+            aria-label="Start day"
+          >
+            {Array.from({ length: 31 }, (_, i) => i + 1).map(day => (
+              <option key={day} value={day}>
+                {day}
+              </option>
+            ))}
+          </select>
+          <select
+            value={startMonth}
+            onChange={e => handleYearStartChange(parseInt(e.target.value, 10), startDay)}
+            className="text-xs border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-gray-100"
+            aria-label="Start month"
+          >
+            {MONTHS.map(month => (
+              <option key={month.value} value={month.value}>
+                {month.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {currentYear && report && (
+        <div className="mb-3 flex items-center justify-between">
+          <select
+            value={startYear ?? currentYear.startYear}
+            onChange={e => setStartYear(parseInt(e.target.value, 10))}
+            className="text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-gray-100"
+            aria-label="Financial year"
+          >
+            {years.map(year => (
+              <option key={year} value={year}>
+                {TaxUtils.getFinancialYear(year, startMonth, startDay).label}
+              </option>
+            ))}
+          </select>
+          {report.count > 0 && (
+            <div className="space-x-3">
+              <button
+                onClick={() => runAction(() => taxManager.exportCSV(report))}
+                className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => runAction(() => taxManager.printReport(report))}
+                className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+              >
+                Print summary
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {!report || report.count === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          No tax-deductible expenses in this financial year. Mark expenses as tax deductible when adding them.
+        </p>
+      ) : (
+        <>
+          <div className="mb-2 flex items-baseline justify-between">
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {report.year.start.toLocaleDateString(undefined, { timeZone: 'UTC' })} –{' '}
+              {new Date(report.year.end.getTime() - 1).toLocaleDateString(undefined, { timeZone: 'UTC' })} · {report.count} expenses
+            </span>
+            <span className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              {CurrencyUtils.format(report.total, report.currency)}
+            </span>
+          </div>
+
+          {report.missingReceipts > 0 && (
+            <p className="mb-2 text-xs text-yellow-700 dark:text-yellow-300">
+              {report.missingReceipts === 1 ? '1 expense has' : `${report.missingReceipts} expenses have`} no receipt attached.
+            </p>
+          )}
+          {report.unconverted > 0 && (
+            <p className="mb-2 text-xs text-yellow-700 dark:text-yellow-300">
+              {report.unconverted} left out of the totals: no exchange rate to {report.currency}.
+            </p>
+          )}
+
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {report.groups.map(group => (
+              <li key={group.taxCategory} className="py-2">
+                <button
+                  onClick={() => setExpanded(prev => (prev === group.taxCategory ? null : group.taxCategory))}
+                  className="w-full flex items-center justify-between text-left"
+                  aria-expanded={expanded === group.taxCategory}
+                >
+                  <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                    {group.taxCategory}
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{group.items.length}</span>
+                  </span>
+                  <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                    {CurrencyUtils.format(group.total, report.currency)}
+                  </span>
+                </button>
+
+                {expanded === group.taxCategory && (
+                  <ul className="mt-1 space-y-1">
+                    {group.items.map(item => (
+                      <li key={item.expenseId} className="flex items-center justify-between text-xs text-gray-700 dark:text-gray-300">
+                        <span className="truncate">
+                          {item.date.toLocaleDateString(undefined, { timeZone: 'UTC' })} · {item.description}
+                          {item.receipts.length > 0 ? (
+                            <span aria-label={`${item.receipts.length} receipts`} className="ml-1">
+                              📎{item.receipts.length > 1 && item.receipts.length}
+                            </span>
+                          ) : (
+                            <span className="ml-1 text-yellow-700 dark:text-yellow-300">no receipt</span>
+                          )}
+                        </span>
+                        <span className="ml-3 whitespace-nowrap">{CurrencyUtils.format(item.amount, item.currency)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState, useEffect } from 'react';
+import { trashManager, TrashUtils } from '@/lib/trash';
+import { duplicateManager } from '@/lib/duplicates';
+import { CurrencyUtils } from '@/lib/currency';
+import { preferences } from '@/lib/preferences';
+import type { TrashedExpense } from '@/lib/database';
+
+interface TrashViewProps {
+  className?: string;
+}
+
+const RETENTION_OPTIONS = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 0, label: 'Until emptied' },
+];
+
+export default function TrashView({ className = '' }: TrashViewProps): JSX.Element {
+  const [trash, setTrash] = useState<TrashedExpense[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      const [trashed, days] = await Promise.all([
+        trashManager.getTrash(),
+        preferences.getPreference('trashRetentionDays'),
+      ]);
+      setTrash(trashed);
+      setRetentionDays(days);
+    } catch (err) {
+      console.error('Failed to load trash:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+      await loadTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update trash');
+    }
+  };
+
+  const handlePurge = (expense: TrashedExpense) => {
+    if (!confirm(`Delete "${expense.description}" forever? Its attachments will be removed too.`)) {
+      return;
+    }
+    runAction(() => trashManager.purge([expense.id!]));
+  };
+
+  const handleEmpty = () => {
+    if (!confirm(`Delete all ${trash.length} expenses in the trash forever?`)) {
+      return;
+    }
+    runAction(() => trashManager.emptyTrash());
+  };
+
+  const handleRetentionChange = (days: number) => {
+    runAction(async () => {
+      await preferences.setPreference('trashRetentionDays', days);
+      await trashManager.purgeExpired();
+    });
+  };
+
+  useEffect(() => {
+    loadTrash();
+
+    // Other cards can delete expenses while this one is open, and merging
+    // duplicates trashes one of the pair
+    const handleChange = () => loadTrash();
+    trashManager.on('trashChanged', handleChange);
+    duplicateManager.on('duplicatesChanged', handleChange);
+    return () => {
+      trashManager.off('trashChanged', handleChange);
+      duplicateManager.off('duplicatesChanged', handleChange);
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className={`animate-pulse ${className}`}>
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-32"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <div className="ds-card-header">
+        <h3 className="ds-card-header__title">Trash</h3>
+        {trash.length > 0 && (
+          <button
+            onClick={handleEmpty}
+            className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+          >
+            Empty trash
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 bg-red-50 dark:bg-red-900/20 rounded border border-red-200 dark:border-red-800 text-xs text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      <label className="flex items-center justify-between mb-3 text-xs text-gray-500 dark:text-gray-400">
+        Keep deleted expenses
+        <select
+          value={retentionDays}
+          onChange={e => handleRetentionChange(parseInt(e.target.value, 10))}
+          className="ml-2 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-xs dark:bg-gray-700 dark:text-gray-100"
+        >
+          {RETENTION_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {trash.length === 0 ? (
+        <p className="ds-text-sm" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          Trash is empty.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {trash.map(expense => {
+            const daysLeft = TrashUtils.getDaysLeft(expense, retentionDays);
+            return (
+              <li key={expense.id} className="py-2 flex items-center justify-between">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {expense.receipt && <span aria-label="Has receipt">📎 </span>}
+                    {expense.description}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {CurrencyUtils.format(expense.amount, expense.currency)} · deleted {expense.deletedAt.toLocaleDateString()}
+                    {daysLeft !== null && ` · ${daysLeft === 0 ? 'purged today' : `${daysLeft} days left`}`}
+                  </div>
+                </div>
+                <span className="ml-3 flex items-center space-x-2">
+                  <button
+                    onClick={() => runAction(() => trashManager.restore(expense.id!))}
+                    className="text-xs text-primary-600 dark:text-primary-400 hover:text-primary-800"
+                  >
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handlePurge(expense)}
+                    className="text-xs text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200"
+                  >
+                    Delete forever
+                  </button>
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
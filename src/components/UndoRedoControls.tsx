@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { historyManager, HistoryUtils, type HistoryState } from '@/lib/history';
+
+interface UndoRedoControlsProps {
+  className?: string;
+}
+
+export default function UndoRedoControls({ className = '' }: UndoRedoControlsProps): JSX.Element {
+  const [state, setState] = useState<HistoryState>({ canUndo: false, canRedo: false, undoLabel: null, redoLabel: null });
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setState(await historyManager.getState());
+    } catch (err) {
+      console.error('Failed to load undo history:', err);
+    }
+  };
+
+  const run = async (direction: 'undo' | 'redo') => {
+    try {
+      const revision = direction === 'undo' ? await historyManager.undo() : await historyManager.redo();
+      setMessage(revision ? `${direction === 'undo' ? 'Undid' : 'Redid'}: ${HistoryUtils.describe(revision)}` : null);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : `Failed to ${direction}`);
+    }
+    await refresh();
+  };
+
+  useEffect(() => {
+    refresh();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Leave text fields their own undo
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      e.preventDefault();
+      run(e.shiftKey ? 'redo' : 'undo');
+    };
+
+    // Edits come from every card, so look again whenever the user comes back
+    historyManager.on('historyChanged', refresh);
+    window.addEventListener('focus', refresh);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      historyManager.off('historyChanged', refresh);
+      window.removeEventListener('focus', refresh);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(() => setMessage(null), 4000);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <div className={`relative flex items-center space-x-2 ${className}`} onMouseEnter={refresh}>
+      <button
+        onClick={() => run('undo')}
+        disabled={!state.canUndo}
+        className="ds-button ds-button--icon disabled:opacity-40"
+        style={{ backgroundColor: 'var(--color-neutral-light-gray)' }}
+        aria-label={state.undoLabel ? `Undo ${state.undoLabel}` : 'Undo'}
+        title={state.undoLabel ? `Undo: ${state.undoLabel}` : 'Nothing to undo'}
+      >
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5 5m-5-5l5-5" />
+        </svg>
+      </button>
+      <button
+        onClick={() => run('redo')}
+        disabled={!state.canRedo}
+        className="ds-button ds-button--icon disabled:opacity-40"
+        style={{ backgroundColor: 'var(--color-neutral-light-gray)' }}
+        aria-label={state.redoLabel ? `Redo ${state.redoLabel}` : 'Redo'}
+        title={state.redoLabel ? `Redo: ${state.redoLabel}` : 'Nothing to redo'}
+      >
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" style={{ color: 'var(--color-neutral-dark-gray)' }}>
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2m15-7l-5 5m5-5l-5-5" />
+        </svg>
+      </button>
+
+      {message && (
+        <div
+          role="status"
+          className="absolute top-full right-0 mt-2 whitespace-nowrap px-3 py-1 rounded-md text-xs bg-gray-900 text-white dark:bg-gray-100 dark:text-gray-900"
+        >
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+/**
+ * Accounts and Wallets
+ * Manages accounts, transfers between them and per-account running balances
+ */
+
+import { db, type Account, type Expense } from '@/lib/database';
+import type { ExchangeRateTable } from '@/lib/currency';
+
+export interface TransferInput {
+  fromAccountId: number;
+  toAccountId: number;
+  amount: number; // Minor units of the source account's currency
+  toAmount?: number; // Minor units of the destination account's currency, when it differs
+  date: Date;
+  description?: string;
+  notes?: string;
+}
+
+export interface LedgerEntry {
+  expense: Expense;
+  change: number; // Signed, in the account's currency
+  balance: number; // Running balance after this entry
+  unconverted: boolean; // True when no exchange rate was available
+}
+
+export interface AccountLedger {
+  account: Account;
+  openingBalance: number;
+  entries: LedgerEntry[];
+  balance: number;
+}
+
+class AccountManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  async createAccount(
+    account: Omit<Account, 'id' | 'createdAt' | 'updatedAt' | 'isArchived' | 'openingDate'> & { openingDate?: Date }
+  ): Promise<number> {
+    if (!account.name.trim()) {
+      throw new Error('Please enter an account name.');
+    }
+    if (!Number.isSafeInteger(account.openingBalance)) {
+      throw new Error('Please enter a valid opening balance.');
+    }
+
+    const id = await db.accounts.add({
+      ...account,
+      name: account.name.trim(),
+      currency: account.currency.toUpperCase(),
+      openingDate: account.openingDate ?? new Date(),
+      isArchived: false,
+    } as Account);
+
+    this.emit('accountsChanged');
+    return id;
+  }
+
+  async updateAccount(id: number, updates: Partial<Omit<Account, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+    await db.accounts.update(id, updates);
+    this.emit('accountsChanged');
+  }
+
+  async archiveAccount(id: number, archived = true): Promise<void> {
+    await this.updateAccount(id, { isArchived: archived });
+  }
+
+  /**
+   * Delete an account that has no transactions. Accounts with history should be archived.
+   */
+  async deleteAccount(id: number): Promise<void> {
+    const usage = await db.expenses
+      .where('accountId')
+      .equals(id)
+      .or('toAccountId')
+      .equals(id)
+      .count();
+
+    if (usage > 0) {
+      throw new Error('This account has transactions. Archive it instead.');
+    }
+
+    await db.accounts.delete(id);
+    this.emit('accountsChanged');
+  }
+
+  async getAccounts(includeArchived = false): Promise<Account[]> {
+    const accounts = await db.accounts.orderBy('name').toArray();
+    return includeArchived ? accounts : accounts.filter(account => !account.isArchived);
+  }
+
+  /**
+   * Record a transfer between two accounts
+   */
+  async addTransfer(transfer: TransferInput): Promise<number> {
+    if (transfer.fromAccountId === transfer.toAccountId) {
+      throw new Error('Choose two different accounts for a transfer.');
+    }
+    if (!Number.isSafeInteger(transfer.amount) || transfer.amount <= 0) {
+      throw new Error('Please enter a valid amount.');
+    }
+
+    const [from, to] = await Promise.all([
+      db.accounts.get(transfer.fromAccountId),
+      db.accounts.get(transfer.toAccountId),
+    ]);
+    if (!from || !to) {
+      throw new Error('Transfer account not found');
+    }
+
+    const id = await db.addExpense({
+      kind: 'transfer',
+      amount: transfer.amount,
+      currency: from.currency,
+      description: transfer.description?.trim() || `Transfer to ${to.name}`,
+      category: 'Transfer',
+      paymentMethod: 'bank_transfer',
+      date: transfer.date,
+      notes: transfer.notes,
+      accountId: from.id,
+      toAccountId: to.id,
+      toAmount: from.currency !== to.currency ? transfer.toAmount : undefined,
+    });
+
+    this.emit('balancesChanged');
+    return id;
+  }
+
+  /**
+   * Build the running balance for an account. Balances are derived from the
+   * transactions each time, so editing an old entry is always reflected.
+   */
+  async getLedger(accountId: number, rateTable?: ExchangeRateTable): Promise<AccountLedger> {
+    const account = await db.accounts.get(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+
+    const [transactions, rates] = await Promise.all([
+      db.expenses.where('accountId').equals(accountId).or('toAccountId').equals(accountId).toArray(),
+      rateTable ? Promise.resolve(rateTable) : db.getExchangeRateTable(),
+    ]);
+
+    // Oldest first; entries on the same day keep the order they were recorded in
+    transactions.sort((a, b) => a.date.getTime() - b.date.getTime() || (a.id ?? 0) - (b.id ?? 0));
+
+    let balance = account.openingBalance;
+    const entries = transactions.map(expense => {
+      const { change, unconverted } = this.getChange(expense, account, rates);
+      balance += change;
+      return { expense, change, balance, unconverted };
+    });
+
+    return { account, openingBalance: account.openingBalance, entries, balance };
+  }
+
+  /**
+   * Current balance of every active account
+   */
+  async getBalances(): Promise<Array<{ account: Account; balance: number }>> {
+    const [accounts, rates] = await Promise.all([this.getAccounts(), db.getExchangeRateTable()]);
+
+    return await Promise.all(
+      accounts.map(async account => ({
+        account,
+        balance: (await this.getLedger(account.id!, rates)).balance,
+      }))
+    );
+  }
+
+  // Helper methods
+
+  private getChange(
+    expense: Expense,
+    account: Account,
+    rates: ExchangeRateTable
+  ): { change: number; unconverted: boolean } {
+    // Money arriving in this account through a transfer
+    if (expense.kind === 'transfer' && expense.toAccountId === account.id) {
+      if (expense.toAmount !== undefined) {
+        return { change: expense.toAmount, unconverted: false };
+      }
+      return this.convert(expense.amount, expense.currency, account, expense.date, rates);
+    }
+
+    const { change, unconverted } = this.convert(expense.amount, expense.currency, account, expense.date, rates);
+    return { change: expense.kind === 'income' ? change : -change, unconverted };
+  }
+
+  private convert(
+    amount: number,
+    currency: string,
+    account: Account,
+    date: Date,
+    rates: ExchangeRateTable
+  ): { change: number; unconverted: boolean } {
+    const converted = rates.convert(amount, currency, account.currency, date);
+    return converted === null ? { change: amount, unconverted: true } : { change: converted, unconverted: false };
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const accountManager = new AccountManager();
+
+export const ACCOUNT_TYPES: Array<{ value: Account['type']; label: string; icon: string }> = [
+  { value: 'cash', label: 'Cash', icon: '💵' },
+  { value: 'checking', label: 'Checking', icon: '🏦' },
+  { value: 'savings', label: 'Savings', icon: '🐖' },
+  { value: 'credit_card', label: 'Credit Card', icon: '💳' },
+  { value: 'digital_wallet', label: 'Digital Wallet', icon: '📱' },
+  { value: 'other', label: 'Other', icon: '🔄' },
+];
+
+export default accountManager;
@@ -0,0 +1,257 @@
+/**
+ * Expense Attachments
+ * Ordered receipts, invoices and other files attached to an expense, with
+ * captions. The first attachment doubles as the expense's `receipt`.
+ */
+
+import { db, type Expense, type MediaFile } from '@/lib/database';
+import { opfsStorage, StorageUtils } from '@/lib/storage';
+
+// One entry of an expense's attachment list as edited in a form: an
+// existing attachment by id, or a new file to upload
+export interface AttachmentDraft {
+  id?: number;
+  file?: File;
+  caption?: string;
+}
+
+// Most attachments a single expense can have
+export const MAX_ATTACHMENTS = 10;
+
+// Utility functions
+export const AttachmentUtils = {
+  sortByPosition(files: MediaFile[]): MediaFile[] {
+    return [...files].sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || (a.id ?? 0) - (b.id ?? 0));
+  },
+
+  toReceipt(media: MediaFile | undefined): Expense['receipt'] {
+    if (!media) return undefined;
+    return { mediaId: media.mediaId, fileName: media.fileName, mimeType: media.mimeType, size: media.size };
+  },
+
+  isSameReceipt(a: Expense['receipt'], b: Expense['receipt']): boolean {
+    return a?.mediaId === b?.mediaId;
+  },
+
+  validateFile(file: File): void {
+    if (!StorageUtils.isValidMediaType(file.type)) {
+      throw new Error('Please select a valid image or PDF file.');
+    }
+    if (file.size > 10 * 1024 * 1024) {
+      throw new Error('File size must be less than 10MB.');
+    }
+  },
+};
+
+class AttachmentManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  /**
+   * An expense's attachments in order
+   */
+  async getAttachments(expenseId: number): Promise<MediaFile[]> {
+    return AttachmentUtils.sortByPosition(await db.mediaFiles.where('expenseId').equals(expenseId).toArray());
+  }
+
+  /**
+   * Make an expense's attachments match a list: attachments left out are
+   * removed, new files are uploaded, and captions and order follow the list.
+   * Returns the receipt the expense ends up with.
+   */
+  async setAttachments(expenseId: number, drafts: AttachmentDraft[]): Promise<Expense['receipt']> {
+    if (drafts.length > MAX_ATTACHMENTS) {
+      throw new Error(`An expense can have at most ${MAX_ATTACHMENTS} attachments.`);
+    }
+    drafts.forEach(draft => draft.file && AttachmentUtils.validateFile(draft.file));
+
+    // Files go to OPFS first; rows that point at them are written together below
+    const uploads = new Map<AttachmentDraft, Omit<MediaFile, 'id' | 'createdAt'>>();
+    for (const draft of drafts) {
+      if (draft.id !== undefined || !draft.file) continue;
+      const metadata = await opfsStorage.storeMediaFile(draft.file, StorageUtils.generateMediaId(), {
+        compress: true,
+        quality: 0.8,
+        maxWidth: 1920,
+        maxHeight: 1080,
+        generateThumbnail: true,
+        thumbnailSize: 200,
+      });
+      uploads.set(draft, {
+        mediaId: metadata.id,
+        fileName: metadata.fileName,
+        mimeType: metadata.mimeType,
+        size: metadata.size,
+        thumbnailId: metadata.thumbnailId,
+        hash: metadata.hash,
+        expenseId,
+      });
+    }
+
+    const { removed, receipt } = await db.transaction(
+      'rw',
+      [db.mediaFiles, db.expenses, db.tags, db.syncQueue, db.revisions],
+      async () => {
+        const existing = await this.getAttachments(expenseId);
+        const keptIds = new Set(drafts.map(draft => draft.id).filter((id): id is number => id !== undefined));
+        const removed = existing.filter(media => !keptIds.has(media.id!));
+        await db.mediaFiles.bulkDelete(removed.map(media => media.id!));
+
+        const ordered: MediaFile[] = [];
+        for (const [position, draft] of drafts.entries()) {
+          const caption = draft.caption?.trim() || undefined;
+          const upload = uploads.get(draft);
+          if (upload) {
+            const id = await db.addMediaFile({ ...upload, position, caption });
+            ordered.push({ ...upload, id, position, caption, createdAt: new Date() });
+          } else if (draft.id !== undefined) {
+            const media = existing.find(file => file.id === draft.id);
+            if (!media) continue;
+            await db.mediaFiles.update(media.id!, { position, caption });
+            ordered.push({ ...media, position, caption });
+          }
+        }
+
+        const receipt = await this.syncReceipt(expenseId, ordered[0]);
+        return { removed, receipt };
+      }
+    );
+
+    await this.deleteFiles(removed.map(media => media.mediaId));
+    this.emit('attachmentsChanged', { expenseId });
+    return receipt;
+  }
+
+  async updateCaption(id: number, caption: string): Promise<void> {
+    const media = await db.mediaFiles.get(id);
+    if (!media) {
+      throw new Error(`Attachment ${id} not found`);
+    }
+
+    await db.mediaFiles.update(id, { caption: caption.trim() || undefined });
+    this.emit('attachmentsChanged', { expenseId: media.expenseId });
+  }
+
+  /**
+   * Move an attachment up or down the list
+   */
+  async moveAttachment(id: number, direction: -1 | 1): Promise<void> {
+    const media = await db.mediaFiles.get(id);
+    if (!media?.expenseId) {
+      throw new Error(`Attachment ${id} not found`);
+    }
+
+    const attachments = await this.getAttachments(media.expenseId);
+    const index = attachments.findIndex(file => file.id === id);
+    const target = index + direction;
+    if (target < 0 || target >= attachments.length) return;
+
+    [attachments[index], attachments[target]] = [attachments[target]!, attachments[index]!];
+    await this.setAttachments(
+      media.expenseId,
+      attachments.map(file => ({ id: file.id, caption: file.caption }))
+    );
+  }
+
+  async removeAttachment(id: number): Promise<void> {
+    const media = await db.mediaFiles.get(id);
+    if (!media?.expenseId) {
+      throw new Error(`Attachment ${id} not found`);
+    }
+
+    const attachments = await this.getAttachments(media.expenseId);
+    await this.setAttachments(
+      media.expenseId,
+      attachments.filter(file => file.id !== id).map(file => ({ id: file.id, caption: file.caption }))
+    );
+  }
+
+  /**
+   * Hand every attachment of one expense to another, after its own. Used
+   * when merging duplicates so the discarded expense's files survive.
+   * Must run inside a transaction that includes mediaFiles.
+   */
+  async transferAttachments(fromExpenseId: number, toExpenseId: number): Promise<void> {
+    const [from, to] = await Promise.all([this.getAttachments(fromExpenseId), this.getAttachments(toExpenseId)]);
+    for (const [index, media] of from.entries()) {
+      await db.mediaFiles.update(media.id!, { expenseId: toExpenseId, position: to.length + index });
+    }
+  }
+
+  /**
+   * Delete every attachment of expenses that are gone for good, files
+   * included. Receipts from before attachments were linked by expense are
+   * matched by media id.
+   */
+  async deleteForExpenses(expenseIds: number[], receiptMediaIds: string[] = []): Promise<void> {
+    const mediaIds = await db.transaction('rw', [db.mediaFiles], async () => {
+      const linked = await db.mediaFiles.where('expenseId').anyOf(expenseIds).toArray();
+      const unlinked = (await db.mediaFiles.where('mediaId').anyOf(receiptMediaIds).toArray()).filter(
+        media => media.expenseId === undefined
+      );
+      const files = [...linked, ...unlinked];
+
+      await db.mediaFiles.bulkDelete(files.map(media => media.id!));
+      return files.map(media => media.mediaId);
+    });
+
+    await this.deleteFiles(mediaIds);
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+
+  // Helper methods
+
+  /**
+   * Point the expense's receipt at its first attachment, recording a
+   * revision only when that changes. The revision is a system one, so undo
+   * steps over it to the edit that caused it.
+   */
+  private async syncReceipt(expenseId: number, first: MediaFile | undefined): Promise<Expense['receipt']> {
+    const expense = await db.expenses.get(expenseId);
+    const receipt = AttachmentUtils.toReceipt(first);
+    if (expense && !AttachmentUtils.isSameReceipt(expense.receipt, receipt)) {
+      await db.updateExpense(expenseId, { receipt }, { source: 'system' });
+    }
+    return receipt;
+  }
+
+  /**
+   * OPFS isn't part of the database transaction, so files go once the rows are gone
+   */
+  private async deleteFiles(mediaIds: string[]): Promise<void> {
+    for (const mediaId of mediaIds) {
+      try {
+        await opfsStorage.deleteMediaFile(mediaId);
+      } catch (error) {
+        console.error('Failed to delete attachment:', error);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const attachmentManager = new AttachmentManager();
+
+export default attachmentManager;
@@ -3,6 +3,8 @@
  * Handles secure local backups and data portability
  */
 
+import { MigrationUtils, CURRENT_BACKUP_VERSION, PRE_MIGRATION_BACKUP_PREFIX, type MigrationReport } from '@/lib/migrations';
+
 export interface BackupData {
   version: string;
   createdAt: Date;
@@ -11,6 +13,24 @@ export interface BackupData {
     expenses: any[];
     categories: any[];
     settings: any[];
+    exchangeRates?: any[];
+    recurringRules?: any[];
+    accounts?: any[];
+    tags?: any[];
+    trash?: any[];
+    revisions?: any[];
+    duplicates?: any[];
+    payees?: any[];
+    categorizationRules?: any[];
+    people?: any[];
+    settlements?: any[];
+    projects?: any[];
+    goals?: any[];
+    goalContributions?: any[];
+    bills?: any[];
+    vehicles?: any[];
+    mileageRates?: any[];
+    mileageTrips?: any[];
     preferences: any;
     appState: any;
   };
@@ -35,7 +55,7 @@ export interface EncryptedBackup {
 }
 
 class BackupManager {
-  private readonly BACKUP_VERSION = '1.0';
+  private readonly BACKUP_VERSION = CURRENT_BACKUP_VERSION;
   private readonly ALGORITHM = 'AES-GCM';
   private readonly KEY_LENGTH = 256;
 
@@ -50,10 +70,28 @@ class BackupManager {
       const { opfsStorage } = await import('@/lib/storage');
 
       // Get all data
-      const [expenses, categories, settings, userPreferences, appState] = await Promise.all([
+      const [expenses, categories, settings, exchangeRates, recurringRules, accounts, tags, trash, revisions, duplicates, payees, categorizationRules, people, settlements, projects, goals, goalContributions, bills, vehicles, mileageRates, mileageTrips, userPreferences, appState] = await Promise.all([
         db.expenses.toArray(),
         db.categories.toArray(),
         db.settings.toArray(),
+        db.exchangeRates.toArray(),
+        db.recurringRules.toArray(),
+        db.accounts.toArray(),
+        db.tags.toArray(),
+        db.trash.toArray(),
+        db.revisions.toArray(),
+        db.duplicates.toArray(),
+        db.payees.toArray(),
+        db.categorizationRules.toArray(),
+        db.people.toArray(),
+        db.settlements.toArray(),
+        db.projects.toArray(),
+        db.goals.toArray(),
+        db.goalContributions.toArray(),
+        db.bills.toArray(),
+        db.vehicles.toArray(),
+        db.mileageRates.toArray(),
+        db.mileageTrips.toArray(),
         preferences.getPreferences(),
         preferences.getAppState(),
       ]);
@@ -75,6 +113,24 @@ class BackupManager {
           expenses,
           categories,
           settings,
+          exchangeRates,
+          recurringRules,
+          accounts,
+          tags,
+          trash,
+          revisions,
+          duplicates,
+          payees,
+          categorizationRules,
+          people,
+          settlements,
+          projects,
+          goals,
+          goalContributions,
+          bills,
+          vehicles,
+          mileageRates,
+          mileageTrips,
           preferences: userPreferences,
           appState,
         },
@@ -202,14 +258,7 @@ class BackupManager {
       const backup = JSON.parse(dataString) as BackupData;
 
       // Convert date strings back to Date objects
-      backup.createdAt = new Date(backup.createdAt);
-      if (backup.data.expenses) {
-        backup.data.expenses.forEach((expense: any) => {
-          expense.date = new Date(expense.date);
-          expense.createdAt = new Date(expense.createdAt);
-          expense.updatedAt = new Date(expense.updatedAt);
-        });
-      }
+      this.reviveDates(backup);
 
       return backup;
     } catch (error) {
@@ -279,66 +328,54 @@ class BackupManager {
   }
 
   /**
-   * Import backup from file
+   * Import backup from file, upgrading older backup formats first. With
+   * `applyRules` the backup's categorization rules run over its expenses, as
+   * on manual entry.
    */
-  async importBackup(file: File, password?: string): Promise<void> {
+  async importBackup(file: File, password?: string, options: { applyRules?: boolean } = {}): Promise<MigrationReport> {
     try {
-      const fileContent = await this.readFileContent(file);
-      let backup: BackupData;
-
-      try {
-        const parsed = JSON.parse(fileContent);
-
-        // Check if it's an encrypted backup
-        if (parsed.algorithm && parsed.iv && parsed.data) {
-          if (!password) {
-            throw new Error('Password required for encrypted backup');
-          }
-          backup = await this.decryptBackup(parsed as EncryptedBackup, password);
-        } else {
-          backup = parsed as BackupData;
-          // Convert date strings to Date objects for unencrypted backups
-          backup.createdAt = new Date(backup.createdAt);
-          if (backup.data.expenses) {
-            backup.data.expenses.forEach((expense: any) => {
-              expense.date = new Date(expense.date);
-              expense.createdAt = new Date(expense.createdAt);
-              expense.updatedAt = new Date(expense.updatedAt);
-            });
-          }
-        }
-      } catch (parseError) {
-        throw new Error('Invalid backup file format');
-      }
-
-      // Validate backup version
-      if (backup.version !== this.BACKUP_VERSION) {
-        console.warn(`Backup version mismatch: ${backup.version} vs ${this.BACKUP_VERSION}`);
-        // You might want to handle version migration here
-      }
+      const backup = await this.readBackupFile(file, password);
+      const { report } = MigrationUtils.migrateBackup(backup);
 
       // Import data
-      await this.restoreBackup(backup);
+      await this.restoreBackup(backup, options);
+      return report;
     } catch (error) {
       console.error('Failed to import backup:', error);
       throw error;
     }
   }
 
+  /**
+   * Dry run of an import: what the backup contains and which format
+   * upgrades it would need, without touching any data
+   */
+  async previewBackup(file: File, password?: string): Promise<{ metadata: BackupData['metadata']; report: MigrationReport }> {
+    const backup = await this.readBackupFile(file, password);
+    const { report } = MigrationUtils.migrateBackup(backup, { dryRun: true });
+    return { metadata: backup.metadata, report };
+  }
+
   /**
    * Restore backup data to database
    */
-  private async restoreBackup(backup: BackupData): Promise<void> {
+  private async restoreBackup(backup: BackupData, options: { applyRules?: boolean } = {}): Promise<void> {
     try {
       const { db } = await import('@/lib/database');
       const { preferences } = await import('@/lib/preferences');
+      const { categorizationManager } = await import('@/lib/categorization');
 
       // Clear existing data (with confirmation in UI)
       await db.clearAllData();
 
-      // Restore database data
+      // Restore database data. The backup's own rules replace the current
+      // ones, so they are the ones applied.
       if (backup.data.expenses?.length > 0) {
-        await db.expenses.bulkAdd(backup.data.expenses);
+        await db.expenses.bulkAdd(
+          options.applyRules
+            ? await categorizationManager.prepareImported(backup.data.expenses, backup.data.categorizationRules ?? [])
+            : backup.data.expenses
+        );
       }
 
       if (backup.data.categories?.length > 0) {
@@ -349,6 +386,84 @@ class BackupManager {
         await db.settings.bulkAdd(backup.data.settings);
       }
 
+      if (backup.data.exchangeRates && backup.data.exchangeRates.length > 0) {
+        await db.exchangeRates.bulkAdd(backup.data.exchangeRates);
+      }
+
+      if (backup.data.recurringRules && backup.data.recurringRules.length > 0) {
+        await db.recurringRules.bulkAdd(backup.data.recurringRules);
+      }
+
+      if (backup.data.accounts && backup.data.accounts.length > 0) {
+        await db.accounts.bulkAdd(backup.data.accounts);
+      }
+
+      if (backup.data.tags && backup.data.tags.length > 0) {
+        await db.tags.bulkAdd(backup.data.tags);
+      }
+
+      if (backup.data.trash && backup.data.trash.length > 0) {
+        await db.trash.bulkAdd(backup.data.trash);
+      }
+
+      if (backup.data.revisions && backup.data.revisions.length > 0) {
+        await db.revisions.bulkAdd(backup.data.revisions);
+      }
+
+      if (backup.data.duplicates && backup.data.duplicates.length > 0) {
+        await db.duplicates.bulkAdd(backup.data.duplicates);
+      }
+
+      if (backup.data.payees && backup.data.payees.length > 0) {
+        await db.payees.bulkAdd(backup.data.payees);
+      }
+
+      if (backup.data.categorizationRules && backup.data.categorizationRules.length > 0) {
+        await db.categorizationRules.bulkAdd(backup.data.categorizationRules);
+      }
+
+      if (backup.data.people && backup.data.people.length > 0) {
+        await db.people.bulkAdd(backup.data.people);
+      }
+
+      if (backup.data.settlements && backup.data.settlements.length > 0) {
+        await db.settlements.bulkAdd(backup.data.settlements);
+      }
+
+      if (backup.data.projects && backup.data.projects.length > 0) {
+        await db.projects.bulkAdd(backup.data.projects);
+      }
+
+      if (backup.data.goals && backup.data.goals.length > 0) {
+        await db.goals.bulkAdd(backup.data.goals);
+      }
+
+      if (backup.data.goalContributions && backup.data.goalContributions.length > 0) {
+        await db.goalContributions.bulkAdd(backup.data.goalContributions);
+      }
+
+      if (backup.data.bills && backup.data.bills.length > 0) {
+        await db.bills.bulkAdd(backup.data.bills);
+      }
+
+      if (backup.data.vehicles && backup.data.vehicles.length > 0) {
+        await db.vehicles.bulkAdd(backup.data.vehicles);
+      }
+
+      if (backup.data.mileageRates && backup.data.mileageRates.length > 0) {
+        await db.mileageRates.bulkAdd(backup.data.mileageRates);
+      }
+
+      if (backup.data.mileageTrips && backup.data.mileageTrips.length > 0) {
+        await db.mileageTrips.bulkAdd(backup.data.mileageTrips);
+      }
+
+      // Register tags from backups made before the tag registry existed
+      await db.rebuildTagUsage();
+
+      // Recompute monthly totals once for the restored expenses
+      await db.rebuildRollups();
+
       // Restore preferences
       if (backup.data.preferences) {
         await preferences.updatePreferences(backup.data.preferences);
@@ -440,13 +555,15 @@ class BackupManager {
   }
 
   /**
-   * Get list of local auto backups
+   * Get list of local auto backups and the backups taken before database upgrades
    */
-  async getLocalBackups(): Promise<Array<{ key: string; date: Date; metadata: BackupData['metadata'] }>> {
+  async getLocalBackups(): Promise<Array<{ key: string; date: Date; metadata: BackupData['metadata']; isPreMigration: boolean }>> {
     try {
       const { keys, get } = await import('idb-keyval');
       const allKeys = await keys();
-      const backupKeys = allKeys.filter(key => typeof key === 'string' && key.startsWith('auto-backup-'));
+      const backupKeys = allKeys.filter(
+        key => typeof key === 'string' && (key.startsWith('auto-backup-') || key.startsWith(PRE_MIGRATION_BACKUP_PREFIX))
+      );
       
       const backups = [];
       for (const key of backupKeys) {
@@ -456,6 +573,7 @@ class BackupManager {
             key: key as string,
             date: backup.createdAt,
             metadata: backup.metadata,
+            isPreMigration: (key as string).startsWith(PRE_MIGRATION_BACKUP_PREFIX),
           });
         }
       }
@@ -479,6 +597,7 @@ class BackupManager {
         throw new Error('Backup not found');
       }
       
+      MigrationUtils.migrateBackup(backup);
       await this.restoreBackup(backup);
     } catch (error) {
       console.error('Failed to restore local backup:', error);
@@ -488,6 +607,161 @@ class BackupManager {
 
   // Helper methods
 
+  /**
+   * Read a backup file, decrypting it if needed
+   */
+  private async readBackupFile(file: File, password?: string): Promise<BackupData> {
+    const fileContent = await this.readFileContent(file);
+    let backup: BackupData;
+
+    try {
+      const parsed = JSON.parse(fileContent);
+
+      // Check if it's an encrypted backup
+      if (parsed.algorithm && parsed.iv && parsed.data) {
+        if (!password) {
+          throw new Error('Password required for encrypted backup');
+        }
+        backup = await this.decryptBackup(parsed as EncryptedBackup, password);
+      } else {
+        backup = parsed as BackupData;
+        // Convert date strings to Date objects for unencrypted backups
+        this.reviveDates(backup);
+      }
+    } catch (parseError) {
+      throw new Error('Invalid backup file format');
+    }
+
+    return backup;
+  }
+
+  /**
+   * Convert JSON date strings in a parsed backup back to Date objects
+   */
+  private reviveDates(backup: BackupData): void {
+    const toDate = (value: any) => (value ? new Date(value) : value);
+
+    backup.createdAt = new Date(backup.createdAt);
+
+    backup.data.expenses?.forEach((expense: any) => {
+      expense.date = toDate(expense.date);
+      expense.createdAt = toDate(expense.createdAt);
+      expense.updatedAt = toDate(expense.updatedAt);
+      expense.recurrenceDate = toDate(expense.recurrenceDate);
+    });
+
+    backup.data.trash?.forEach((expense: any) => {
+      expense.date = toDate(expense.date);
+      expense.createdAt = toDate(expense.createdAt);
+      expense.updatedAt = toDate(expense.updatedAt);
+      expense.recurrenceDate = toDate(expense.recurrenceDate);
+      expense.deletedAt = toDate(expense.deletedAt);
+    });
+
+    backup.data.revisions?.forEach((revision: any) => {
+      revision.timestamp = toDate(revision.timestamp);
+    });
+
+    backup.data.duplicates?.forEach((pair: any) => {
+      pair.detectedAt = toDate(pair.detectedAt);
+    });
+
+    backup.data.categories?.forEach((category: any) => {
+      category.budgetStartDate = toDate(category.budgetStartDate);
+      category.createdAt = toDate(category.createdAt);
+      category.updatedAt = toDate(category.updatedAt);
+    });
+
+    backup.data.tags?.forEach((tag: any) => {
+      tag.createdAt = toDate(tag.createdAt);
+      tag.updatedAt = toDate(tag.updatedAt);
+    });
+
+    backup.data.payees?.forEach((payee: any) => {
+      payee.createdAt = toDate(payee.createdAt);
+      payee.updatedAt = toDate(payee.updatedAt);
+    });
+
+    backup.data.categorizationRules?.forEach((rule: any) => {
+      rule.createdAt = toDate(rule.createdAt);
+      rule.updatedAt = toDate(rule.updatedAt);
+    });
+
+    backup.data.people?.forEach((person: any) => {
+      person.createdAt = toDate(person.createdAt);
+      person.updatedAt = toDate(person.updatedAt);
+    });
+
+    backup.data.settlements?.forEach((settlement: any) => {
+      settlement.date = toDate(settlement.date);
+      settlement.createdAt = toDate(settlement.createdAt);
+    });
+
+    backup.data.projects?.forEach((project: any) => {
+      project.startDate = toDate(project.startDate);
+      project.endDate = toDate(project.endDate);
+      project.createdAt = toDate(project.createdAt);
+      project.updatedAt = toDate(project.updatedAt);
+    });
+
+    backup.data.goals?.forEach((goal: any) => {
+      goal.deadline = toDate(goal.deadline);
+      goal.createdAt = toDate(goal.createdAt);
+      goal.updatedAt = toDate(goal.updatedAt);
+    });
+
+    backup.data.goalContributions?.forEach((contribution: any) => {
+      contribution.date = toDate(contribution.date);
+      contribution.createdAt = toDate(contribution.createdAt);
+    });
+
+    backup.data.bills?.forEach((bill: any) => {
+      bill.dueDate = toDate(bill.dueDate);
+      bill.paidAt = toDate(bill.paidAt);
+      bill.remindedAt = toDate(bill.remindedAt);
+      bill.createdAt = toDate(bill.createdAt);
+      bill.updatedAt = toDate(bill.updatedAt);
+    });
+
+    backup.data.vehicles?.forEach((vehicle: any) => {
+      vehicle.createdAt = toDate(vehicle.createdAt);
+      vehicle.updatedAt = toDate(vehicle.updatedAt);
+    });
+
+    backup.data.mileageRates?.forEach((rate: any) => {
+      rate.effectiveFrom = toDate(rate.effectiveFrom);
+      rate.createdAt = toDate(rate.createdAt);
+    });
+
+    backup.data.mileageTrips?.forEach((trip: any) => {
+      trip.date = toDate(trip.date);
+      trip.createdAt = toDate(trip.createdAt);
+      trip.updatedAt = toDate(trip.updatedAt);
+    });
+
+    backup.data.exchangeRates?.forEach((rate: any) => {
+      rate.date = toDate(rate.date);
+      rate.createdAt = toDate(rate.createdAt);
+    });
+
+    backup.data.recurringRules?.forEach((rule: any) => {
+      rule.startDate = toDate(rule.startDate);
+      rule.endDate = toDate(rule.endDate);
+      rule.nextDate = toDate(rule.nextDate);
+      rule.createdAt = toDate(rule.createdAt);
+      rule.updatedAt = toDate(rule.updatedAt);
+      rule.exceptions?.forEach((exception: any) => {
+        exception.date = toDate(exception.date);
+      });
+    });
+
+    backup.data.accounts?.forEach((account: any) => {
+      account.openingDate = toDate(account.openingDate);
+      account.createdAt = toDate(account.createdAt);
+      account.updatedAt = toDate(account.updatedAt);
+    });
+  }
+
   private arrayBufferToBase64(buffer: ArrayBuffer): string {
     const bytes = new Uint8Array(buffer);
     let binary = '';
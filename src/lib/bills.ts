@@ -0,0 +1,254 @@
+/**
+ * Bill Reminders
+ * Manages upcoming bills, reminds about them through local notifications
+ * before they are due and records the expense when one is paid
+ */
+
+import { db, type Bill, type Expense } from '@/lib/database';
+import { preferences } from '@/lib/preferences';
+import { pwaService } from '@/lib/pwa';
+import { CurrencyUtils } from '@/lib/currency';
+import { trashManager } from '@/lib/trash';
+
+export type BillInput = Omit<Bill, 'id' | 'createdAt' | 'updatedAt' | 'isPaid' | 'paidAt' | 'expenseId' | 'remindedAt'>;
+
+export type BillStatus = 'paid' | 'overdue' | 'dueSoon' | 'upcoming';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Utility functions
+export const BillUtils = {
+  /**
+   * Today as UTC midnight, the way due dates are stored
+   */
+  getToday(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+  },
+
+  /**
+   * Whole days until a bill is due; negative once it is overdue
+   */
+  getDaysUntilDue(bill: Pick<Bill, 'dueDate'>, now: Date = new Date()): number {
+    return Math.round((bill.dueDate.getTime() - this.getToday(now).getTime()) / DAY_MS);
+  },
+
+  getStatus(bill: Pick<Bill, 'dueDate' | 'isPaid'>, reminderDays: number, now: Date = new Date()): BillStatus {
+    if (bill.isPaid) return 'paid';
+    const days = this.getDaysUntilDue(bill, now);
+    if (days < 0) return 'overdue';
+    if (days <= reminderDays) return 'dueSoon';
+    return 'upcoming';
+  },
+
+  /**
+   * Unpaid bills inside the reminder window that haven't been reminded
+   * about yet. Overdue bills still get their one reminder.
+   */
+  needsReminder(bill: Bill, reminderDays: number, now: Date = new Date()): boolean {
+    return !bill.isPaid && !bill.remindedAt && this.getDaysUntilDue(bill, now) <= reminderDays;
+  },
+
+  describeDue(bill: Pick<Bill, 'dueDate'>, now: Date = new Date()): string {
+    const days = this.getDaysUntilDue(bill, now);
+    if (days === 0) return 'due today';
+    if (days === 1) return 'due tomorrow';
+    if (days > 1) return `due in ${days} days`;
+    return days === -1 ? '1 day overdue' : `${-days} days overdue`;
+  },
+
+  /**
+   * The expense recorded when a bill is paid
+   */
+  toExpense(bill: Bill, paidOn: Date, amount: number = bill.amount): Omit<Expense, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'> {
+    return {
+      kind: 'expense',
+      amount,
+      currency: bill.currency,
+      description: bill.name,
+      category: bill.category,
+      paymentMethod: bill.paymentMethod,
+      date: paidOn,
+      notes: bill.notes,
+      accountId: bill.accountId,
+      payeeId: bill.payeeId,
+    };
+  },
+
+  validate(bill: Partial<BillInput>): void {
+    if (bill.name !== undefined && !bill.name.trim()) {
+      throw new Error('Please enter a bill name.');
+    }
+    if (bill.amount !== undefined && (!Number.isSafeInteger(bill.amount) || bill.amount <= 0)) {
+      throw new Error('Please enter a valid amount.');
+    }
+    if (bill.dueDate !== undefined && isNaN(bill.dueDate.getTime())) {
+      throw new Error('Please enter a due date.');
+    }
+  },
+};
+
+class BillManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+  private isChecking = false;
+
+  /**
+   * Bills by due date, soonest first
+   */
+  async getBills(includePaid = false): Promise<Bill[]> {
+    const bills = await db.bills.orderBy('dueDate').toArray();
+    return includePaid ? bills : bills.filter(bill => !bill.isPaid);
+  }
+
+  async createBill(bill: BillInput): Promise<number> {
+    BillUtils.validate(bill);
+
+    const id = await db.bills.add({
+      ...bill,
+      name: bill.name.trim(),
+      currency: bill.currency.toUpperCase(),
+      notes: bill.notes?.trim() || undefined,
+      isPaid: false,
+    } as Bill);
+
+    this.emit('billsChanged');
+    return id;
+  }
+
+  async updateBill(id: number, updates: Partial<BillInput>): Promise<void> {
+    BillUtils.validate(updates);
+
+    const bill = await db.bills.get(id);
+    if (!bill) {
+      throw new Error(`Bill ${id} not found`);
+    }
+
+    // A new due date deserves a new reminder
+    const isRescheduled = updates.dueDate !== undefined && updates.dueDate.getTime() !== bill.dueDate.getTime();
+    await db.bills.update(id, {
+      ...updates,
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(isRescheduled && { remindedAt: undefined }),
+    });
+    this.emit('billsChanged');
+  }
+
+  async deleteBill(id: number): Promise<void> {
+    await db.bills.delete(id);
+    this.emit('billsChanged');
+  }
+
+  /**
+   * Mark a bill paid and record the matching expense in one go. The amount
+   * can differ from the bill's when the final charge did.
+   */
+  async markPaid(id: number, options: { date?: Date; amount?: number } = {}): Promise<number> {
+    const expenseId = await db.transaction('rw', [db.bills, db.expenses, db.tags, db.syncQueue, db.revisions], async () => {
+      const bill = await db.bills.get(id);
+      if (!bill) {
+        throw new Error(`Bill ${id} not found`);
+      }
+      if (bill.isPaid) {
+        throw new Error('This bill is already paid.');
+      }
+
+      const paidOn = options.date ?? BillUtils.getToday();
+      const expenseId = await db.addExpense(BillUtils.toExpense(bill, paidOn, options.amount));
+      await db.bills.update(id, { isPaid: true, paidAt: paidOn, expenseId });
+      return expenseId;
+    });
+
+    this.emit('billsChanged');
+    this.emit('billPaid', { billId: id, expenseId });
+    return expenseId;
+  }
+
+  /**
+   * Undo a payment. The recorded expense is moved to the trash.
+   */
+  async markUnpaid(id: number): Promise<void> {
+    const wasPaid = await db.transaction('rw', [db.bills, db.expenses, db.trash, db.tags, db.syncQueue, db.revisions], async () => {
+      const bill = await db.bills.get(id);
+      if (!bill?.isPaid) return false;
+
+      await db.bills.update(id, { isPaid: false, paidAt: undefined, expenseId: undefined });
+      if (bill.expenseId !== undefined) {
+        await trashManager.moveToTrash(bill.expenseId);
+      }
+      return true;
+    });
+
+    if (wasPaid) {
+      this.emit('billsChanged');
+    }
+  }
+
+  /**
+   * Notify about bills coming due within the reminder window. Each bill is
+   * reminded about once per due date, and nothing is shown while
+   * notifications are turned off. Returns the number of reminders shown.
+   */
+  async checkReminders(now: Date = new Date()): Promise<number> {
+    if (this.isChecking) return 0;
+    this.isChecking = true;
+
+    try {
+      const [enabled, reminderDays] = await Promise.all([
+        preferences.getPreference('notificationsEnabled'),
+        preferences.getPreference('billReminderDays'),
+      ]);
+      if (!enabled) return 0;
+
+      const due = (await this.getBills()).filter(bill => BillUtils.needsReminder(bill, reminderDays, now));
+      let shown = 0;
+
+      for (const bill of due) {
+        const wasShown = await pwaService.showNotification(`${bill.name} ${BillUtils.describeDue(bill, now)}`, {
+          body: `${CurrencyUtils.format(bill.amount, bill.currency)} · ${bill.dueDate.toLocaleDateString(undefined, { timeZone: 'UTC' })}`,
+          tag: `bill-${bill.id}`,
+        });
+
+        // Without permission the reminder is left pending for the next check
+        if (wasShown) {
+          await db.bills.update(bill.id!, { remindedAt: now });
+          shown++;
+        }
+      }
+
+      if (due.length > 0) {
+        this.emit('billsDue', { bills: due });
+      }
+      return shown;
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const billManager = new BillManager();
+
+export default billManager;
@@ -0,0 +1,358 @@
+/**
+ * Category Budgets
+ * Tracks spending against per-category budgets by period, with optional
+ * rollover of unspent amounts and warning/overspend alerts
+ */
+
+import { db, type BudgetPeriod, type Category } from '@/lib/database';
+import { preferences } from '@/lib/preferences';
+import { SplitUtils } from '@/lib/splits';
+import { CategoryUtils } from '@/lib/categories';
+
+export type BudgetState = 'ok' | 'warning' | 'over';
+
+export interface BudgetStatus {
+  category: Category;
+  period: BudgetPeriod;
+  periodStart: Date;
+  periodEnd: Date; // Exclusive
+  budget: number;
+  rolledOver: number; // Unspent amount carried in from earlier periods
+  available: number; // budget + rolledOver
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  state: BudgetState;
+}
+
+export interface BudgetAlert {
+  status: BudgetStatus;
+  state: Exclude<BudgetState, 'ok'>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Upper bound on how far back rollover is counted (ten years of weeks)
+const MAX_ROLLOVER_PERIODS = 520;
+
+// Settings key recording which alerts were already raised this period
+const ALERT_STATE_KEY = 'budgetAlertState';
+
+// Utility functions
+export const BudgetUtils = {
+  /**
+   * Period containing a date. Computed in UTC to match how expense dates are
+   * stored; weeks start on Monday.
+   */
+  getPeriodRange(period: BudgetPeriod, date: Date): { start: Date; end: Date } {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+
+    switch (period) {
+      case 'weekly': {
+        const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+        const start = new Date(Date.UTC(year, month, date.getUTCDate() - daysSinceMonday));
+        return { start, end: new Date(start.getTime() + 7 * DAY_MS) };
+      }
+      case 'monthly':
+        return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+      case 'yearly':
+        return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+    }
+  },
+
+  /**
+   * Today as a UTC-midnight date, the way the expense form stores dates
+   */
+  today(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+  },
+
+  getState(percentUsed: number, warningThreshold: number, overspendThreshold: number): BudgetState {
+    if (percentUsed >= overspendThreshold) return 'over';
+    if (percentUsed >= warningThreshold) return 'warning';
+    return 'ok';
+  },
+
+  describePeriod(period: BudgetPeriod): string {
+    const labels: Record<BudgetPeriod, string> = {
+      weekly: 'this week',
+      monthly: 'this month',
+      yearly: 'this year',
+    };
+    return labels[period];
+  },
+};
+
+class BudgetManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  /**
+   * Set or clear a category's budget
+   */
+  async setBudget(
+    categoryId: number,
+    budget: { amount?: number; period?: BudgetPeriod; rollover?: boolean }
+  ): Promise<void> {
+    if (budget.amount !== undefined && (!Number.isSafeInteger(budget.amount) || budget.amount <= 0)) {
+      throw new Error('Please enter a valid budget amount.');
+    }
+
+    const category = await db.categories.get(categoryId);
+    if (!category) {
+      throw new Error(`Category ${categoryId} not found`);
+    }
+
+    const period = budget.period ?? category.budgetPeriod ?? 'monthly';
+    const periodChanged = period !== (category.budgetPeriod ?? 'monthly');
+
+    await db.updateCategory(categoryId, {
+      budget: budget.amount,
+      budgetPeriod: period,
+      budgetRollover: budget.rollover ?? category.budgetRollover ?? false,
+      // Rollover starts over whenever a budget is created or its period changes
+      budgetStartDate:
+        category.budget && category.budgetStartDate && !periodChanged
+          ? category.budgetStartDate
+          : BudgetUtils.getPeriodRange(period, BudgetUtils.today()).start,
+    });
+
+    this.emit('budgetsChanged');
+  }
+
+  /**
+   * Spending against every budgeted category for the period containing `date`
+   */
+  async getBudgetStatuses(date: Date = BudgetUtils.today()): Promise<BudgetStatus[]> {
+    const [categories, prefs] = await Promise.all([
+      db.categories.where('kind').equals('expense').toArray(),
+      preferences.getPreferences(),
+    ]);
+
+    const budgeted = categories.filter(category => category.budget && category.budget > 0);
+    if (budgeted.length === 0) return [];
+
+    // Load every period needed (including rollover history) at once. Monthly
+    // and yearly periods are whole months, which the rollups answer; weekly
+    // periods need spending day by day.
+    const ranges = budgeted.map(category => this.getRanges(category, date));
+    const weekly = budgeted.map(category => category.budgetPeriod === 'weekly');
+    const daySpan = this.getSpan(ranges.filter((_, i) => weekly[i]));
+    const monthSpan = this.getSpan(ranges.filter((_, i) => !weekly[i]));
+    const [dailySpending, monthlySpending] = await Promise.all([
+      daySpan ? this.getSpendingByDay(daySpan.start, daySpan.end) : new Map<string, Map<number, number>>(),
+      monthSpan ? this.getSpendingByMonth(monthSpan.start, monthSpan.end) : new Map<string, Map<number, number>>(),
+    ]);
+
+    return budgeted.map((category, i) => {
+      const periods = ranges[i]!;
+      const budget = category.budget!;
+      const spending = weekly[i] ? dailySpending : monthlySpending;
+
+      // A parent's budget covers spending in its subcategories
+      const descendantIds = CategoryUtils.getDescendantIds(category.id!, categories);
+      const names = [
+        category.name,
+        ...categories.filter(other => descendantIds.includes(other.id!)).map(other => other.name),
+      ];
+
+      // Unspent budget carries forward; overspending doesn't reduce later periods
+      let rolledOver = 0;
+      if (category.budgetRollover) {
+        periods.slice(0, -1).forEach(range => {
+          const spent = this.sumSpending(spending, names, range.start, range.end);
+          rolledOver = Math.max(0, rolledOver + budget - spent);
+        });
+      }
+
+      const current = periods[periods.length - 1]!;
+      const spent = this.sumSpending(spending, names, current.start, current.end);
+      const available = budget + rolledOver;
+      const percentUsed = available > 0 ? (spent / available) * 100 : 0;
+
+      return {
+        category,
+        period: category.budgetPeriod ?? 'monthly',
+        periodStart: current.start,
+        periodEnd: current.end,
+        budget,
+        rolledOver,
+        available,
+        spent,
+        remaining: available - spent,
+        percentUsed,
+        state: BudgetUtils.getState(percentUsed, prefs.budgetWarningThreshold, prefs.budgetOverspendThreshold),
+      };
+    });
+  }
+
+  /**
+   * Raise 'budgetWarning' and 'budgetExceeded' events for budgets that crossed
+   * a threshold. Each alert is raised once per category per period. Alerts
+   * are skipped when budget alerts are turned off in preferences.
+   */
+  async checkBudgets(date: Date = BudgetUtils.today()): Promise<BudgetAlert[]> {
+    try {
+      const statuses = await this.getBudgetStatuses(date);
+      this.emit('budgetsChecked', statuses);
+
+      if (!(await preferences.getPreference('budgetAlerts'))) {
+        return [];
+      }
+
+      const previous: Record<string, BudgetState> = (await db.getSetting(ALERT_STATE_KEY)) || {};
+      const next: Record<string, BudgetState> = {};
+      const alerts: BudgetAlert[] = [];
+
+      statuses.forEach(status => {
+        const key = `${status.category.id}:${status.periodStart.toISOString()}`;
+        const raised = previous[key] ?? 'ok';
+        next[key] = raised;
+
+        if (status.state === 'ok' || status.state === raised || raised === 'over') return;
+
+        next[key] = status.state;
+        alerts.push({ status, state: status.state });
+      });
+
+      // Only current periods are kept, so the record doesn't grow over time
+      await db.setSetting(ALERT_STATE_KEY, next);
+
+      alerts.forEach(alert => {
+        this.emit(alert.state === 'over' ? 'budgetExceeded' : 'budgetWarning', alert.status);
+      });
+
+      return alerts;
+    } catch (error) {
+      console.error('Failed to check budgets:', error);
+      return [];
+    }
+  }
+
+  // Helper methods
+
+  private getRanges(category: Category, date: Date): Array<{ start: Date; end: Date }> {
+    const period = category.budgetPeriod ?? 'monthly';
+    const current = BudgetUtils.getPeriodRange(period, date);
+    if (!category.budgetRollover || !category.budgetStartDate) {
+      return [current];
+    }
+
+    // Walk back to the period the budget started in
+    const ranges = [current];
+    let start = current.start;
+    while (start > category.budgetStartDate && ranges.length <= MAX_ROLLOVER_PERIODS) {
+      const previous = BudgetUtils.getPeriodRange(period, new Date(start.getTime() - DAY_MS));
+      ranges.unshift(previous);
+      start = previous.start;
+    }
+    return ranges;
+  }
+
+  /**
+   * Spending per category per day in the base currency. Expenses in a
+   * currency without a rate are left out, as in the dashboard stats.
+   */
+  private async getSpendingByDay(start: Date, end: Date): Promise<Map<string, Map<number, number>>> {
+    const [expenses, rateTable, base] = await Promise.all([
+      db.expenses.where('date').between(start, end, true, false).toArray(),
+      db.getExchangeRateTable(),
+      db.getBaseCurrency(),
+    ]);
+
+    const spending = new Map<string, Map<number, number>>();
+    expenses
+      .filter(expense => expense.kind === 'expense')
+      .forEach(expense => {
+        const baseAmount = rateTable.convert(expense.amount, expense.currency || base, base, expense.date);
+        if (baseAmount === null) return;
+
+        const day = expense.date.getTime();
+        SplitUtils.getAllocations(expense, baseAmount).forEach(allocation => {
+          const byDay = spending.get(allocation.category) ?? new Map<number, number>();
+          byDay.set(day, (byDay.get(day) ?? 0) + allocation.amount);
+          spending.set(allocation.category, byDay);
+        });
+      });
+
+    return spending;
+  }
+
+  /**
+   * Spending per category in the base currency, keyed by the start of each
+   * month, read from the monthly rollups. Only valid for ranges and periods
+   * made of whole months.
+   */
+  private async getSpendingByMonth(start: Date, end: Date): Promise<Map<string, Map<number, number>>> {
+    const [rateTable, base] = await Promise.all([db.getExchangeRateTable(), db.getBaseCurrency()]);
+    const entries = await db.getRollupEntries(start, end, base, rateTable);
+
+    const spending = new Map<string, Map<number, number>>();
+    entries
+      .filter(({ row }) => row.kind === 'expense' && row.dimension === 'category')
+      .forEach(({ row, date }) => {
+        const baseAmount = rateTable.convert(row.amount, row.currency || base, base, date);
+        if (baseAmount === null) return;
+
+        const day = date.getTime();
+        const byDay = spending.get(row.key) ?? new Map<number, number>();
+        byDay.set(day, (byDay.get(day) ?? 0) + baseAmount);
+        spending.set(row.key, byDay);
+      });
+
+    return spending;
+  }
+
+  /**
+   * Earliest start and latest end across categories' period lists
+   */
+  private getSpan(ranges: Array<Array<{ start: Date; end: Date }>>): { start: Date; end: Date } | null {
+    if (ranges.length === 0) return null;
+
+    return {
+      start: new Date(Math.min(...ranges.map(periods => periods[0]!.start.getTime()))),
+      end: new Date(Math.max(...ranges.map(periods => periods[periods.length - 1]!.end.getTime()))),
+    };
+  }
+
+  private sumSpending(spending: Map<string, Map<number, number>>, categories: string[], start: Date, end: Date): number {
+    let total = 0;
+    categories.forEach(category => {
+      spending.get(category)?.forEach((amount, day) => {
+        if (day >= start.getTime() && day < end.getTime()) {
+          total += amount;
+        }
+      });
+    });
+    return total;
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const budgetManager = new BudgetManager();
+
+export default budgetManager;
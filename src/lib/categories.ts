@@ -0,0 +1,210 @@
+/**
+ * Category Hierarchy
+ * Helpers for parent/child categories of any depth
+ */
+
+import type { Category } from '@/lib/database';
+
+export interface CategoryNode {
+  category: Category;
+  depth: number;
+  path: string[]; // Names from the root down to this category
+}
+
+// Utility functions
+export const CategoryUtils = {
+  /**
+   * Categories in tree order (each parent followed by its children), with
+   * their depth and path. Categories whose parent is missing are treated as roots.
+   */
+  flattenTree(categories: Category[]): CategoryNode[] {
+    const ids = new Set(categories.map(category => category.id));
+    const children = new Map<number | undefined, Category[]>();
+    categories.forEach(category => {
+      const parentId = category.parentId !== undefined && ids.has(category.parentId) ? category.parentId : undefined;
+      children.set(parentId, [...(children.get(parentId) ?? []), category]);
+    });
+
+    const nodes: CategoryNode[] = [];
+    const visited = new Set<number | undefined>();
+    const visit = (parentId: number | undefined, depth: number, path: string[]) => {
+      (children.get(parentId) ?? [])
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .forEach(category => {
+          // Guard against cycles in corrupted data
+          if (visited.has(category.id)) return;
+          visited.add(category.id);
+
+          const node = { category, depth, path: [...path, category.name] };
+          nodes.push(node);
+          visit(category.id, depth + 1, node.path);
+        });
+    };
+    visit(undefined, 0, []);
+
+    return nodes;
+  },
+
+  /**
+   * Names of a category's ancestors, nearest first
+   */
+  getAncestorNames(name: string, categories: Category[]): string[] {
+    const byId = new Map(categories.map(category => [category.id, category]));
+    const ancestors: string[] = [];
+    let current = categories.find(category => category.name === name);
+
+    while (current?.parentId !== undefined) {
+      const parent = byId.get(current.parentId);
+      if (!parent || ancestors.includes(parent.name) || parent.name === name) break;
+      ancestors.push(parent.name);
+      current = parent;
+    }
+
+    return ancestors;
+  },
+
+  /**
+   * Ids of every category below a category
+   */
+  getDescendantIds(id: number, categories: Category[]): number[] {
+    const descendants: number[] = [];
+    const queue = [id];
+
+    while (queue.length > 0) {
+      const parentId = queue.shift()!;
+      categories.forEach(category => {
+        if (category.parentId === parentId && category.id !== undefined && !descendants.includes(category.id) && category.id !== id) {
+          descendants.push(category.id);
+          queue.push(category.id);
+        }
+      });
+    }
+
+    return descendants;
+  },
+
+  /**
+   * "Food > Groceries" style label
+   */
+  getPathLabel(name: string, categories: Category[]): string {
+    return [...this.getAncestorNames(name, categories).reverse(), name].join(' > ');
+  },
+
+  /**
+   * Built-in categories created with a new database
+   */
+  getDefaultCategories(): Omit<Category, 'id'>[] {
+    return [
+      {
+        name: 'Food & Dining',
+        kind: 'expense',
+        color: '#ef4444',
+        icon: '🍽️',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Transportation',
+        kind: 'expense',
+        color: '#3b82f6',
+        icon: '🚗',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Shopping',
+        kind: 'expense',
+        color: '#8b5cf6',
+        icon: '🛍️',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Entertainment',
+        kind: 'expense',
+        color: '#f59e0b',
+        icon: '🎬',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Healthcare',
+        kind: 'expense',
+        color: '#10b981',
+        icon: '🏥',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Bills & Utilities',
+        kind: 'expense',
+        color: '#6b7280',
+        icon: '📄',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Other',
+        kind: 'expense',
+        color: '#64748b',
+        icon: '📦',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Salary',
+        kind: 'income',
+        color: '#22c55e',
+        icon: '💼',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Freelance',
+        kind: 'income',
+        color: '#14b8a6',
+        icon: '🧑‍💻',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Investments',
+        kind: 'income',
+        color: '#0ea5e9',
+        icon: '📈',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Gifts',
+        kind: 'income',
+        color: '#ec4899',
+        icon: '🎁',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+      {
+        name: 'Other Income',
+        kind: 'income',
+        color: '#84cc16',
+        icon: '💵',
+        isDefault: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    ];
+  },
+};
+
+export default CategoryUtils;
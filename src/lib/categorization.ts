@@ -0,0 +1,344 @@
+/**
+ * Auto-categorization Rules
+ * Ordered, user-defined rules that set the category, tags, notes or
+ * reimbursable flag of expenses matching their conditions, on entry, on
+ * import and over existing history
+ */
+
+import {
+  db,
+  type CategorizationRule,
+  type Expense,
+  type FieldChange,
+  type RuleAction,
+  type RuleCondition,
+} from '@/lib/database';
+import { RevisionUtils } from '@/lib/revisions';
+import { TagUtils } from '@/lib/tags';
+
+export type RuleInput = Omit<CategorizationRule, 'id' | 'order' | 'createdAt' | 'updatedAt'>;
+
+// Fields rule actions can change
+export const RULE_TARGET_FIELDS = ['category', 'tags', 'notes', 'reimbursable'] as const;
+
+type RuleTarget = Pick<Expense, 'kind' | 'description' | 'notes' | 'amount' | 'currency' | 'paymentMethod' | 'date' | 'category' | 'tags' | 'splits' | 'reimbursable'>;
+
+export interface RuleResult {
+  updates: Partial<Pick<Expense, (typeof RULE_TARGET_FIELDS)[number]>>;
+  ruleIds: number[]; // Rules that matched, in the order they ran
+}
+
+// What running the rules over an existing expense would change
+export interface RulePreview {
+  expense: Expense;
+  updates: RuleResult['updates'];
+  changes: FieldChange[];
+  ruleIds: number[];
+}
+
+// Compiled regex conditions, keyed by the condition object
+const compiledPatterns = new WeakMap<RuleCondition, RegExp | null>();
+
+// Utility functions
+export const CategorizationUtils = {
+  matchesCondition(expense: RuleTarget, condition: RuleCondition): boolean {
+    switch (condition.type) {
+      case 'text': {
+        const text = (expense[condition.field] ?? '').toLowerCase();
+        const value = condition.value.toLowerCase();
+        if (condition.operator === 'equals') return text.trim() === value.trim();
+        if (condition.operator === 'startsWith') return text.trimStart().startsWith(value);
+        return text.includes(value);
+      }
+      case 'regex':
+        return this.getPattern(condition)?.test(expense[condition.field] ?? '') ?? false;
+      case 'amount': {
+        if (expense.currency !== condition.currency) return false;
+        const { amount } = expense;
+        if (condition.operator === 'lt') return amount < condition.value;
+        if (condition.operator === 'lte') return amount <= condition.value;
+        if (condition.operator === 'gte') return amount >= condition.value;
+        if (condition.operator === 'gt') return amount > condition.value;
+        return amount === condition.value;
+      }
+      case 'paymentMethod':
+        return condition.values.includes(expense.paymentMethod);
+      case 'weekday':
+        // Expense dates are stored as UTC midnight
+        return condition.days.includes(expense.date.getUTCDay());
+    }
+  },
+
+  /**
+   * A regex condition's compiled pattern, or null when it doesn't compile.
+   * Rules are read afresh for every run, so each compiles once per run.
+   */
+  getPattern(condition: Extract<RuleCondition, { type: 'regex' }>): RegExp | null {
+    if (!compiledPatterns.has(condition)) {
+      try {
+        compiledPatterns.set(condition, new RegExp(condition.pattern, 'i'));
+      } catch {
+        compiledPatterns.set(condition, null);
+      }
+    }
+    return compiledPatterns.get(condition)!;
+  },
+
+  /**
+   * Whether a rule applies to an expense. Conditions are checked in order and
+   * stop at the first one that settles it. Transfers are never categorized.
+   */
+  matches(rule: CategorizationRule, expense: RuleTarget): boolean {
+    if (!rule.enabled || expense.kind === 'transfer' || rule.conditions.length === 0) return false;
+
+    return rule.match === 'any'
+      ? rule.conditions.some(condition => this.matchesCondition(expense, condition))
+      : rule.conditions.every(condition => this.matchesCondition(expense, condition));
+  },
+
+  applyAction(expense: RuleTarget, action: RuleAction): void {
+    switch (action.type) {
+      case 'setCategory':
+        // Split expenses keep the categories of their lines
+        if (!expense.splits?.length) expense.category = action.category;
+        break;
+      case 'addTags':
+        expense.tags = TagUtils.normalizeList([...(expense.tags ?? []), ...action.tags]);
+        break;
+      case 'setNotes':
+        expense.notes = action.notes.trim() || undefined;
+        break;
+      case 'markReimbursable':
+        expense.reimbursable = true;
+        break;
+    }
+  },
+
+  /**
+   * Run rules over an expense in order. Later rules override the category and
+   * notes set by earlier ones; tags add up. Returns only the fields that change.
+   */
+  apply(rules: CategorizationRule[], expense: RuleTarget): RuleResult {
+    const working: RuleTarget = { ...expense };
+    const ruleIds: number[] = [];
+
+    for (const rule of [...rules].sort((a, b) => a.order - b.order)) {
+      if (!this.matches(rule, working)) continue;
+
+      rule.actions.forEach(action => this.applyAction(working, action));
+      ruleIds.push(rule.id!);
+      if (rule.stopProcessing) break;
+    }
+
+    const updates: RuleResult['updates'] = {};
+    RULE_TARGET_FIELDS.forEach(field => {
+      if (!RevisionUtils.isEqual(expense[field], working[field])) {
+        (updates as Record<string, unknown>)[field] = working[field];
+      }
+    });
+
+    return { updates, ruleIds };
+  },
+
+  /**
+   * Check a rule can be saved, throwing a message for the user when not
+   */
+  validate(rule: RuleInput): void {
+    if (!rule.name.trim()) {
+      throw new Error('Please enter a rule name.');
+    }
+    if (rule.conditions.length === 0) {
+      throw new Error('Add at least one condition.');
+    }
+    if (rule.actions.length === 0) {
+      throw new Error('Add at least one action.');
+    }
+
+    rule.conditions.forEach(condition => {
+      if (condition.type === 'text' && !condition.value.trim()) {
+        throw new Error('Text conditions need some text to look for.');
+      }
+      if (condition.type === 'regex') {
+        try {
+          new RegExp(condition.pattern, 'i');
+        } catch {
+          throw new Error(`"${condition.pattern}" is not a valid regular expression.`);
+        }
+      }
+      if (condition.type === 'amount' && !Number.isSafeInteger(condition.value)) {
+        throw new Error('Please enter a valid amount.');
+      }
+      if (condition.type === 'paymentMethod' && condition.values.length === 0) {
+        throw new Error('Choose at least one payment method.');
+      }
+      if (condition.type === 'weekday' && condition.days.length === 0) {
+        throw new Error('Choose at least one weekday.');
+      }
+    });
+
+    rule.actions.forEach(action => {
+      if (action.type === 'setCategory' && !action.category) {
+        throw new Error('Choose a category to set.');
+      }
+      if (action.type === 'addTags' && TagUtils.normalizeList(action.tags).length === 0) {
+        throw new Error('Enter at least one tag to add.');
+      }
+    });
+  },
+};
+
+class CategorizationManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  async getRules(): Promise<CategorizationRule[]> {
+    return await db.categorizationRules.orderBy('order').toArray();
+  }
+
+  async createRule(rule: RuleInput): Promise<number> {
+    CategorizationUtils.validate(rule);
+
+    const last = await db.categorizationRules.orderBy('order').last();
+    const id = await db.categorizationRules.add({
+      ...rule,
+      name: rule.name.trim(),
+      order: (last?.order ?? -1) + 1,
+    } as CategorizationRule);
+
+    this.emit('rulesChanged');
+    return id;
+  }
+
+  async updateRule(id: number, updates: Partial<RuleInput>): Promise<void> {
+    const rule = await db.categorizationRules.get(id);
+    if (!rule) {
+      throw new Error('Rule not found');
+    }
+
+    CategorizationUtils.validate({ ...rule, ...updates });
+    await db.categorizationRules.update(id, updates);
+    this.emit('rulesChanged');
+  }
+
+  async deleteRule(id: number): Promise<void> {
+    await db.categorizationRules.delete(id);
+    this.emit('rulesChanged');
+  }
+
+  /**
+   * Swap a rule with its neighbour, -1 to run it earlier and 1 later
+   */
+  async moveRule(id: number, direction: -1 | 1): Promise<void> {
+    await db.transaction('rw', db.categorizationRules, async () => {
+      const rules = await db.categorizationRules.orderBy('order').toArray();
+      const index = rules.findIndex(rule => rule.id === id);
+      const neighbour = rules[index + direction];
+      if (index < 0 || !neighbour) return;
+
+      // Renumber so rules with equal orders still end up distinct
+      const reordered = [...rules];
+      reordered[index] = neighbour;
+      reordered[index + direction] = rules[index]!;
+      for (const [order, rule] of reordered.entries()) {
+        if (rule.order !== order) await db.categorizationRules.update(rule.id!, { order });
+      }
+    });
+
+    this.emit('rulesChanged');
+  }
+
+  /**
+   * Apply the enabled rules to an expense about to be created, whether typed
+   * in or imported. Pass `rules` to use them instead of the stored ones.
+   */
+  async prepareExpense<T extends RuleTarget>(expense: T, rules?: CategorizationRule[]): Promise<T> {
+    const { updates } = CategorizationUtils.apply(rules ?? (await this.getRules()), expense);
+    return { ...expense, ...updates };
+  }
+
+  /**
+   * Run imported or restored expenses through the rules, as on manual entry
+   */
+  async prepareImported<T extends RuleTarget>(expenses: T[], rules?: CategorizationRule[]): Promise<T[]> {
+    const active = rules ?? (await this.getRules());
+    return await Promise.all(expenses.map(expense => this.prepareExpense(expense, active)));
+  }
+
+  /**
+   * What running the rules over existing expenses would change, without
+   * changing anything. Limit to some rules by id, or run all enabled ones.
+   */
+  async previewHistory(ruleIds?: number[]): Promise<RulePreview[]> {
+    const rules = (await this.getRules()).filter(rule => !ruleIds || ruleIds.includes(rule.id!));
+    if (rules.length === 0) return [];
+
+    const previews: RulePreview[] = [];
+    await db.expenses.orderBy('date').reverse().each(expense => {
+      const result = CategorizationUtils.apply(rules, expense);
+      if (result.ruleIds.length === 0 || Object.keys(result.updates).length === 0) return;
+
+      previews.push({
+        expense,
+        updates: result.updates,
+        changes: RevisionUtils.diff(
+          Object.fromEntries(Object.keys(result.updates).map(field => [field, expense[field as keyof Expense]])),
+          result.updates
+        ),
+        ruleIds: result.ruleIds,
+      });
+    });
+
+    return previews;
+  }
+
+  /**
+   * Apply previewed changes. Expenses edited or deleted since the preview are
+   * left alone. Returns how many expenses changed.
+   */
+  async applyToHistory(previews: RulePreview[]): Promise<number> {
+    let changed = 0;
+
+    await db.transaction('rw', [db.expenses, db.tags, db.syncQueue, db.revisions], async () => {
+      for (const preview of previews) {
+        const expense = await db.expenses.get(preview.expense.id!);
+        if (!expense || expense.updatedAt.getTime() !== preview.expense.updatedAt.getTime()) continue;
+
+        await db.updateExpense(expense.id!, preview.updates, { source: 'rule' });
+        changed++;
+      }
+    });
+
+    if (changed > 0) {
+      this.emit('expensesCategorized', changed);
+    }
+    return changed;
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const categorizationManager = new CategorizationManager();
+
+export default categorizationManager;
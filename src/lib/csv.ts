@@ -0,0 +1,44 @@
+/**
+ * CSV Export
+ * Builds CSV files that open cleanly in spreadsheet apps and hands them to
+ * the browser as downloads
+ */
+
+// Utility functions
+export const CsvUtils = {
+  /**
+   * Free text for a cell. Text starting like a formula is prefixed so
+   * spreadsheets don't evaluate it.
+   */
+  text(text: string): string {
+    return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  },
+
+  cell(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  },
+
+  /**
+   * A header row and data rows as CSV text with CRLF line endings
+   */
+  build(headers: string[], rows: string[][]): string {
+    return [headers, ...rows].map(row => row.map(cell => this.cell(cell)).join(',')).join('\r\n') + '\r\n';
+  },
+
+  download(content: string, fileName: string): void {
+    // A byte order mark lets spreadsheet apps read the file as UTF-8
+    const blob = new Blob(['\uFEFF', content], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+
+    URL.revokeObjectURL(url);
+  },
+};
+
+export default CsvUtils;
@@ -0,0 +1,120 @@
+/**
+ * Currency Conversion
+ * Resolves dated exchange rates from the local rate table and converts amounts
+ * into the user's base currency
+ */
+
+import type { ExchangeRate } from '@/lib/database';
+import { MoneyUtils } from '@/lib/money';
+
+/**
+ * In-memory lookup over a set of dated exchange rates.
+ * A rate of `r` for `base -> quote` means 1 unit of `base` buys `r` units of `quote`.
+ */
+export class ExchangeRateTable {
+  private pairs = new Map<string, ExchangeRate[]>();
+
+  constructor(rates: ExchangeRate[]) {
+    rates.forEach(rate => {
+      const key = this.pairKey(rate.base, rate.quote);
+      const list = this.pairs.get(key) ?? [];
+      list.push(rate);
+      this.pairs.set(key, list);
+    });
+
+    // Sort each pair by date so lookups can binary search
+    this.pairs.forEach(list => list.sort((a, b) => a.date.getTime() - b.date.getTime()));
+  }
+
+  /**
+   * Get the rate that applied on the given date, using the inverse pair when
+   * only the opposite direction is recorded. Returns null when no rate exists
+   * on or before the date.
+   */
+  getRate(from: string, to: string, date: Date): number | null {
+    if (from === to) return 1;
+
+    const direct = this.findRate(from, to, date);
+    if (direct !== null) return direct;
+
+    const inverse = this.findRate(to, from, date);
+    if (inverse !== null && inverse !== 0) return 1 / inverse;
+
+    return null;
+  }
+
+  /**
+   * Convert an amount in minor units between currencies, rounded to the
+   * target's minor unit, or null when no rate is available
+   */
+  convert(amount: number, from: string, to: string, date: Date): number | null {
+    const rate = this.getRate(from, to, date);
+    return rate === null ? null : MoneyUtils.convert({ amount, currency: from }, to, rate).amount;
+  }
+
+  /**
+   * Whether a rate for the pair, in either direction, takes effect strictly
+   * between two dates, so one conversion can't cover the whole span
+   */
+  hasRateChange(from: string, to: string, start: Date, end: Date): boolean {
+    if (from === to) return false;
+
+    return [this.pairKey(from, to), this.pairKey(to, from)].some(key =>
+      (this.pairs.get(key) ?? []).some(rate => rate.date > start && rate.date < end)
+    );
+  }
+
+  private findRate(base: string, quote: string, date: Date): number | null {
+    const list = this.pairs.get(this.pairKey(base, quote));
+    if (!list || list.length === 0) return null;
+
+    // Latest rate dated on or before the target date
+    const target = date.getTime();
+    let low = 0;
+    let high = list.length - 1;
+    let match: ExchangeRate | undefined;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const candidate = list[mid]!;
+      if (candidate.date.getTime() <= target) {
+        match = candidate;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return match ? match.rate : null;
+  }
+
+  private pairKey(base: string, quote: string): string {
+    return `${base.toUpperCase()}:${quote.toUpperCase()}`;
+  }
+}
+
+// Utility functions
+export const CurrencyUtils = {
+  /**
+   * Check that a code looks like an ISO 4217 currency code
+   */
+  isValidCurrencyCode(code: string): boolean {
+    return /^[A-Z]{3}$/.test(code);
+  },
+
+  /**
+   * Normalize user input to an upper-case currency code
+   */
+  normalizeCurrencyCode(code: string): string {
+    return code.trim().toUpperCase();
+  },
+
+  /**
+   * Format an amount in minor units in the given currency
+   */
+  format(amount: number, currency: string, locale = 'en-US'): string {
+    return MoneyUtils.format({ amount, currency }, locale);
+  },
+};
+
+export default CurrencyUtils;
@@ -3,12 +3,55 @@
  * Handles expenses, categories, and media storage with full offline support
  */
 
-import Dexie, { Table } from 'dexie';
+import Dexie, { Table, type PromiseExtended, type Transaction } from 'dexie';
+import { ExchangeRateTable } from '@/lib/currency';
+import { SplitUtils } from '@/lib/splits';
+import { SharingUtils } from '@/lib/sharing';
+import {
+  SearchUtils,
+  SEARCH_FIELD_CODES,
+  SEARCH_FIELD_WEIGHTS,
+  SEARCH_MATCH_WEIGHTS,
+  type SearchField,
+  type TermMatch,
+} from '@/lib/search';
+import { TagUtils } from '@/lib/tags';
+import { CategoryUtils } from '@/lib/categories';
+import { RevisionUtils } from '@/lib/revisions';
+import { DATABASE_MIGRATIONS, DATABASE_NAME, migrationManager } from '@/lib/migrations';
+import { ExpenseQuery } from '@/lib/query';
+import { RollupUtils, ROLLUP_SOURCE_FIELDS } from '@/lib/rollups';
 
 // Database schema interfaces
+export interface ExpenseSplit {
+  amount: number; // Minor units of the expense currency
+  category: string;
+  notes?: string;
+}
+
+export type ShareMethod = 'equal' | 'percentage' | 'exact';
+
+// One person's part of a shared expense
+export interface ExpenseShare {
+  personId?: number; // Undefined for you
+  amount: number; // Minor units of the expense currency, resolved from the method
+  percentage?: number; // As entered, for the percentage method
+}
+
+// How an expense is divided between the people it was shared with
+export interface ExpenseSharing {
+  method: ShareMethod;
+  paidBy?: number; // Person who paid; undefined for you
+  shares: ExpenseShare[];
+}
+
+export type TransactionKind = 'expense' | 'income' | 'transfer';
+
 export interface Expense {
   id?: number;
-  amount: number;
+  kind: TransactionKind;
+  amount: number; // Integer minor units of `currency`, see MoneyUtils
+  currency: string; // ISO 4217 code
   description: string;
   category: string;
   paymentMethod: 'cash' | 'card' | 'bank_transfer' | 'digital_wallet' | 'other';
@@ -20,6 +63,7 @@ export interface Expense {
     latitude?: number;
     longitude?: number;
   };
+  // First of the expense's attachments; the full list is in mediaFiles by expenseId
   receipt?: {
     mediaId: string;
     fileName: string;
@@ -30,19 +74,289 @@ export interface Expense {
   updatedAt: Date;
   syncStatus: 'synced' | 'pending' | 'failed';
   cloudId?: string; // For future cloud sync
+  recurringRuleId?: number; // Set when generated by a recurring rule
+  recurrenceDate?: Date; // Scheduled occurrence this expense fulfils
+  splits?: ExpenseSplit[]; // Lines must add up to amount
+  splitCategories?: string[]; // Derived from splits for indexing
+  accountId?: number; // Account paid from (or received into, for income)
+  toAccountId?: number; // Destination account for transfers
+  toAmount?: number; // Amount received in the destination account's minor units, when the accounts use different currencies
+  searchTerms?: string[]; // Derived from the text fields for full-text search
+  payeeId?: number; // Merchant the description was resolved to
+  reimbursable?: boolean; // To be paid back, e.g. by an employer
+  sharing?: ExpenseSharing; // Split with other people
+  sharedWith?: number[]; // Derived from sharing for indexing: everyone involved, SELF_ID for you
+  projectId?: number; // Trip or project the expense belongs to
+  taxDeductible?: boolean; // Claimed as an itemized deduction
+  taxCategory?: string; // Deduction it is claimed under, see TAX_CATEGORIES
+}
+
+// A deleted expense, kept under its original id until restored or purged
+export interface TrashedExpense extends Expense {
+  deletedAt: Date;
+}
+
+export type RevisionOperation = 'create' | 'update' | 'delete' | 'restore';
+
+// What made a change: the user, an automation, or undo/redo replaying history
+export type RevisionSource = 'user' | 'recurring' | 'rule' | 'system' | 'undo' | 'redo';
+
+export interface FieldChange {
+  field: string;
+  before?: any;
+  after?: any;
+}
+
+// One entry in the append-only log of expense changes
+export interface ExpenseRevision {
+  id?: number;
+  expenseId: number;
+  operation: RevisionOperation;
+  source: RevisionSource;
+  changes: FieldChange[]; // Every field for creates and deletes
+  timestamp: Date;
+}
+
+export interface RevisionOptions {
+  source?: RevisionSource; // Defaults to 'user'
+}
+
+export type RollupDimension = 'total' | 'category' | 'paymentMethod';
+
+// Running totals for one month, kind and currency, maintained by the expense hooks
+export interface MonthlyRollup {
+  id?: number;
+  month: string; // "YYYY-MM", UTC
+  kind: 'expense' | 'income';
+  currency: string; // ISO 4217 code
+  dimension: RollupDimension;
+  key: string; // Category name or payment method; empty for totals
+  amount: number; // Minor units of `currency`
+  count: number; // Expenses counted
+}
+
+export interface RollupVerification {
+  ok: boolean;
+  checked: number; // Rollup rows compared
+  mismatches: Array<{
+    row: Omit<MonthlyRollup, 'id' | 'amount' | 'count'>;
+    expected: { amount: number; count: number };
+    actual: { amount: number; count: number };
+  }>;
+}
+
+export type DuplicateReason = 'amount' | 'date' | 'description' | 'receipt';
+
+// Two expenses that look like the same purchase, stored lower id first
+export interface DuplicatePair {
+  id?: number;
+  expenseId: number;
+  otherId: number;
+  score: number; // 0 to 1
+  reasons: DuplicateReason[];
+  status: 'pending' | 'dismissed';
+  detectedAt: Date;
+}
+
+// A merchant or other party, recognized from descriptions by its aliases
+export interface Payee {
+  id?: number;
+  name: string;
+  aliases: string[]; // Match keys, name included; see PayeeUtils.getMatchKey
+  defaultCategory?: string; // Prefilled when an expense is matched to the payee
+  defaultPaymentMethod?: Expense['paymentMethod'];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RuleTextField = 'description' | 'notes';
+
+// Tests a categorization rule makes on an expense, case-insensitively for text
+export type RuleCondition =
+  | { type: 'text'; field: RuleTextField; operator: 'contains' | 'equals' | 'startsWith'; value: string }
+  | { type: 'regex'; field: RuleTextField; pattern: string }
+  | { type: 'amount'; operator: 'lt' | 'lte' | 'eq' | 'gte' | 'gt'; value: number; currency: string } // Minor units; other currencies never match
+  | { type: 'paymentMethod'; values: Expense['paymentMethod'][] }
+  | { type: 'weekday'; days: number[] }; // 0 is Sunday
+
+export type RuleAction =
+  | { type: 'setCategory'; category: string }
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'setNotes'; notes: string }
+  | { type: 'markReimbursable' };
+
+// User-defined rule applied to new and existing expenses, lowest order first
+export interface CategorizationRule {
+  id?: number;
+  name: string;
+  order: number;
+  match: 'all' | 'any'; // Whether every condition or just one must hold
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  stopProcessing: boolean; // Skip the remaining rules once this one matches
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Someone expenses are shared with
+export interface Person {
+  id?: number;
+  name: string;
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A payment from one person to another that settles what was owed
+export interface Settlement {
+  id?: number;
+  fromPersonId?: number; // Undefined for you
+  toPersonId?: number; // Undefined for you
+  amount: number; // Minor units of `currency`
+  currency: string; // ISO 4217 code
+  date: Date;
+  notes?: string;
+  createdAt: Date;
+}
+
+// A trip or project grouping expenses, with its own budget and currency
+export interface Project {
+  id?: number;
+  name: string;
+  startDate?: Date; // Inclusive, UTC midnight
+  endDate?: Date; // Inclusive, UTC midnight
+  currency: string; // ISO 4217 code; totals are reported in it and new expenses default to it
+  budget?: number; // Minor units of `currency`
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Something being saved toward, such as a holiday or a new laptop
+export interface Goal {
+  id?: number;
+  name: string;
+  icon: string;
+  targetAmount: number; // Minor units of `currency`
+  currency: string; // ISO 4217 code
+  deadline?: Date; // UTC midnight
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Money put toward a goal; negative amounts are withdrawals
+export interface GoalContribution {
+  id?: number;
+  goalId: number;
+  amount: number; // Minor units of the goal's currency
+  date: Date; // UTC midnight
+  notes?: string;
+  createdAt: Date;
+}
+
+// An upcoming bill; paying it records the matching expense
+export interface Bill {
+  id?: number;
+  name: string;
+  amount: number; // Minor units of `currency`
+  currency: string; // ISO 4217 code
+  dueDate: Date; // UTC midnight
+  category: string;
+  paymentMethod: Expense['paymentMethod'];
+  accountId?: number;
+  payeeId?: number;
+  notes?: string;
+  isPaid: boolean;
+  paidAt?: Date;
+  expenseId?: number; // Expense recorded when the bill was paid
+  remindedAt?: Date; // When the reminder for the current due date was shown
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type DistanceUnit = 'km' | 'mi';
+
+export interface Vehicle {
+  id?: number;
+  name: string;
+  unit: DistanceUnit; // What its odometer reads in
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
+// Reimbursement per distance unit from a date on, for one vehicle or all of them
+export interface MileageRate {
+  id?: number;
+  rate: number; // Minor units of `currency` per `unit`; may be fractional, e.g. 72.5
+  currency: string; // ISO 4217 code
+  unit: DistanceUnit;
+  effectiveFrom: Date; // UTC midnight
+  vehicleId?: number; // Applies to every vehicle when unset
+  createdAt: Date;
+}
+
+// One business trip, recorded as a reimbursable expense of distance × rate
+export interface MileageTrip {
+  id?: number;
+  date: Date; // UTC midnight
+  vehicleId: number;
+  purpose: string;
+  startOdometer?: number;
+  endOdometer?: number;
+  distance: number; // In `unit`; end minus start when odometer readings are given
+  unit: DistanceUnit;
+  rate: number; // Rate applied, per `unit`, copied so later rate changes don't alter the trip
+  currency: string;
+  amount: number; // Minor units of `currency`
+  expenseId?: number; // Expense generated for the trip
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type BudgetPeriod = 'weekly' | 'monthly' | 'yearly';
+
 export interface Category {
   id?: number;
   name: string;
+  kind: 'expense' | 'income';
   color: string;
   icon: string;
-  budget?: number;
+  parentId?: number; // Parent category, for nested categories
+  budget?: number; // Minor units of the base currency, per budget period
+  budgetPeriod?: BudgetPeriod; // Defaults to monthly
+  budgetRollover?: boolean; // Carry unspent budget into the next period
+  budgetStartDate?: Date; // First period rollover is counted from
   isDefault: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface Tag {
+  id?: number;
+  name: string; // Normalized, see TagUtils.normalize
+  color: string;
+  usageCount: number; // Number of expenses carrying the tag
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Account {
+  id?: number;
+  name: string;
+  type: 'cash' | 'checking' | 'savings' | 'credit_card' | 'digital_wallet' | 'other';
+  currency: string; // ISO 4217 code
+  openingBalance: number; // Minor units of `currency`
+  openingDate: Date;
+  color?: string;
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface MediaFile {
   id?: number;
   mediaId: string; // UUID for OPFS storage
@@ -50,8 +364,51 @@ export interface MediaFile {
   mimeType: string;
   size: number;
   thumbnailId?: string;
+  hash?: string; // SHA-256 of the original upload, for duplicate detection
+  createdAt: Date;
+  expenseId?: number; // Expense the file is attached to
+  position?: number; // Order among the expense's attachments, from 0
+  caption?: string;
+}
+
+export interface ExchangeRate {
+  id?: number;
+  base: string; // ISO 4217 code
+  quote: string; // ISO 4217 code
+  rate: number; // Units of quote per 1 unit of base
+  date: Date; // Date the rate applies from
+  createdAt: Date;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type RecurringExpenseTemplate = Omit<
+  Expense,
+  'id' | 'date' | 'receipt' | 'createdAt' | 'updatedAt' | 'syncStatus' | 'cloudId' | 'recurringRuleId' | 'recurrenceDate'
+>;
+
+export interface RecurrenceException {
+  date: Date; // Scheduled occurrence date
+  type: 'skip' | 'override';
+  overrides?: Partial<RecurringExpenseTemplate>;
+}
+
+export interface RecurringRule {
+  id?: number;
+  name: string;
+  template: RecurringExpenseTemplate;
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months/years
+  startDate: Date;
+  endDate?: Date; // Inclusive
+  count?: number; // Maximum number of scheduled periods
+  monthDayPolicy: 'clamp' | 'skip'; // When the start day doesn't exist in a month
+  status: 'active' | 'paused';
+  nextIndex: number; // Index of the next occurrence to generate
+  nextDate?: Date; // Undefined once the series has ended
+  exceptions: RecurrenceException[];
   createdAt: Date;
-  expenseId?: number;
+  updatedAt: Date;
 }
 
 export interface SyncQueue {
@@ -65,6 +422,23 @@ export interface SyncQueue {
   lastError?: string;
 }
 
+export interface SearchResult {
+  expense: Expense;
+  score: number;
+}
+
+// Every distinct indexed word and the fields it appears in
+interface SearchDictionary {
+  words: string[]; // Sorted, for prefix lookups
+  fields: Map<string, SearchField[]>;
+}
+
+// Expense fields covered by the search index
+const SEARCH_SOURCE_FIELDS = ['description', 'notes', 'tags', 'location'];
+
+// Most index words a single query word may expand to through prefix and fuzzy matching
+const MAX_SEARCH_EXPANSIONS = 30;
+
 export interface AppSettings {
   id?: number;
   key: string;
@@ -79,23 +453,53 @@ export class ExpenseDatabase extends Dexie {
   mediaFiles!: Table<MediaFile>;
   syncQueue!: Table<SyncQueue>;
   settings!: Table<AppSettings>;
+  exchangeRates!: Table<ExchangeRate>;
+  recurringRules!: Table<RecurringRule>;
+  accounts!: Table<Account>;
+  tags!: Table<Tag>;
+  trash!: Table<TrashedExpense, number>;
+  revisions!: Table<ExpenseRevision>;
+  rollups!: Table<MonthlyRollup>;
+  duplicates!: Table<DuplicatePair>;
+  payees!: Table<Payee>;
+  categorizationRules!: Table<CategorizationRule>;
+  people!: Table<Person>;
+  settlements!: Table<Settlement>;
+  projects!: Table<Project>;
+  goals!: Table<Goal>;
+  goalContributions!: Table<GoalContribution>;
+  bills!: Table<Bill>;
+  vehicles!: Table<Vehicle>;
+  mileageRates!: Table<MileageRate>;
+  mileageTrips!: Table<MileageTrip>;
+
+  private searchDictionary: SearchDictionary | null = null;
+  private rollupDeltas = new WeakMap<Transaction, Map<string, MonthlyRollup>>();
+  private rollupWrites: Promise<void> = Promise.resolve();
 
   constructor() {
-    super('ExpenseWalletDB');
+    super(DATABASE_NAME);
     
-    this.version(1).stores({
-      expenses: '++id, amount, category, paymentMethod, date, createdAt, syncStatus, cloudId',
-      categories: '++id, name, isDefault, createdAt',
-      mediaFiles: '++id, mediaId, fileName, mimeType, createdAt, expenseId',
-      syncQueue: '++id, operation, entityType, entityId, timestamp, retryCount',
-      settings: '++id, key, updatedAt',
+    // Schema versions and their upgrades live in migrations.ts. Every step
+    // registers an upgrade, so any pending step can refuse to run when the
+    // pre-migration backup wasn't stored.
+    DATABASE_MIGRATIONS.forEach(migration => {
+      this.version(migration.version)
+        .stores(migration.stores)
+        .upgrade(trans => migrationManager.runUpgrade(migration, trans));
     });
 
     // Hooks for automatic timestamps and sync queue
     this.expenses.hook('creating', (primKey, obj, trans) => {
+      obj.kind = obj.kind || 'expense';
       obj.createdAt = new Date();
       obj.updatedAt = new Date();
       obj.syncStatus = 'pending';
+      obj.splitCategories = SplitUtils.getCategories(obj.splits);
+      obj.sharedWith = SharingUtils.getPeople(obj.sharing);
+      obj.searchTerms = SearchUtils.getSearchTerms(obj);
+      this.searchDictionary = null;
+      this.queueRollupChange(trans, obj, 1);
     });
 
     this.expenses.hook('updating', (modifications, primKey, obj, trans) => {
@@ -103,9 +507,44 @@ export class ExpenseDatabase extends Dexie {
       if (!modifications.syncStatus) {
         modifications.syncStatus = 'pending';
       }
+
+      const derived: Partial<Expense> = {};
+      if ('splits' in modifications) {
+        derived.splitCategories = SplitUtils.getCategories(modifications.splits as ExpenseSplit[] | undefined);
+      }
+      if ('sharing' in modifications) {
+        derived.sharedWith = SharingUtils.getPeople(modifications.sharing as ExpenseSharing | undefined);
+      }
+
+      // Modifications may use key paths such as 'location.name'
+      const keyPaths = Object.keys(modifications);
+      const touches = (fields: string[]) => keyPaths.some(keyPath => fields.includes(keyPath.split('.')[0]!));
+      const getUpdated = () => {
+        const updated = Dexie.deepClone(obj);
+        keyPaths.forEach(keyPath => Dexie.setByKeyPath(updated, keyPath, (modifications as any)[keyPath]));
+        return updated;
+      };
+
+      if (touches(SEARCH_SOURCE_FIELDS)) {
+        derived.searchTerms = SearchUtils.getSearchTerms(getUpdated());
+        this.searchDictionary = null;
+      }
+
+      if (touches(ROLLUP_SOURCE_FIELDS)) {
+        this.queueRollupChange(trans, obj, -1);
+        this.queueRollupChange(trans, getUpdated(), 1);
+      }
+
+      return Object.keys(derived).length > 0 ? derived : undefined;
+    });
+
+    this.expenses.hook('deleting', (_primKey, obj, trans) => {
+      this.searchDictionary = null;
+      this.queueRollupChange(trans, obj, -1);
     });
 
     this.categories.hook('creating', (primKey, obj, trans) => {
+      obj.kind = obj.kind || 'expense';
       obj.createdAt = new Date();
       obj.updatedAt = new Date();
     });
@@ -114,75 +553,137 @@ export class ExpenseDatabase extends Dexie {
       modifications.updatedAt = new Date();
     });
 
+    this.recurringRules.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.recurringRules.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.accounts.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.accounts.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.tags.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.tags.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.payees.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.payees.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.categorizationRules.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.categorizationRules.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.people.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.people.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.settlements.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+    });
+
+    this.projects.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.projects.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.goals.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.goals.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.goalContributions.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+    });
+
+    this.bills.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.bills.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.vehicles.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.vehicles.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
+    this.mileageRates.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+    });
+
+    this.mileageTrips.hook('creating', (_primKey, obj) => {
+      obj.createdAt = new Date();
+      obj.updatedAt = new Date();
+    });
+
+    this.mileageTrips.hook('updating', () => {
+      return { updatedAt: new Date() };
+    });
+
     // Initialize default data
     this.on('ready', () => {
       return this.initializeDefaultData();
     });
   }
 
+  /**
+   * Open once any pending upgrade has its pre-migration backup stored. Dexie
+   * calls this too when the database is first used.
+   */
+  override open(): PromiseExtended<Dexie> {
+    return Dexie.Promise.resolve(migrationManager.backupBeforeUpgrade()).then(() => super.open());
+  }
+
   private async initializeDefaultData(): Promise<void> {
     // Check if default categories exist
     const categoryCount = await this.categories.count();
     
     if (categoryCount === 0) {
-      const defaultCategories: Omit<Category, 'id'>[] = [
-        {
-          name: 'Food & Dining',
-          color: '#ef4444',
-          icon: '🍽️',
-          isDefault: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        {
-          name: 'Transportation',
-          color: '#3b82f6',
-          icon: '🚗',
-          isDefault: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        {
-          name: 'Shopping',
-          color: '#8b5cf6',
-          icon: '🛍️',
-          isDefault: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        {
-          name: 'Entertainment',
-          color: '#f59e0b',
-          icon: '🎬',
-          isDefault: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        {
-          name: 'Healthcare',
-          color: '#10b981',
-          icon: '🏥',
-          isDefault: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        {
-          name: 'Bills & Utilities',
-          color: '#6b7280',
-          icon: '📄',
-          isDefault: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        {
-          name: 'Other',
-          color: '#64748b',
-          icon: '📦',
-          isDefault: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      ];
+      const defaultCategories = CategoryUtils.getDefaultCategories();
 
       await this.categories.bulkAdd(defaultCategories);
       console.log('Default categories initialized');
@@ -226,8 +727,20 @@ export class ExpenseDatabase extends Dexie {
   }
 
   // Expense methods
-  async addExpense(expense: Omit<Expense, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>): Promise<number> {
+  async addExpense(expense: Omit<Expense, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>, options: RevisionOptions = {}): Promise<number> {
+    this.validateAmounts(expense);
+    SplitUtils.validate(expense.amount, expense.splits, expense.currency);
+    if (expense.splits?.length) {
+      expense = { ...expense, category: SplitUtils.getPrimaryCategory(expense.splits) ?? expense.category };
+    }
+    if (expense.sharing) {
+      expense = { ...expense, sharing: SharingUtils.resolve(expense.amount, expense.sharing, expense.currency) };
+    }
+    expense = { ...expense, tags: TagUtils.normalizeList(expense.tags) };
+
     const id = await this.expenses.add(expense as Expense);
+    await this.refreshTagUsage(expense.tags ?? []);
+    await this.addRevision(id, 'create', RevisionUtils.diff(undefined, expense), options.source);
     
     // Add to sync queue
     await this.addToSyncQueue('create', 'expense', id);
@@ -235,20 +748,81 @@ export class ExpenseDatabase extends Dexie {
     return id;
   }
 
-  async updateExpense(id: number, updates: Partial<Expense>): Promise<void> {
-    await this.expenses.update(id, updates);
+  async updateExpense(id: number, updates: Partial<Expense>, options: RevisionOptions = {}): Promise<void> {
+    const current = await this.expenses.get(id);
+    this.validateAmounts(updates);
+
+    if ('splits' in updates || 'amount' in updates) {
+      const amount = updates.amount ?? current?.amount ?? 0;
+      const splits = 'splits' in updates ? updates.splits : current?.splits;
+
+      SplitUtils.validate(amount, splits, updates.currency ?? current?.currency);
+      if (splits?.length) {
+        updates = { ...updates, category: SplitUtils.getPrimaryCategory(splits) ?? updates.category };
+      }
+    }
+
+    // Equal and percentage shares follow the amount
+    if ('sharing' in updates || 'amount' in updates) {
+      const sharing = 'sharing' in updates ? updates.sharing : current?.sharing;
+      if (sharing) {
+        const amount = updates.amount ?? current?.amount ?? 0;
+        updates = { ...updates, sharing: SharingUtils.resolve(amount, sharing, updates.currency ?? current?.currency) };
+      }
+    }
+
+    if ('tags' in updates) {
+      updates = { ...updates, tags: TagUtils.normalizeList(updates.tags) };
+
+      await this.expenses.update(id, updates);
+      await this.refreshTagUsage([...(current?.tags ?? []), ...(updates.tags ?? [])]);
+    } else {
+      await this.expenses.update(id, updates);
+    }
+
+    if (current) {
+      await this.addRevision(id, 'update', RevisionUtils.diff(current, { ...current, ...updates }), options.source);
+    }
     await this.addToSyncQueue('update', 'expense', id);
   }
 
-  async deleteExpense(id: number): Promise<void> {
-    const expense = await this.expenses.get(id);
-    if (expense?.receipt?.mediaId) {
-      // Delete associated media
-      await this.deleteMediaFile(expense.receipt.mediaId);
-    }
-    
-    await this.expenses.delete(id);
-    await this.addToSyncQueue('delete', 'expense', id);
+  /**
+   * Move an expense to the trash. Its receipt is kept until the expense is
+   * purged, so a restore brings everything back.
+   */
+  async deleteExpense(id: number, options: RevisionOptions = {}): Promise<void> {
+    await this.transaction('rw', [this.expenses, this.trash, this.tags, this.syncQueue, this.revisions], async () => {
+      const expense = await this.expenses.get(id);
+      if (!expense) return;
+
+      const deletedAt = new Date();
+      await this.trash.put({ ...expense, deletedAt });
+      await this.expenses.delete(id);
+      await this.refreshTagUsage(expense.tags ?? []);
+      await this.addRevision(id, 'delete', RevisionUtils.diff(expense, undefined), options.source);
+
+      // Tombstone: the row may be purged before sync runs
+      await this.addToSyncQueue('delete', 'expense', id, { cloudId: expense.cloudId, deletedAt });
+    });
+  }
+
+  async restoreExpense(id: number, options: RevisionOptions = {}): Promise<void> {
+    await this.transaction('rw', [this.expenses, this.trash, this.tags, this.syncQueue, this.revisions], async () => {
+      const trashed = await this.trash.get(id);
+      if (!trashed) {
+        throw new Error('Expense not found in trash');
+      }
+
+      // The cloud copy was deleted with it, so sync creates a new one
+      const expense: Expense = { ...trashed };
+      delete (expense as Partial<TrashedExpense>).deletedAt;
+      delete expense.cloudId;
+      await this.expenses.add(expense);
+      await this.trash.delete(id);
+      await this.refreshTagUsage(expense.tags ?? []);
+      await this.addRevision(id, 'restore', RevisionUtils.diff(undefined, expense), options.source);
+      await this.addToSyncQueue('create', 'expense', id);
+    });
   }
 
   async getExpensesByDateRange(startDate: Date, endDate: Date): Promise<Expense[]> {
@@ -259,34 +833,413 @@ export class ExpenseDatabase extends Dexie {
   }
 
   async getExpensesByCategory(category: string): Promise<Expense[]> {
+    // Include split expenses with any line in this category
     return await this.expenses
       .where('category')
       .equals(category)
+      .or('splitCategories')
+      .equals(category)
       .toArray();
   }
 
+  /**
+   * Start a filtered, sorted and paged query, e.g.
+   * `db.queryExpenses().inCategories('Food').amountBetween(1000).limit(20).page()`
+   */
+  queryExpenses(): ExpenseQuery {
+    return new ExpenseQuery(this.expenses);
+  }
+
+  // Search methods
+  /**
+   * Ranked full-text search over description, notes, tags and location.
+   * Words match exactly, by prefix or with a small typo; quoted phrases must
+   * appear word for word. Every word in the query has to match.
+   */
+  async searchExpenses(query: string, limit = 50): Promise<SearchResult[]> {
+    const { terms, phrases } = SearchUtils.parseQuery(query);
+    const queryWords = [
+      ...terms.map(word => ({ word, exactOnly: false })),
+      ...phrases.flat().map(word => ({ word, exactOnly: true })),
+    ];
+    if (queryWords.length === 0) return [];
+
+    const [dictionary, total] = await Promise.all([this.getSearchDictionary(), this.expenses.count()]);
+
+    // Best match score per expense, for each query word
+    const wordScoreMaps: Array<Map<number, number>> = [];
+    for (const { word, exactOnly } of queryWords) {
+      const matches = this.expandSearchWord(word, dictionary, exactOnly);
+      const lookups = matches.flatMap(match =>
+        (dictionary.fields.get(match.word) ?? []).map(field => ({ ...match, field }))
+      );
+
+      const postings = await Promise.all(
+        lookups.map(lookup =>
+          this.expenses.where('searchTerms').equals(`${SEARCH_FIELD_CODES[lookup.field]}:${lookup.word}`).primaryKeys()
+        )
+      );
+
+      const wordScores = new Map<number, number>();
+      lookups.forEach((lookup, i) => {
+        const ids = postings[i] as number[];
+        const idf = Math.log(1 + total / Math.max(1, ids.length));
+        const weight = SEARCH_MATCH_WEIGHTS[lookup.match] * SEARCH_FIELD_WEIGHTS[lookup.field] * idf;
+        ids.forEach(id => wordScores.set(id, Math.max(wordScores.get(id) ?? 0, weight)));
+      });
+
+      if (wordScores.size === 0) return [];
+      wordScoreMaps.push(wordScores);
+    }
+
+    // Only expenses matching every word are kept
+    const [first, ...rest] = wordScoreMaps;
+    const scores = new Map<number, number>();
+    first!.forEach((score, id) => {
+      if (rest.every(wordScores => wordScores.has(id))) {
+        scores.set(id, rest.reduce((sum, wordScores) => sum + wordScores.get(id)!, score));
+      }
+    });
+
+    // Newer expenses win ties
+    const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+
+    // Load matches in batches, checking phrases until enough results are found
+    const results: SearchResult[] = [];
+    const batchSize = phrases.length > 0 ? 200 : limit;
+    for (let start = 0; start < ranked.length && results.length < limit; start += batchSize) {
+      const batch = ranked.slice(start, start + batchSize);
+      const expenses = await this.expenses.bulkGet(batch.map(([id]) => id));
+
+      expenses.forEach((expense, i) => {
+        if (!expense || results.length >= limit) return;
+        if (phrases.every(phrase => SearchUtils.containsPhrase(expense, phrase))) {
+          results.push({ expense, score: batch[i]![1] });
+        }
+      });
+    }
+
+    return results;
+  }
+
+  private async getSearchDictionary(): Promise<SearchDictionary> {
+    if (this.searchDictionary) return this.searchDictionary;
+
+    const fields = new Map<string, SearchField[]>();
+    const terms = (await this.expenses.orderBy('searchTerms').uniqueKeys()) as string[];
+    terms.forEach(term => {
+      const parsed = SearchUtils.parseTerm(term);
+      if (!parsed) return;
+      fields.set(parsed.word, [...(fields.get(parsed.word) ?? []), parsed.field]);
+    });
+
+    this.searchDictionary = { words: Array.from(fields.keys()).sort(), fields };
+    return this.searchDictionary;
+  }
+
+  /**
+   * Index words a query word matches, best matches first
+   */
+  private expandSearchWord(
+    word: string,
+    dictionary: SearchDictionary,
+    exactOnly: boolean
+  ): Array<{ word: string; match: TermMatch }> {
+    if (exactOnly) {
+      return dictionary.fields.has(word) ? [{ word, match: 'exact' }] : [];
+    }
+
+    const matches: Array<{ word: string; match: TermMatch; rank: number }> = [];
+
+    // Prefix matches sit together in the sorted word list
+    let low = 0;
+    let high = dictionary.words.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (dictionary.words[mid]! < word) low = mid + 1;
+      else high = mid;
+    }
+    for (let i = low; i < dictionary.words.length && dictionary.words[i]!.startsWith(word); i++) {
+      const candidate = dictionary.words[i]!;
+      matches.push(
+        candidate === word
+          ? { word: candidate, match: 'exact', rank: 0 }
+          : { word: candidate, match: 'prefix', rank: candidate.length - word.length }
+      );
+    }
+
+    const maxEdits = SearchUtils.getMaxEdits(word);
+    if (maxEdits > 0) {
+      dictionary.words.forEach(candidate => {
+        if (candidate.startsWith(word)) return;
+        const distance = SearchUtils.editDistance(word, candidate, maxEdits);
+        if (distance <= maxEdits) {
+          matches.push({ word: candidate, match: 'fuzzy', rank: 100 + distance });
+        }
+      });
+    }
+
+    return matches
+      .sort((a, b) => a.rank - b.rank)
+      .slice(0, MAX_SEARCH_EXPANSIONS)
+      .map(({ word: matched, match }) => ({ word: matched, match }));
+  }
+
   // Category methods
   async addCategory(category: Omit<Category, 'id' | 'createdAt' | 'updatedAt'>): Promise<number> {
+    if (category.parentId !== undefined) {
+      await this.validateCategoryParent(undefined, category.parentId, category.kind);
+    }
     return await this.categories.add(category as Category);
   }
 
   async updateCategory(id: number, updates: Partial<Category>): Promise<void> {
+    if (updates.parentId !== undefined) {
+      const category = await this.categories.get(id);
+      await this.validateCategoryParent(id, updates.parentId, updates.kind ?? category?.kind ?? 'expense');
+    }
     await this.categories.update(id, updates);
   }
 
+  /**
+   * Delete a category. Its subcategories move up to its parent, and its
+   * expenses (including split lines) move to the parent, or to the "Other"
+   * category of the same kind when it has no parent.
+   */
   async deleteCategory(id: number): Promise<void> {
-    const category = await this.categories.get(id);
-    if (category?.isDefault) {
-      throw new Error('Cannot delete default category');
+    await this.transaction('rw', [this.expenses, this.categories, this.revisions], async () => {
+      const category = await this.categories.get(id);
+      if (!category) return;
+      if (category.isDefault) {
+        throw new Error('Cannot delete default category');
+      }
+
+      const parent = category.parentId !== undefined ? await this.categories.get(category.parentId) : undefined;
+      const replacement = parent?.name ?? (category.kind === 'income' ? 'Other Income' : 'Other');
+
+      await this.categories.where('parentId').equals(id).modify({ parentId: parent?.id });
+
+      const moved = new Map<number, FieldChange[]>();
+      await this.expenses.where('category').equals(category.name).modify(expense => {
+        moved.set(expense.id!, RevisionUtils.diff({ category: expense.category }, { category: replacement }));
+        expense.category = replacement;
+      });
+
+      // Split lines keep their own category, so move those too
+      await this.expenses.where('splitCategories').equals(category.name).modify(expense => {
+        const splits = expense.splits?.map(split =>
+          split.category === category.name ? { ...split, category: replacement } : split
+        );
+        moved.set(expense.id!, [...(moved.get(expense.id!) ?? []), ...RevisionUtils.diff({ splits: expense.splits }, { splits })]);
+        expense.splits = splits;
+        expense.splitCategories = SplitUtils.getCategories(expense.splits);
+      });
+
+      for (const [expenseId, changes] of moved) {
+        await this.addRevision(expenseId, 'update', changes, 'system');
+      }
+
+      await this.categories.delete(id);
+    });
+  }
+
+  /**
+   * Throw unless `parentId` can be the parent of category `id`: it must exist,
+   * be of the same kind and not sit below the category itself
+   */
+  private async validateCategoryParent(id: number | undefined, parentId: number, kind: Category['kind']): Promise<void> {
+    const parent = await this.categories.get(parentId);
+    if (!parent) {
+      throw new Error(`Category ${parentId} not found`);
     }
-    
-    // Update expenses with this category to "Other"
-    const otherCategory = await this.categories.where('name').equals('Other').first();
-    if (otherCategory) {
-      await this.expenses.where('category').equals(category?.name || '').modify({ category: 'Other' });
+    if (parent.kind !== kind) {
+      throw new Error('A category can only be nested under a category of the same type.');
+    }
+    if (id !== undefined) {
+      const categories = await this.categories.toArray();
+      if (parentId === id || CategoryUtils.getDescendantIds(id, categories).includes(parentId)) {
+        throw new Error('A category cannot be moved under itself or one of its subcategories.');
+      }
+    }
+  }
+
+  // Tag methods
+  async getTags(): Promise<Tag[]> {
+    return await this.tags.orderBy('name').toArray();
+  }
+
+  /**
+   * Most used tags starting with a prefix, for autocomplete
+   */
+  async suggestTags(prefix: string, limit = 8): Promise<Tag[]> {
+    const normalized = TagUtils.normalize(prefix);
+    const matches = normalized
+      ? await this.tags.where('name').startsWith(normalized).toArray()
+      : await this.tags.toArray();
+
+    return matches
+      .filter(tag => tag.usageCount > 0)
+      .sort((a, b) => b.usageCount - a.usageCount || a.name.localeCompare(b.name))
+      .slice(0, limit);
+  }
+
+  async addTag(name: string, color?: string): Promise<number> {
+    const normalized = TagUtils.normalize(name);
+    if (!normalized) {
+      throw new Error('Please enter a tag name.');
+    }
+    if (await this.tags.where('name').equals(normalized).first()) {
+      throw new Error(`Tag "${normalized}" already exists`);
+    }
+
+    return await this.tags.add({
+      name: normalized,
+      color: color ?? TagUtils.getDefaultColor(normalized),
+      usageCount: await this.expenses.where('tags').equals(normalized).count(),
+    } as Tag);
+  }
+
+  async updateTagColor(id: number, color: string): Promise<void> {
+    await this.tags.update(id, { color });
+  }
+
+  /**
+   * Rename a tag on every expense. Renaming to an existing tag merges the two.
+   */
+  async renameTag(id: number, newName: string): Promise<void> {
+    const name = TagUtils.normalize(newName);
+    if (!name) {
+      throw new Error('Please enter a tag name.');
+    }
+
+    await this.transaction('rw', [this.expenses, this.tags, this.syncQueue, this.revisions], async () => {
+      const tag = await this.tags.get(id);
+      if (!tag) {
+        throw new Error(`Tag ${id} not found`);
+      }
+      if (tag.name === name) return;
+
+      const existing = await this.tags.where('name').equals(name).first();
+      if (existing) {
+        await this.mergeTags([id], existing.id!);
+        return;
+      }
+
+      await this.retagExpenses([tag.name], name);
+      await this.tags.update(id, { name });
+    });
+  }
+
+  /**
+   * Fold several tags into one, rewriting every affected expense
+   */
+  async mergeTags(sourceIds: number[], targetId: number): Promise<void> {
+    await this.transaction('rw', [this.expenses, this.tags, this.syncQueue, this.revisions], async () => {
+      const target = await this.tags.get(targetId);
+      if (!target) {
+        throw new Error(`Tag ${targetId} not found`);
+      }
+
+      const sources = (await this.tags.bulkGet(sourceIds.filter(id => id !== targetId))).filter(
+        (tag): tag is Tag => tag !== undefined
+      );
+      if (sources.length === 0) return;
+
+      await this.retagExpenses(sources.map(tag => tag.name), target.name);
+      await this.tags.bulkDelete(sources.map(tag => tag.id!));
+      await this.refreshTagUsage([target.name]);
+    });
+  }
+
+  /**
+   * Delete a tag and remove it from every expense
+   */
+  async deleteTag(id: number): Promise<void> {
+    await this.transaction('rw', [this.expenses, this.tags, this.syncQueue, this.revisions], async () => {
+      const tag = await this.tags.get(id);
+      if (!tag) return;
+
+      await this.retagExpenses([tag.name], null);
+      await this.tags.delete(id);
+    });
+  }
+
+  /**
+   * Recount usage for the given tags, registering any that are new
+   */
+  async refreshTagUsage(names: string[]): Promise<void> {
+    for (const name of new Set(names)) {
+      const usageCount = await this.expenses.where('tags').equals(name).count();
+      const existing = await this.tags.where('name').equals(name).first();
+
+      if (existing) {
+        if (existing.usageCount !== usageCount) {
+          await this.tags.update(existing.id!, { usageCount });
+        }
+      } else if (usageCount > 0) {
+        await this.tags.add({ name, color: TagUtils.getDefaultColor(name), usageCount } as Tag);
+      }
+    }
+  }
+
+  /**
+   * Recount every tag, e.g. after a bulk import
+   */
+  async rebuildTagUsage(): Promise<void> {
+    const [registered, used] = await Promise.all([
+      this.tags.toArray(),
+      this.expenses.orderBy('tags').uniqueKeys(),
+    ]);
+    await this.refreshTagUsage([...registered.map(tag => tag.name), ...(used as string[])]);
+  }
+
+  private async retagExpenses(fromNames: string[], toName: string | null): Promise<void> {
+    const retagged = new Map<number, FieldChange[]>();
+
+    await this.expenses.where('tags').anyOf(fromNames).distinct().modify(expense => {
+      const tags = (expense.tags ?? []).map(tag => (fromNames.includes(tag) ? toName : tag));
+      const normalized = TagUtils.normalizeList(tags.filter((tag): tag is string => tag !== null));
+      retagged.set(expense.id!, RevisionUtils.diff({ tags: expense.tags }, { tags: normalized }));
+      expense.tags = normalized;
+    });
+
+    for (const [id, changes] of retagged) {
+      await this.addRevision(id, 'update', changes, 'system');
+      await this.addToSyncQueue('update', 'expense', id);
+    }
+  }
+
+  // Revision methods
+  /**
+   * Change log for one expense, newest first
+   */
+  async getExpenseRevisions(expenseId: number): Promise<ExpenseRevision[]> {
+    const revisions = await this.revisions.where('expenseId').equals(expenseId).sortBy('id');
+    return revisions.reverse();
+  }
+
+  private async addRevision(
+    expenseId: number,
+    operation: RevisionOperation,
+    changes: FieldChange[],
+    source: RevisionSource = 'user'
+  ): Promise<void> {
+    // An update that changed nothing isn't worth a history entry
+    if (operation === 'update' && changes.length === 0) return;
+
+    await this.revisions.add({ expenseId, operation, source, changes, timestamp: new Date() });
+  }
+
+  /**
+   * Amounts are whole minor units; a float here means a caller skipped MoneyUtils
+   */
+  private validateAmounts(expense: Partial<Pick<Expense, 'amount' | 'toAmount'>>): void {
+    if (expense.amount !== undefined && !Number.isSafeInteger(expense.amount)) {
+      throw new Error('Amount must be a whole number of minor units.');
+    }
+    if (expense.toAmount !== undefined && !Number.isSafeInteger(expense.toAmount)) {
+      throw new Error('Amount received must be a whole number of minor units.');
     }
-    
-    await this.categories.delete(id);
   }
 
   // Media file methods
@@ -305,16 +1258,71 @@ export class ExpenseDatabase extends Dexie {
     return await this.mediaFiles.where('mediaId').equals(mediaId).first();
   }
 
+  // Exchange rate methods
+  async addExchangeRate(rate: Omit<ExchangeRate, 'id' | 'createdAt'>): Promise<number> {
+    const base = rate.base.toUpperCase();
+    const quote = rate.quote.toUpperCase();
+
+    if (base === quote) {
+      throw new Error('Exchange rate currencies must differ');
+    }
+    if (!(rate.rate > 0)) {
+      throw new Error('Exchange rate must be a positive number');
+    }
+
+    // Replace any rate already recorded for the same pair and date
+    const existing = await this.exchangeRates
+      .where('[base+quote+date]')
+      .equals([base, quote, rate.date])
+      .first();
+
+    if (existing) {
+      await this.exchangeRates.update(existing.id!, { rate: rate.rate });
+      return existing.id!;
+    }
+
+    return await this.exchangeRates.add({
+      ...rate,
+      base,
+      quote,
+      createdAt: new Date(),
+    });
+  }
+
+  async deleteExchangeRate(id: number): Promise<void> {
+    await this.exchangeRates.delete(id);
+  }
+
+  async getExchangeRates(base?: string, quote?: string): Promise<ExchangeRate[]> {
+    if (base && quote) {
+      return await this.exchangeRates
+        .where('[base+quote]')
+        .equals([base.toUpperCase(), quote.toUpperCase()])
+        .sortBy('date');
+    }
+    return await this.exchangeRates.orderBy('date').toArray();
+  }
+
+  async getExchangeRateTable(): Promise<ExchangeRateTable> {
+    return new ExchangeRateTable(await this.exchangeRates.toArray());
+  }
+
+  async getBaseCurrency(): Promise<string> {
+    return (await this.getSetting('currency')) || 'USD';
+  }
+
   // Sync queue methods
   private async addToSyncQueue(
     operation: 'create' | 'update' | 'delete',
     entityType: 'expense' | 'category' | 'media',
-    entityId: number
+    entityId: number,
+    data?: any
   ): Promise<void> {
     await this.syncQueue.add({
       operation,
       entityType,
       entityId,
+      data,
       timestamp: new Date(),
       retryCount: 0,
     });
@@ -358,83 +1366,335 @@ export class ExpenseDatabase extends Dexie {
     }
   }
 
+  // Rollup methods
+  /**
+   * Recompute every rollup from the expenses, replacing what is stored
+   */
+  async rebuildRollups(): Promise<number> {
+    await this.rollupWrites;
+
+    return await this.transaction('rw', [this.expenses, this.rollups], async () => {
+      const rows = await this.computeRollups();
+      await this.rollups.clear();
+      await this.rollups.bulkAdd(Array.from(rows.values()));
+      return rows.size;
+    });
+  }
+
+  /**
+   * Compare the stored rollups with totals recomputed from the expenses
+   */
+  async verifyRollups(): Promise<RollupVerification> {
+    await this.rollupWrites;
+
+    return await this.transaction('r', [this.expenses, this.rollups], async () => {
+      const [expected, stored] = await Promise.all([this.computeRollups(), this.rollups.toArray()]);
+      const actual = new Map(stored.map(row => [RollupUtils.getIdentity(row), row]));
+      const identities = new Set([...expected.keys(), ...actual.keys()]);
+      const mismatches: RollupVerification['mismatches'] = [];
+
+      identities.forEach(identity => {
+        const want = expected.get(identity);
+        const have = actual.get(identity);
+        if (want?.amount === have?.amount && want?.count === have?.count) return;
+
+        const { month, kind, currency, dimension, key } = (want ?? have)!;
+        mismatches.push({
+          row: { month, kind, currency, dimension, key },
+          expected: { amount: want?.amount ?? 0, count: want?.count ?? 0 },
+          actual: { amount: have?.amount ?? 0, count: have?.count ?? 0 },
+        });
+      });
+
+      return { ok: mismatches.length === 0, checked: identities.size, mismatches };
+    });
+  }
+
+  private async computeRollups(): Promise<Map<string, MonthlyRollup>> {
+    const rows = new Map<string, MonthlyRollup>();
+    await this.expenses.each(expense => RollupUtils.accumulate(rows, RollupUtils.getEntries(expense)));
+    return rows;
+  }
+
+  /**
+   * Collect an expense's rollup change for the transaction it happens in.
+   * Hooks can't safely read-modify-write the same row twice within one
+   * transaction, so the changes are summed and written once it commits.
+   */
+  private queueRollupChange(trans: Transaction, expense: Expense, sign: 1 | -1): void {
+    // Upgrades rewrite rows in bulk and rebuild the rollups themselves. Dexie
+    // reports its upgrade transaction as 'readwrite'; IndexedDB's own mode
+    // tells it apart.
+    if (trans.idbtrans?.mode === 'versionchange') return;
+
+    // A nested transaction completes as soon as its scope resolves, before
+    // the outermost one commits, and its writes still roll back if that
+    // aborts. Only the outermost transaction's completion means committed.
+    let root = trans;
+    while (root.parent) {
+      root = root.parent;
+    }
+
+    let changes = this.rollupDeltas.get(root);
+    if (!changes) {
+      const pending = new Map<string, MonthlyRollup>();
+      changes = pending;
+      this.rollupDeltas.set(root, pending);
+      root.on('complete', () => this.writeRollupChanges(pending));
+    }
+    RollupUtils.accumulate(changes, RollupUtils.getEntries(expense, sign));
+  }
+
+  private writeRollupChanges(changes: Map<string, MonthlyRollup>): void {
+    // Writes are chained so stats can wait for them and none overlap
+    this.rollupWrites = this.rollupWrites
+      .then(() =>
+        Dexie.ignoreTransaction(() =>
+          this.transaction('rw', this.rollups, async () => {
+            for (const change of changes.values()) {
+              if (change.amount === 0 && change.count === 0) continue;
+
+              const { month, kind, currency, dimension, key } = change;
+              const row = await this.rollups.where('[month+kind+currency+dimension+key]').equals([month, kind, currency, dimension, key]).first();
+              const amount = (row?.amount ?? 0) + change.amount;
+              const count = (row?.count ?? 0) + change.count;
+
+              if (row && count === 0 && amount === 0) {
+                await this.rollups.delete(row.id!);
+              } else if (row) {
+                await this.rollups.update(row.id!, { amount, count });
+              } else {
+                await this.rollups.add({ ...change, amount, count });
+              }
+            }
+          })
+        )
+      )
+      .catch(error => console.error('Failed to update rollups:', error));
+  }
+
   // Statistics methods
-  async getExpenseStats(startDate?: Date, endDate?: Date): Promise<{
-    totalAmount: number;
+  /**
+   * Totals for a date range (end exclusive), in the base currency. Whole
+   * months come from the rollups; partial months at either end, and foreign
+   * currency months whose exchange rate moved, are read expense by expense.
+   * In the category rollup a parent's count adds up its subcategories', so a
+   * split expense across two subcategories counts twice there.
+   */
+  async getExpenseStats(startDate?: Date, endDate?: Date, baseCurrency?: string): Promise<{
+    baseCurrency: string;
+    totalAmount: number; // Spending only
     expenseCount: number;
     averageAmount: number;
+    incomeAmount: number;
+    incomeCount: number;
+    netCashFlow: number; // Income minus spending
     categoryBreakdown: { category: string; amount: number; count: number }[];
+    incomeCategoryBreakdown: { category: string; amount: number; count: number }[];
+    categoryRollup: { category: string; amount: number; count: number }[]; // Parents include their subcategories
+    incomeCategoryRollup: { category: string; amount: number; count: number }[];
     paymentMethodBreakdown: { method: string; amount: number; count: number }[];
+    missingRates: string[]; // Currencies excluded from totals for lack of a rate
   }> {
-    let query = this.expenses.toCollection();
-    
-    if (startDate && endDate) {
-      query = this.expenses.where('date').between(startDate, endDate);
-    }
-    
-    const expenses = await query.toArray();
-    
-    const totalAmount = expenses.reduce((sum, exp) => sum + exp.amount, 0);
-    const expenseCount = expenses.length;
-    const averageAmount = expenseCount > 0 ? totalAmount / expenseCount : 0;
-    
-    // Category breakdown
-    const categoryMap = new Map<string, { amount: number; count: number }>();
-    expenses.forEach(exp => {
-      const current = categoryMap.get(exp.category) || { amount: 0, count: 0 };
-      categoryMap.set(exp.category, {
-        amount: current.amount + exp.amount,
-        count: current.count + 1,
-      });
-    });
-    
-    const categoryBreakdown = Array.from(categoryMap.entries()).map(([category, data]) => ({
-      category,
-      ...data,
-    }));
-    
-    // Payment method breakdown
+    const [rateTable, base, categories] = await Promise.all([
+      this.getExchangeRateTable(),
+      baseCurrency ? Promise.resolve(baseCurrency) : this.getBaseCurrency(),
+      this.categories.toArray(),
+    ]);
+    const entries = await this.getRollupEntries(startDate, endDate, base, rateTable);
+
+    // Convert to the base currency and total each dimension
+    const missingRates = new Set<string>();
+    const totals = { expense: { amount: 0, count: 0 }, income: { amount: 0, count: 0 } };
+    const categoryMaps = { expense: new Map<string, { amount: number; count: number }>(), income: new Map<string, { amount: number; count: number }>() };
     const paymentMap = new Map<string, { amount: number; count: number }>();
-    expenses.forEach(exp => {
-      const current = paymentMap.get(exp.paymentMethod) || { amount: 0, count: 0 };
-      paymentMap.set(exp.paymentMethod, {
-        amount: current.amount + exp.amount,
-        count: current.count + 1,
-      });
+    const add = (map: Map<string, { amount: number; count: number }>, key: string, amount: number, count: number) => {
+      const current = map.get(key) ?? { amount: 0, count: 0 };
+      map.set(key, { amount: current.amount + amount, count: current.count + count });
+    };
+
+    entries.forEach(({ row, date }) => {
+      const amount = rateTable.convert(row.amount, row.currency || base, base, date);
+      if (amount === null) {
+        missingRates.add(row.currency);
+        return;
+      }
+
+      if (row.dimension === 'total') {
+        totals[row.kind].amount += amount;
+        totals[row.kind].count += row.count;
+      } else if (row.dimension === 'category') {
+        add(categoryMaps[row.kind], row.key, amount, row.count);
+      } else if (row.kind === 'expense') {
+        add(paymentMap, row.key, amount, row.count);
+      }
     });
-    
-    const paymentMethodBreakdown = Array.from(paymentMap.entries()).map(([method, data]) => ({
-      method,
-      ...data,
-    }));
-    
+
+    const toList = (map: Map<string, { amount: number; count: number }>) =>
+      Array.from(map.entries()).map(([category, data]) => ({ category, ...data }));
+    const totalAmount = totals.expense.amount;
+    const expenseCount = totals.expense.count;
+    const incomeAmount = totals.income.amount;
+
     return {
+      baseCurrency: base,
       totalAmount,
       expenseCount,
-      averageAmount,
-      categoryBreakdown,
-      paymentMethodBreakdown,
+      averageAmount: expenseCount > 0 ? Math.round(totalAmount / expenseCount) : 0,
+      incomeAmount,
+      incomeCount: totals.income.count,
+      netCashFlow: incomeAmount - totalAmount,
+      categoryBreakdown: toList(categoryMaps.expense),
+      incomeCategoryBreakdown: toList(categoryMaps.income),
+      categoryRollup: toList(this.rollUpCategories(categoryMaps.expense, categories)),
+      incomeCategoryRollup: toList(this.rollUpCategories(categoryMaps.income, categories)),
+      paymentMethodBreakdown: Array.from(paymentMap.entries()).map(([method, data]) => ({ method, ...data })),
+      missingRates: Array.from(missingRates),
     };
   }
 
+  /**
+   * Rollup rows for a date range (end exclusive), each with the date to
+   * convert it at. Whole months come from the stored rollups; partial months
+   * at either end, and foreign currency months whose exchange rate moved, are
+   * computed from the expenses themselves and dated per expense.
+   */
+  async getRollupEntries(
+    startDate: Date | undefined,
+    endDate: Date | undefined,
+    base: string,
+    rateTable: ExchangeRateTable
+  ): Promise<Array<{ row: MonthlyRollup; date: Date }>> {
+    await this.rollupWrites;
+
+    const { months, edges } = RollupUtils.splitRange(startDate, endDate);
+    const [rollups, edgeExpenses] = await Promise.all([
+      months === null
+        ? this.rollups.toArray()
+        : months.length > 0
+          ? this.rollups.where('month').between(months[0]!, months[months.length - 1]!, true, true).toArray()
+          : Promise.resolve([]),
+      Promise.all(edges.map(([from, to]) => this.expenses.where('date').between(from, to).toArray())),
+    ]);
+
+    // A month converts as a whole only when one rate covers all of it
+    const unstable = new Map<string, Set<string>>();
+    const stable = rollups.filter(row => {
+      const from = RollupUtils.getMonthStart(row.month);
+      const to = RollupUtils.getNextMonthStart(row.month);
+      if (!rateTable.hasRateChange(row.currency, base, from, to)) return true;
+
+      unstable.set(row.month, (unstable.get(row.month) ?? new Set()).add(row.currency));
+      return false;
+    });
+    const unstableExpenses = await Promise.all(
+      Array.from(unstable.entries()).map(async ([month, currencies]) => {
+        const expenses = await this.expenses
+          .where('date')
+          .between(RollupUtils.getMonthStart(month), RollupUtils.getNextMonthStart(month))
+          .toArray();
+        return expenses.filter(expense => currencies.has(expense.currency));
+      })
+    );
+
+    return [
+      ...stable.map(row => ({ row, date: RollupUtils.getMonthStart(row.month) })),
+      ...[...edgeExpenses.flat(), ...unstableExpenses.flat()].flatMap(expense =>
+        RollupUtils.getEntries(expense).map(row => ({ row, date: expense.date }))
+      ),
+    ];
+  }
+
+  /**
+   * Add each category's amount and count to every ancestor, so parents show
+   * their subtree total
+   */
+  private rollUpCategories(
+    breakdown: Map<string, { amount: number; count: number }>,
+    categories: Category[]
+  ): Map<string, { amount: number; count: number }> {
+    const rolledUp = new Map<string, { amount: number; count: number }>();
+    breakdown.forEach((data, category) => {
+      [category, ...CategoryUtils.getAncestorNames(category, categories)].forEach(target => {
+        const current = rolledUp.get(target) ?? { amount: 0, count: 0 };
+        rolledUp.set(target, { amount: current.amount + data.amount, count: current.count + data.count });
+      });
+    });
+    return rolledUp;
+  }
+
   // Database management
   async exportData(): Promise<{
     expenses: Expense[];
     categories: Category[];
     settings: AppSettings[];
+    exchangeRates: ExchangeRate[];
+    recurringRules: RecurringRule[];
+    accounts: Account[];
+    tags: Tag[];
+    trash: TrashedExpense[];
+    revisions: ExpenseRevision[];
+    duplicates: DuplicatePair[];
+    payees: Payee[];
+    categorizationRules: CategorizationRule[];
+    people: Person[];
+    settlements: Settlement[];
+    projects: Project[];
+    goals: Goal[];
+    goalContributions: GoalContribution[];
+    bills: Bill[];
+    vehicles: Vehicle[];
+    mileageRates: MileageRate[];
+    mileageTrips: MileageTrip[];
     exportDate: Date;
     version: string;
   }> {
-    const [expenses, categories, settings] = await Promise.all([
+    const [expenses, categories, settings, exchangeRates, recurringRules, accounts, tags, trash, revisions, duplicates, payees, categorizationRules, people, settlements, projects, goals, goalContributions, bills, vehicles, mileageRates, mileageTrips] = await Promise.all([
       this.expenses.toArray(),
       this.categories.toArray(),
       this.settings.toArray(),
+      this.exchangeRates.toArray(),
+      this.recurringRules.toArray(),
+      this.accounts.toArray(),
+      this.tags.toArray(),
+      this.trash.toArray(),
+      this.revisions.toArray(),
+      this.duplicates.toArray(),
+      this.payees.toArray(),
+      this.categorizationRules.toArray(),
+      this.people.toArray(),
+      this.settlements.toArray(),
+      this.projects.toArray(),
+      this.goals.toArray(),
+      this.goalContributions.toArray(),
+      this.bills.toArray(),
+      this.vehicles.toArray(),
+      this.mileageRates.toArray(),
+      this.mileageTrips.toArray(),
     ]);
     
     return {
       expenses,
       categories,
       settings,
+      exchangeRates,
+      recurringRules,
+      accounts,
+      tags,
+      trash,
+      revisions,
+      duplicates,
+      payees,
+      categorizationRules,
+      people,
+      settlements,
+      projects,
+      goals,
+      goalContributions,
+      bills,
+      vehicles,
+      mileageRates,
+      mileageTrips,
       exportDate: new Date(),
       version: '1.0',
     };
@@ -444,11 +1704,38 @@ export class ExpenseDatabase extends Dexie {
     expenses?: Expense[];
     categories?: Category[];
     settings?: AppSettings[];
-  }): Promise<void> {
-    await this.transaction('rw', [this.expenses, this.categories, this.settings], async () => {
-      if (data.expenses) {
+    exchangeRates?: ExchangeRate[];
+    recurringRules?: RecurringRule[];
+    accounts?: Account[];
+    tags?: Tag[];
+    trash?: TrashedExpense[];
+    revisions?: ExpenseRevision[];
+    duplicates?: DuplicatePair[];
+    payees?: Payee[];
+    categorizationRules?: CategorizationRule[];
+    people?: Person[];
+    settlements?: Settlement[];
+    projects?: Project[];
+    goals?: Goal[];
+    goalContributions?: GoalContribution[];
+    bills?: Bill[];
+    vehicles?: Vehicle[];
+    mileageRates?: MileageRate[];
+    mileageTrips?: MileageTrip[];
+  }, options: { applyRules?: boolean } = {}): Promise<void> {
+    // With `applyRules` the categorization rules run over the imported
+    // expenses, using the imported rules when they replace the stored ones
+    let expenses = data.expenses;
+    if (expenses && options.applyRules) {
+      const { categorizationManager } = await import('@/lib/categorization');
+      expenses = await categorizationManager.prepareImported(expenses, data.categorizationRules);
+    }
+
+    await this.transaction('rw', [this.expenses, this.categories, this.settings, this.exchangeRates, this.recurringRules, this.accounts, this.tags, this.trash, this.revisions, this.duplicates, this.payees, this.categorizationRules, this.people, this.settlements, this.projects, this.goals, this.goalContributions, this.bills, this.vehicles, this.mileageRates, this.mileageTrips, this.rollups], async () => {
+      if (expenses) {
         await this.expenses.clear();
-        await this.expenses.bulkAdd(data.expenses.map(exp => ({ ...exp, syncStatus: 'pending' as const })));
+        await this.rollups.clear();
+        await this.expenses.bulkAdd(expenses.map(exp => ({ ...exp, syncStatus: 'pending' as const })));
       }
       
       if (data.categories) {
@@ -460,16 +1747,137 @@ export class ExpenseDatabase extends Dexie {
         await this.settings.clear();
         await this.settings.bulkAdd(data.settings);
       }
+
+      if (data.exchangeRates) {
+        await this.exchangeRates.clear();
+        await this.exchangeRates.bulkAdd(data.exchangeRates);
+      }
+
+      if (data.recurringRules) {
+        await this.recurringRules.clear();
+        await this.recurringRules.bulkAdd(data.recurringRules);
+      }
+
+      if (data.accounts) {
+        await this.accounts.clear();
+        await this.accounts.bulkAdd(data.accounts);
+      }
+
+      if (data.tags) {
+        await this.tags.clear();
+        await this.tags.bulkAdd(data.tags);
+      }
+
+      if (data.trash) {
+        await this.trash.clear();
+        await this.trash.bulkAdd(data.trash);
+      }
+
+      if (data.revisions) {
+        await this.revisions.clear();
+        await this.revisions.bulkAdd(data.revisions);
+      }
+
+      if (data.duplicates) {
+        await this.duplicates.clear();
+        await this.duplicates.bulkAdd(data.duplicates);
+      }
+
+      if (data.payees) {
+        await this.payees.clear();
+        await this.payees.bulkAdd(data.payees);
+      }
+
+      if (data.categorizationRules) {
+        await this.categorizationRules.clear();
+        await this.categorizationRules.bulkAdd(data.categorizationRules);
+      }
+
+      if (data.people) {
+        await this.people.clear();
+        await this.people.bulkAdd(data.people);
+      }
+
+      if (data.settlements) {
+        await this.settlements.clear();
+        await this.settlements.bulkAdd(data.settlements);
+      }
+
+      if (data.projects) {
+        await this.projects.clear();
+        await this.projects.bulkAdd(data.projects);
+      }
+
+      if (data.goals) {
+        await this.goals.clear();
+        await this.goals.bulkAdd(data.goals);
+      }
+
+      if (data.goalContributions) {
+        await this.goalContributions.clear();
+        await this.goalContributions.bulkAdd(data.goalContributions);
+      }
+
+      if (data.bills) {
+        await this.bills.clear();
+        await this.bills.bulkAdd(data.bills);
+      }
+
+      if (data.vehicles) {
+        await this.vehicles.clear();
+        await this.vehicles.bulkAdd(data.vehicles);
+      }
+
+      if (data.mileageRates) {
+        await this.mileageRates.clear();
+        await this.mileageRates.bulkAdd(data.mileageRates);
+      }
+
+      if (data.mileageTrips) {
+        await this.mileageTrips.clear();
+        await this.mileageTrips.bulkAdd(data.mileageTrips);
+      }
+
+      // Imported expenses may carry tags the registry doesn't know yet
+      await this.rebuildTagUsage();
     });
+
+    // Recompute monthly totals once from the imported expenses
+    if (data.expenses) {
+      await this.rebuildRollups();
+    }
   }
 
   async clearAllData(): Promise<void> {
-    await this.transaction('rw', [this.expenses, this.categories, this.mediaFiles, this.syncQueue], async () => {
+    // Let pending rollup changes land first so none arrive after the clear
+    await this.rollupWrites;
+
+    await this.transaction('rw', [this.expenses, this.categories, this.mediaFiles, this.syncQueue, this.exchangeRates, this.recurringRules, this.accounts, this.tags, this.trash, this.revisions, this.duplicates, this.payees, this.categorizationRules, this.people, this.settlements, this.projects, this.goals, this.goalContributions, this.bills, this.vehicles, this.mileageRates, this.mileageTrips, this.rollups], async () => {
       await this.expenses.clear();
       await this.categories.clear();
       await this.mediaFiles.clear();
       await this.syncQueue.clear();
+      await this.exchangeRates.clear();
+      await this.recurringRules.clear();
+      await this.accounts.clear();
+      await this.tags.clear();
+      await this.trash.clear();
+      await this.revisions.clear();
+      await this.duplicates.clear();
+      await this.payees.clear();
+      await this.categorizationRules.clear();
+      await this.people.clear();
+      await this.settlements.clear();
+      await this.projects.clear();
+      await this.goals.clear();
+      await this.goalContributions.clear();
+      await this.bills.clear();
+      await this.vehicles.clear();
+      await this.mileageRates.clear();
+      await this.mileageTrips.clear();
+      await this.rollups.clear();
     });
+    this.searchDictionary = null;
     
     // Re-initialize default data
     await this.initializeDefaultData();
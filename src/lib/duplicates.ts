@@ -0,0 +1,358 @@
+/**
+ * Duplicate Detection
+ * Flags pairs of expenses that look like the same purchase entered twice, by
+ * amount, date proximity, description similarity and receipt image hash
+ */
+
+import { db, type DuplicatePair, type DuplicateReason, type Expense } from '@/lib/database';
+import { SearchUtils } from '@/lib/search';
+import { attachmentManager } from '@/lib/attachments';
+
+// How many days apart two entries of the same purchase can be
+const DATE_WINDOW_DAYS = 3;
+
+// Lowest score worth asking the user about
+const DUPLICATE_THRESHOLD = 0.75;
+
+// Description similarity that counts as a reason on its own
+const DESCRIPTION_MATCH = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DuplicateMatch {
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+// A pending pair with both expenses loaded, for review
+export interface DuplicateReview {
+  pair: DuplicatePair;
+  expense: Expense;
+  other: Expense;
+}
+
+// Utility functions
+export const DuplicateUtils = {
+  /**
+   * Similarity of two descriptions from 0 to 1, by shared character pairs so
+   * "STARBUCKS #1234" and "Starbucks" still come out close
+   */
+  descriptionSimilarity(a: string, b: string): number {
+    const left = SearchUtils.tokenize(a).join('');
+    const right = SearchUtils.tokenize(b).join('');
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    if (left.length < 2 || right.length < 2) return 0;
+
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < left.length - 1; i++) {
+      const bigram = left.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+
+    let shared = 0;
+    for (let i = 0; i < right.length - 1; i++) {
+      const bigram = right.slice(i, i + 2);
+      const count = bigrams.get(bigram) ?? 0;
+      if (count > 0) {
+        bigrams.set(bigram, count - 1);
+        shared++;
+      }
+    }
+
+    return (2 * shared) / (left.length + right.length - 2);
+  },
+
+  getDaysApart(a: Date, b: Date): number {
+    return Math.abs(a.getTime() - b.getTime()) / DAY_MS;
+  },
+
+  /**
+   * Score how likely two expenses are the same purchase, or null when they
+   * clearly aren't. The same receipt image settles it; otherwise amount,
+   * currency and kind must agree and the dates must be close.
+   */
+  score(a: Expense, b: Expense, receiptHashes: Map<string, string> = new Map()): DuplicateMatch | null {
+    const hashA = a.receipt ? receiptHashes.get(a.receipt.mediaId) : undefined;
+    const hashB = b.receipt ? receiptHashes.get(b.receipt.mediaId) : undefined;
+    if (hashA && hashA === hashB) {
+      return { score: 1, reasons: ['receipt'] };
+    }
+
+    if (a.amount !== b.amount || a.currency !== b.currency || a.kind !== b.kind) return null;
+
+    const days = this.getDaysApart(a.date, b.date);
+    if (days > DATE_WINDOW_DAYS) return null;
+
+    const similarity = this.descriptionSimilarity(a.description, b.description);
+    const score = 0.5 + 0.2 * (1 - days / (DATE_WINDOW_DAYS + 1)) + 0.3 * similarity;
+    if (score < DUPLICATE_THRESHOLD) return null;
+
+    const reasons: DuplicateReason[] = ['amount'];
+    if (days <= 1) reasons.push('date');
+    if (similarity >= DESCRIPTION_MATCH) reasons.push('description');
+
+    return { score: Math.round(score * 100) / 100, reasons };
+  },
+
+  /**
+   * Changes that carry what only the discarded expense has over to the one
+   * being kept: its tags, notes, receipt and location
+   */
+  getMergeUpdates(keep: Expense, discard: Expense): Partial<Expense> {
+    const updates: Partial<Expense> = {};
+
+    const tags = [...new Set([...(keep.tags ?? []), ...(discard.tags ?? [])])];
+    if (tags.length > (keep.tags ?? []).length) updates.tags = tags;
+
+    if (discard.notes && discard.notes !== keep.notes) {
+      updates.notes = keep.notes ? `${keep.notes}\n${discard.notes}` : discard.notes;
+    }
+    if (!keep.receipt && discard.receipt) updates.receipt = discard.receipt;
+    if (!keep.location && discard.location) updates.location = discard.location;
+
+    return updates;
+  },
+};
+
+class DuplicateManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  /**
+   * Look for duplicates of one expense, typically right after it is saved.
+   * Returns the pairs found that weren't already recorded.
+   */
+  async checkExpense(id: number): Promise<DuplicatePair[]> {
+    const expense = await db.expenses.get(id);
+    if (!expense) return [];
+
+    const candidates = new Map<number, Expense>();
+    const sameAmount = await db.expenses
+      .where('amount')
+      .equals(expense.amount)
+      .filter(other => other.id !== id && other.currency === expense.currency && other.kind === expense.kind)
+      .toArray();
+    sameAmount.forEach(other => candidates.set(other.id!, other));
+
+    const receiptHashes = new Map<string, string>();
+    const media = expense.receipt ? await db.getMediaFile(expense.receipt.mediaId) : undefined;
+    if (media?.hash) {
+      const matches = await db.mediaFiles.where('hash').equals(media.hash).toArray();
+      matches.forEach(file => receiptHashes.set(file.mediaId, media.hash!));
+
+      const mediaIds = new Set(matches.map(file => file.mediaId));
+      const sameReceipt = await db.expenses
+        .filter(other => other.id !== id && !!other.receipt && mediaIds.has(other.receipt.mediaId))
+        .toArray();
+      sameReceipt.forEach(other => candidates.set(other.id!, other));
+    }
+
+    const found: Array<[Expense, Expense, DuplicateMatch]> = [];
+    candidates.forEach(other => {
+      const match = DuplicateUtils.score(expense, other, receiptHashes);
+      if (match) found.push([expense, other, match]);
+    });
+
+    return await this.recordPairs(found);
+  }
+
+  /**
+   * Check every expense against every other. Returns how many new pairs
+   * were found.
+   */
+  async scan(): Promise<number> {
+    const expenses = await db.expenses.toArray();
+    const receiptHashes = await this.getReceiptHashes();
+    const found = new Map<string, [Expense, Expense, DuplicateMatch]>();
+
+    const consider = (a: Expense, b: Expense) => {
+      const key = [a.id!, b.id!].sort((x, y) => x - y).join(':');
+      if (found.has(key)) return;
+      const match = DuplicateUtils.score(a, b, receiptHashes);
+      if (match) found.set(key, [a, b, match]);
+    };
+
+    // Only expenses with the same amount, currency and kind can match on details
+    const groups = new Map<string, Expense[]>();
+    expenses.forEach(expense => {
+      const key = [expense.kind, expense.currency, expense.amount].join('|');
+      groups.set(key, [...(groups.get(key) ?? []), expense]);
+    });
+    groups.forEach(group => {
+      group.sort((a, b) => a.date.getTime() - b.date.getTime());
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          if (DuplicateUtils.getDaysApart(group[i]!.date, group[j]!.date) > DATE_WINDOW_DAYS) break;
+          consider(group[i]!, group[j]!);
+        }
+      }
+    });
+
+    // Any two expenses sharing a receipt image
+    const byHash = new Map<string, Expense[]>();
+    expenses.forEach(expense => {
+      const hash = expense.receipt ? receiptHashes.get(expense.receipt.mediaId) : undefined;
+      if (hash) byHash.set(hash, [...(byHash.get(hash) ?? []), expense]);
+    });
+    byHash.forEach(group => {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) {
+          consider(group[i]!, group[j]!);
+        }
+      }
+    });
+
+    const added = await this.recordPairs([...found.values()]);
+    return added.length;
+  }
+
+  /**
+   * Pairs waiting for review, most likely first. Pairs whose expenses have
+   * since been deleted are dropped.
+   */
+  async getPending(): Promise<DuplicateReview[]> {
+    const pairs = await db.duplicates.where('status').equals('pending').toArray();
+    const ids = [...new Set(pairs.flatMap(pair => [pair.expenseId, pair.otherId]))];
+    const expenses = new Map<number, Expense>();
+    (await db.expenses.bulkGet(ids)).forEach(expense => {
+      if (expense) expenses.set(expense.id!, expense);
+    });
+
+    const reviews: DuplicateReview[] = [];
+    const stale: number[] = [];
+    pairs.forEach(pair => {
+      const expense = expenses.get(pair.expenseId);
+      const other = expenses.get(pair.otherId);
+      if (expense && other) reviews.push({ pair, expense, other });
+      else stale.push(pair.id!);
+    });
+
+    if (stale.length > 0) {
+      await db.duplicates.bulkDelete(stale);
+    }
+
+    return reviews.sort((a, b) => b.pair.score - a.pair.score);
+  }
+
+  /**
+   * Mark a pair as not duplicates so it isn't flagged again
+   */
+  async dismiss(pairId: number): Promise<void> {
+    const updated = await db.duplicates.update(pairId, { status: 'dismissed' });
+    if (!updated) {
+      throw new Error('Duplicate pair not found');
+    }
+    this.emit('duplicatesChanged');
+  }
+
+  /**
+   * Keep one expense of a pair, fold the other's extra details into it and
+   * move the other to the trash
+   */
+  async merge(pairId: number, keepId: number): Promise<void> {
+    const pair = await db.duplicates.get(pairId);
+    if (!pair) {
+      throw new Error('Duplicate pair not found');
+    }
+    if (keepId !== pair.expenseId && keepId !== pair.otherId) {
+      throw new Error('Expense to keep is not part of this pair');
+    }
+    const discardId = keepId === pair.expenseId ? pair.otherId : pair.expenseId;
+
+    await db.transaction('rw', [db.expenses, db.trash, db.tags, db.syncQueue, db.revisions, db.duplicates, db.mediaFiles], async () => {
+      const [keep, discard] = await db.expenses.bulkGet([keepId, discardId]);
+      if (!keep || !discard) {
+        throw new Error('One of these expenses no longer exists');
+      }
+
+      // Attachments carry over, so purging the discarded expense later doesn't
+      // take them along. They go after the kept expense's own, whose receipt
+      // stays first.
+      await attachmentManager.transferAttachments(discardId, keepId);
+
+      const updates = DuplicateUtils.getMergeUpdates(keep, discard);
+      if (Object.keys(updates).length > 0) {
+        await db.updateExpense(keepId, updates);
+      }
+      await db.deleteExpense(discardId);
+
+      // Other pairs involving the discarded expense are moot now
+      await db.duplicates.where('expenseId').equals(discardId).or('otherId').equals(discardId).delete();
+    });
+
+    this.emit('duplicatesChanged');
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+
+  // Helper methods
+
+  /**
+   * Receipt hashes by media id
+   */
+  private async getReceiptHashes(): Promise<Map<string, string>> {
+    const files = await db.mediaFiles.filter(file => !!file.hash).toArray();
+    return new Map(files.map(file => [file.mediaId, file.hash!]));
+  }
+
+  /**
+   * Store new pairs lower id first, leaving pairs already recorded (including
+   * dismissed ones) alone
+   */
+  private async recordPairs(matches: Array<[Expense, Expense, DuplicateMatch]>): Promise<DuplicatePair[]> {
+    if (matches.length === 0) return [];
+
+    const added = await db.transaction('rw', db.duplicates, async () => {
+      const pairs: DuplicatePair[] = [];
+      for (const [a, b, match] of matches) {
+        const [expenseId, otherId] = [a.id!, b.id!].sort((x, y) => x - y) as [number, number];
+        const existing = await db.duplicates.where('[expenseId+otherId]').equals([expenseId, otherId]).first();
+        if (existing) continue;
+
+        const pair: DuplicatePair = {
+          expenseId,
+          otherId,
+          score: match.score,
+          reasons: match.reasons,
+          status: 'pending',
+          detectedAt: new Date(),
+        };
+        pair.id = await db.duplicates.add(pair);
+        pairs.push(pair);
+      }
+      return pairs;
+    });
+
+    if (added.length > 0) {
+      this.emit('duplicatesChanged', added);
+    }
+    return added;
+  }
+}
+
+// Singleton instance
+export const duplicateManager = new DuplicateManager();
+
+export default duplicateManager;
@@ -0,0 +1,218 @@
+/**
+ * Savings Goals
+ * Manages goals being saved toward, the contributions made to them and
+ * projections of when each goal will be reached
+ */
+
+import { db, type Goal, type GoalContribution } from '@/lib/database';
+
+export type GoalInput = Omit<Goal, 'id' | 'createdAt' | 'updatedAt' | 'isArchived'>;
+export type ContributionInput = Omit<GoalContribution, 'id' | 'createdAt'>;
+
+export interface GoalProgress {
+  goal: Goal;
+  saved: number; // Minor units of the goal's currency
+  remaining: number; // Never below zero
+  percentComplete: number; // Capped at 100
+  isComplete: boolean;
+  monthlyRate: number; // Average saved per month over the recent window
+  projectedDate: Date | null; // When the goal is reached at the recent rate; null when it isn't being saved toward
+  requiredMonthly: number | null; // Needed per month to hit the deadline, null without one
+  onTrack: boolean | null; // Whether the projection beats the deadline, null without one
+  lastContribution?: GoalContribution;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// How far back contributions count toward the saving rate
+const RATE_WINDOW_DAYS = 90;
+
+// Utility functions
+export const GoalUtils = {
+  /**
+   * Average saved per day over the recent window. A goal younger than the
+   * window is averaged over its own age, so a fresh goal isn't understated.
+   */
+  getDailyRate(contributions: GoalContribution[], now: Date = new Date()): number {
+    if (contributions.length === 0) return 0;
+
+    const windowStart = now.getTime() - RATE_WINDOW_DAYS * DAY_MS;
+    const first = Math.min(...contributions.map(contribution => contribution.date.getTime()));
+    const days = Math.max(1, Math.min(RATE_WINDOW_DAYS, Math.ceil((now.getTime() - first) / DAY_MS) + 1));
+
+    const saved = contributions
+      .filter(contribution => contribution.date.getTime() >= windowStart && contribution.date <= now)
+      .reduce((sum, contribution) => sum + contribution.amount, 0);
+    return saved / days;
+  },
+
+  getProgress(goal: Goal, contributions: GoalContribution[], now: Date = new Date()): GoalProgress {
+    const saved = contributions.reduce((sum, contribution) => sum + contribution.amount, 0);
+    const remaining = Math.max(0, goal.targetAmount - saved);
+    const isComplete = remaining === 0;
+    const dailyRate = this.getDailyRate(contributions, now);
+
+    let projectedDate: Date | null = null;
+    if (isComplete) {
+      projectedDate = now;
+    } else if (dailyRate > 0) {
+      projectedDate = new Date(now.getTime() + Math.ceil(remaining / dailyRate) * DAY_MS);
+    }
+
+    let requiredMonthly: number | null = null;
+    let onTrack: boolean | null = null;
+    if (goal.deadline) {
+      const monthsLeft = (goal.deadline.getTime() - now.getTime()) / (DAYS_PER_MONTH * DAY_MS);
+      requiredMonthly = isComplete ? 0 : monthsLeft > 0 ? Math.ceil(remaining / monthsLeft) : remaining;
+      onTrack = projectedDate !== null && projectedDate <= goal.deadline;
+    }
+
+    const sorted = [...contributions].sort((a, b) => b.date.getTime() - a.date.getTime());
+
+    return {
+      goal,
+      saved,
+      remaining,
+      percentComplete: goal.targetAmount > 0 ? Math.min(100, Math.max(0, (saved / goal.targetAmount) * 100)) : 100,
+      isComplete,
+      monthlyRate: Math.round(dailyRate * DAYS_PER_MONTH),
+      projectedDate,
+      requiredMonthly,
+      onTrack,
+      lastContribution: sorted[0],
+    };
+  },
+
+  validate(goal: Partial<GoalInput>): void {
+    if (goal.name !== undefined && !goal.name.trim()) {
+      throw new Error('Please enter a goal name.');
+    }
+    if (goal.targetAmount !== undefined && (!Number.isSafeInteger(goal.targetAmount) || goal.targetAmount <= 0)) {
+      throw new Error('Please enter a valid target amount.');
+    }
+  },
+};
+
+class GoalManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  async getGoals(includeArchived = false): Promise<Goal[]> {
+    const goals = await db.goals.orderBy('name').toArray();
+    return includeArchived ? goals : goals.filter(goal => !goal.isArchived);
+  }
+
+  async createGoal(goal: GoalInput): Promise<number> {
+    GoalUtils.validate(goal);
+
+    const id = await db.goals.add({
+      ...goal,
+      name: goal.name.trim(),
+      currency: goal.currency.toUpperCase(),
+      isArchived: false,
+    } as Goal);
+
+    this.emit('goalsChanged');
+    return id;
+  }
+
+  async updateGoal(id: number, updates: Partial<Omit<Goal, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+    GoalUtils.validate(updates);
+
+    await db.goals.update(id, updates.name !== undefined ? { ...updates, name: updates.name.trim() } : updates);
+    this.emit('goalsChanged');
+  }
+
+  async archiveGoal(id: number, archived = true): Promise<void> {
+    await this.updateGoal(id, { isArchived: archived });
+  }
+
+  /**
+   * Delete a goal along with its contributions
+   */
+  async deleteGoal(id: number): Promise<void> {
+    await db.transaction('rw', [db.goals, db.goalContributions], async () => {
+      await db.goalContributions.where('goalId').equals(id).delete();
+      await db.goals.delete(id);
+    });
+    this.emit('goalsChanged');
+  }
+
+  async getContributions(goalId: number): Promise<GoalContribution[]> {
+    const contributions = await db.goalContributions.where('goalId').equals(goalId).toArray();
+    return contributions.sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  /**
+   * Record money put toward a goal, or taken out of it when negative
+   */
+  async addContribution(contribution: ContributionInput): Promise<number> {
+    if (!Number.isSafeInteger(contribution.amount) || contribution.amount === 0) {
+      throw new Error('Please enter a valid amount.');
+    }
+    if (!(await db.goals.get(contribution.goalId))) {
+      throw new Error(`Goal ${contribution.goalId} not found`);
+    }
+
+    const id = await db.goalContributions.add({
+      ...contribution,
+      notes: contribution.notes?.trim() || undefined,
+    } as GoalContribution);
+
+    this.emit('goalsChanged');
+    return id;
+  }
+
+  async deleteContribution(id: number): Promise<void> {
+    await db.goalContributions.delete(id);
+    this.emit('goalsChanged');
+  }
+
+  /**
+   * Progress and projections for every active goal
+   */
+  async getProgress(now: Date = new Date()): Promise<GoalProgress[]> {
+    const goals = await this.getGoals();
+    const contributions = await db.goalContributions.toArray();
+
+    return goals.map(goal =>
+      GoalUtils.getProgress(
+        goal,
+        contributions.filter(contribution => contribution.goalId === goal.id),
+        now
+      )
+    );
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const goalManager = new GoalManager();
+
+// Common goal icons
+export const GOAL_ICONS = ['🎯', '✈️', '💻', '🏠', '🚗', '🎓', '💍', '🛟'];
+
+export default goalManager;
@@ -0,0 +1,194 @@
+/**
+ * Undo/Redo
+ * App-wide undo and redo of expense changes, replayed from the revision log
+ */
+
+import { db, type ExpenseRevision, type RevisionOptions } from '@/lib/database';
+import { RevisionUtils } from '@/lib/revisions';
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+// Most changes kept on the undo stack
+const MAX_UNDO_STEPS = 100;
+
+// Utility functions
+export const HistoryUtils = {
+  /**
+   * Short description such as "Edit Amount, Category" or "Delete Lunch"
+   */
+  describe(revision: ExpenseRevision): string {
+    const description = revision.changes.find(change => change.field === 'description');
+    const name = (description?.after ?? description?.before) as string | undefined;
+
+    switch (revision.operation) {
+      case 'create':
+        return `Add ${name ?? 'expense'}`;
+      case 'delete':
+        return `Delete ${name ?? 'expense'}`;
+      case 'restore':
+        return `Restore ${name ?? 'expense'}`;
+      case 'update':
+        return `Edit ${revision.changes.map(change => RevisionUtils.getFieldLabel(change.field)).join(', ')}`;
+    }
+  },
+};
+
+class HistoryManager {
+  private undoStack: ExpenseRevision[] = [];
+  private redoStack: ExpenseRevision[] = [];
+  private lastSeenId = 0;
+  private readonly sessionStart = new Date();
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  async getState(): Promise<HistoryState> {
+    await this.syncStacks();
+    const undo = this.undoStack[this.undoStack.length - 1];
+    const redo = this.redoStack[this.redoStack.length - 1];
+
+    return {
+      canUndo: !!undo,
+      canRedo: !!redo,
+      undoLabel: undo ? HistoryUtils.describe(undo) : null,
+      redoLabel: redo ? HistoryUtils.describe(redo) : null,
+    };
+  }
+
+  /**
+   * Revert the most recent change made this session
+   */
+  async undo(): Promise<ExpenseRevision | null> {
+    await this.syncStacks();
+    const revision = this.undoStack.pop();
+    if (!revision) return null;
+
+    try {
+      await this.apply(revision, 'undo');
+    } catch (error) {
+      // Leave the stacks as they were so the user can see what failed
+      this.undoStack.push(revision);
+      throw error;
+    }
+
+    this.redoStack.push(revision);
+    this.emit('historyChanged');
+    return revision;
+  }
+
+  async redo(): Promise<ExpenseRevision | null> {
+    await this.syncStacks();
+    const revision = this.redoStack.pop();
+    if (!revision) return null;
+
+    try {
+      await this.apply(revision, 'redo');
+    } catch (error) {
+      this.redoStack.push(revision);
+      throw error;
+    }
+
+    this.undoStack.push(revision);
+    this.emit('historyChanged');
+    return revision;
+  }
+
+  /**
+   * Put back the values an earlier edit replaced. Recorded as a new change,
+   * so it can itself be undone.
+   */
+  async revert(revisionId: number): Promise<void> {
+    const revision = await db.revisions.get(revisionId);
+    if (!revision) {
+      throw new Error(`Revision ${revisionId} not found`);
+    }
+
+    await this.apply(revision, 'undo', { source: 'user' });
+    this.emit('historyChanged');
+  }
+
+  // Helper methods
+
+  /**
+   * Pick up changes recorded since the last look. Only this session's own
+   * edits are undoable; automated changes and undo/redo replays are not.
+   */
+  private async syncStacks(): Promise<void> {
+    const revisions = this.lastSeenId === 0
+      ? await db.revisions.where('timestamp').aboveOrEqual(this.sessionStart).sortBy('id')
+      : await db.revisions.where('id').above(this.lastSeenId).toArray();
+    if (revisions.length === 0) return;
+
+    this.lastSeenId = revisions[revisions.length - 1]!.id!;
+    const edits = revisions.filter(revision => revision.source === 'user' && revision.timestamp >= this.sessionStart);
+    if (edits.length === 0) return;
+
+    // A new edit starts a new branch of history
+    this.undoStack.push(...edits);
+    this.undoStack = this.undoStack.slice(-MAX_UNDO_STEPS);
+    this.redoStack = [];
+  }
+
+  private async apply(revision: ExpenseRevision, direction: 'undo' | 'redo', options: RevisionOptions = { source: direction }): Promise<void> {
+    const { expenseId, operation } = revision;
+    const reverse = direction === 'undo';
+
+    switch (operation) {
+      case 'create':
+      case 'restore':
+        if (reverse) {
+          await db.deleteExpense(expenseId, options);
+        } else {
+          await db.restoreExpense(expenseId, options);
+        }
+        break;
+      case 'delete':
+        if (reverse) {
+          await db.restoreExpense(expenseId, options);
+        } else {
+          await db.deleteExpense(expenseId, options);
+        }
+        break;
+      case 'update': {
+        if (!(await db.expenses.get(expenseId))) {
+          throw new Error('This expense has been deleted.');
+        }
+        const values = Object.fromEntries(revision.changes.map(change => [change.field, reverse ? change.before : change.after]));
+        await db.updateExpense(expenseId, values, options);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const historyManager = new HistoryManager();
+
+export default historyManager;
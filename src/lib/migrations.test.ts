@@ -0,0 +1,263 @@
+import Dexie from 'dexie';
+import { clear, get, keys } from 'idb-keyval';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BackupData } from '@/lib/backup';
+import {
+  BACKUP_MIGRATIONS,
+  CURRENT_BACKUP_VERSION,
+  DATABASE_MIGRATIONS,
+  DATABASE_NAME,
+  MigrationUtils,
+  PRE_MIGRATION_BACKUP_PREFIX,
+} from '@/lib/migrations';
+
+const JAN_5 = new Date(Date.UTC(2024, 0, 5));
+
+function makeBackup(version: string, data: Partial<BackupData['data']>): BackupData {
+  return {
+    version,
+    createdAt: JAN_5,
+    appVersion: 'test',
+    data: { expenses: [], categories: [], settings: [], preferences: null, appState: null, ...data },
+    metadata: { totalExpenses: 0, totalCategories: 0, dateRange: { start: null, end: null }, fileCount: 0, mediaSize: 0 },
+  };
+}
+
+function getStep(from: string) {
+  return BACKUP_MIGRATIONS.find(step => step.from === from)!;
+}
+
+describe('backup migrations', () => {
+  it('1.0 to 1.1 sets currency and kind and normalizes tags', () => {
+    const backup = makeBackup('1.0', {
+      expenses: [
+        { id: 1, amount: 12.5, tags: ['Work ', 'work', 'Travel'] },
+        { id: 2, amount: 3, currency: 'EUR', kind: 'income', tags: ['salary'] },
+      ],
+      categories: [{ id: 1, name: 'Food' }],
+      preferences: { currency: 'GBP' },
+    });
+
+    const changes = getStep('1.0').migrate(backup);
+
+    expect(backup.data.expenses[0]).toMatchObject({ currency: 'GBP', kind: 'expense', tags: ['work', 'travel'] });
+    expect(backup.data.expenses[1]).toMatchObject({ currency: 'EUR', kind: 'income', tags: ['salary'] });
+    expect(backup.data.categories[0].kind).toBe('expense');
+    expect(changes).toEqual([
+      'Set currency to GBP on 1 expenses',
+      'Marked 1 transactions as expenses',
+      'Marked 1 categories as expense categories',
+      'Normalized tags on 1 expenses',
+    ]);
+  });
+
+  it('1.0 to 1.1 reports nothing for backups already in shape', () => {
+    const backup = makeBackup('1.0', {
+      expenses: [{ id: 1, amount: 1, currency: 'USD', kind: 'expense', tags: ['work'] }],
+      categories: [{ id: 1, name: 'Food', kind: 'expense' }],
+    });
+
+    expect(getStep('1.0').migrate(backup)).toEqual([]);
+  });
+
+  it('1.1 to 1.2 converts every amount to minor units of its currency', () => {
+    const backup = makeBackup('1.1', {
+      settings: [{ key: 'currency', value: 'USD' }],
+      accounts: [
+        { id: 1, name: 'Checking', currency: 'USD', openingBalance: 100.25 },
+        { id: 2, name: 'Yen wallet', currency: 'JPY', openingBalance: 5000 },
+      ],
+      expenses: [
+        { id: 1, kind: 'expense', amount: 12.34, currency: 'USD', splits: [{ category: 'Food', amount: 10 }, { category: 'Drinks', amount: 2.34 }] },
+        { id: 2, kind: 'expense', amount: 1500, currency: 'JPY' },
+        { id: 3, kind: 'transfer', amount: 10, currency: 'USD', accountId: 1, toAccountId: 2, toAmount: 1450 },
+      ],
+      trash: [{ id: 4, kind: 'expense', amount: 0.99, currency: 'USD' }],
+      categories: [{ id: 1, name: 'Food', kind: 'expense', budget: 250.5 }, { id: 2, name: 'Drinks', kind: 'expense' }],
+      recurringRules: [
+        {
+          id: 1,
+          template: { amount: 9.99, currency: 'USD' },
+          exceptions: [{ date: JAN_5, overrides: { amount: 12.49 } }, { date: JAN_5, skip: true }],
+        },
+      ],
+      revisions: [
+        { id: 1, expenseId: 2, changes: [{ field: 'amount', before: 1000, after: 1500 }] },
+        { id: 2, expenseId: 1, changes: [{ field: 'amount', before: 10.5, after: 12.34 }, { field: 'description', before: 'a', after: 'b' }] },
+      ],
+    });
+
+    const changes = getStep('1.1').migrate(backup);
+
+    expect(backup.data.expenses.map(expense => expense.amount)).toEqual([1234, 1500, 1000]);
+    expect(backup.data.expenses[0].splits.map((split: { amount: number }) => split.amount)).toEqual([1000, 234]);
+    expect(backup.data.expenses[2].toAmount).toBe(1450); // Received in yen
+    expect(backup.data.trash![0].amount).toBe(99);
+    expect(backup.data.categories.map(category => category.budget)).toEqual([25050, undefined]);
+    expect(backup.data.accounts!.map(account => account.openingBalance)).toEqual([10025, 5000]);
+    expect(backup.data.recurringRules![0].template.amount).toBe(999);
+    expect(backup.data.recurringRules![0].exceptions[0].overrides.amount).toBe(1249);
+    expect(backup.data.revisions![0].changes[0]).toMatchObject({ before: 1000, after: 1500 });
+    expect(backup.data.revisions![1].changes).toEqual([
+      { field: 'amount', before: 1050, after: 1234 },
+      { field: 'description', before: 'a', after: 'b' },
+    ]);
+    expect(changes).toEqual([
+      'Converted amounts on 4 transactions to minor units',
+      'Converted 1 budgets to minor units of USD',
+      'Converted opening balances on 2 accounts',
+      'Converted amounts on 1 recurring rules',
+    ]);
+  });
+});
+
+describe('MigrationUtils.migrateBackup', () => {
+  const makeOldBackup = () =>
+    makeBackup('1.0', {
+      expenses: [{ id: 1, amount: 12.34, tags: [] }],
+      preferences: { currency: 'EUR' },
+    });
+
+  it('reports the steps of a dry run without changing the backup', () => {
+    const backup = makeOldBackup();
+    const before = structuredClone(backup);
+
+    const { backup: result, report } = MigrationUtils.migrateBackup(backup, { dryRun: true });
+
+    expect(result).toBe(backup);
+    expect(backup).toEqual(before);
+    expect(report).toMatchObject({ fromVersion: '1.0', toVersion: CURRENT_BACKUP_VERSION, dryRun: true });
+    expect(report.steps.map(step => step.version)).toEqual(['1.1', '1.2']);
+    expect(report.steps[1]!.changes).toContain('Converted amounts on 1 transactions to minor units');
+  });
+
+  it('upgrades the backup in place through every step', () => {
+    const backup = makeOldBackup();
+
+    const { backup: result, report } = MigrationUtils.migrateBackup(backup);
+
+    expect(result).toBe(backup);
+    expect(report.dryRun).toBe(false);
+    expect(backup.version).toBe(CURRENT_BACKUP_VERSION);
+    expect(backup.data.expenses[0]).toMatchObject({ amount: 1234, currency: 'EUR', kind: 'expense' });
+  });
+
+  it('leaves current backups as they are', () => {
+    const backup = makeBackup(CURRENT_BACKUP_VERSION, { expenses: [{ id: 1, amount: 1234, currency: 'USD' }] });
+
+    const { report } = MigrationUtils.migrateBackup(backup);
+
+    expect(report.steps).toEqual([]);
+    expect(backup.data.expenses[0].amount).toBe(1234);
+  });
+
+  it('rejects backup versions it does not know', () => {
+    expect(() => MigrationUtils.migrateBackup(makeBackup('9.0', {}))).toThrow('Unsupported backup version 9.0');
+  });
+
+  it('matches database versions to the backup format of their rows', () => {
+    expect(MigrationUtils.getBackupVersionForDatabase(1)).toBe('1.0');
+    expect(MigrationUtils.getBackupVersionForDatabase(11)).toBe('1.0');
+    expect(MigrationUtils.getBackupVersionForDatabase(12)).toBe('1.2');
+    expect(MigrationUtils.getBackupVersionForDatabase(MigrationUtils.getLatestDatabaseVersion())).toBe('1.2');
+  });
+});
+
+describe('database upgrade', () => {
+  // A database as the first release of the app left it
+  async function createVersion1Database(): Promise<void> {
+    const legacy = new Dexie(DATABASE_NAME);
+    legacy.version(1).stores(DATABASE_MIGRATIONS[0]!.stores);
+    await legacy.table('settings').add({ key: 'currency', value: 'EUR', updatedAt: JAN_5 });
+    await legacy.table('categories').add({ name: 'Food', color: '#000000', icon: 'food', isDefault: true, createdAt: JAN_5 });
+    await legacy.table('expenses').bulkAdd([
+      { amount: 12.34, description: 'Team lunch', category: 'Food', paymentMethod: 'card', date: JAN_5, tags: ['Work ', 'work'], createdAt: JAN_5, updatedAt: JAN_5, syncStatus: 'synced' },
+      { amount: 0.5, description: 'Gum', category: 'Food', paymentMethod: 'cash', date: new Date(Date.UTC(2024, 1, 2)), createdAt: JAN_5, updatedAt: JAN_5, syncStatus: 'synced' },
+    ]);
+    legacy.close();
+  }
+
+  async function getInstalledVersion(): Promise<number> {
+    const raw = new Dexie(DATABASE_NAME);
+    await raw.open();
+    const version = raw.verno;
+    raw.close();
+    return version;
+  }
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await createVersion1Database();
+  });
+
+  afterEach(async () => {
+    const { db } = await import('@/lib/database');
+    db.close();
+    await Dexie.delete(DATABASE_NAME);
+    await clear();
+    vi.doUnmock('idb-keyval');
+    vi.restoreAllMocks();
+  });
+
+  it('plans every pending step without upgrading', async () => {
+    const { migrationManager } = await import('@/lib/migrations');
+
+    const report = await migrationManager.planDatabaseMigration();
+
+    expect(report.fromVersion).toBe('1');
+    expect(report.toVersion).toBe(String(MigrationUtils.getLatestDatabaseVersion()));
+    expect(report.steps).toHaveLength(DATABASE_MIGRATIONS.length - 1);
+    expect(report.steps.find(step => step.version === '12')!.changes).toContain('Rewrite 2 rows in expenses');
+    expect(report.steps.find(step => step.version === '2')!.changes).toContain('Create table exchangeRates');
+    expect(await getInstalledVersion()).toBe(1);
+  });
+
+  it('upgrades a version 1 database to the latest version', async () => {
+    const { db } = await import('@/lib/database');
+
+    const expenses = await db.expenses.orderBy('date').toArray();
+
+    expect(db.verno).toBe(MigrationUtils.getLatestDatabaseVersion());
+    expect(expenses[0]).toMatchObject({ amount: 1234, currency: 'EUR', kind: 'expense', tags: ['work'] });
+    expect(expenses[0]!.searchTerms).toContain('d:lunch');
+    expect(expenses[1]).toMatchObject({ amount: 50, currency: 'EUR', kind: 'expense', tags: [] });
+    expect(await db.tags.toArray()).toMatchObject([{ name: 'work', usageCount: 1 }]);
+    expect(await db.categories.where('kind').equals('income').count()).toBeGreaterThan(0);
+    expect(await db.verifyRollups()).toMatchObject({ ok: true, mismatches: [] });
+
+    const stats = await db.getExpenseStats(new Date(Date.UTC(2024, 0, 1)), new Date(Date.UTC(2024, 2, 1)));
+    expect(stats).toMatchObject({ baseCurrency: 'EUR', totalAmount: 1284, expenseCount: 2 });
+  });
+
+  it('stores a backup of the old data before upgrading', async () => {
+    const { db } = await import('@/lib/database');
+    await db.expenses.count();
+
+    const backupKeys = (await keys()).filter(key => String(key).startsWith(PRE_MIGRATION_BACKUP_PREFIX));
+    expect(backupKeys).toHaveLength(1);
+    expect(String(backupKeys[0])).toMatch(`${PRE_MIGRATION_BACKUP_PREFIX}v1-`);
+
+    const backup = (await get(backupKeys[0]!)) as BackupData;
+    expect(backup).toMatchObject({ version: '1.0', appVersion: 'db-v1' });
+    expect(backup.data.expenses.map(expense => expense.amount)).toEqual([12.34, 0.5]);
+
+    // The snapshot restores through the backup migrations
+    MigrationUtils.migrateBackup(backup);
+    expect(backup.data.expenses.map(expense => expense.amount)).toEqual([1234, 50]);
+  });
+
+  it('refuses to upgrade when the backup cannot be stored', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.doMock('idb-keyval', async importOriginal => ({
+      ...(await importOriginal<typeof import('idb-keyval')>()),
+      set: () => Promise.reject(new Error('Quota exceeded')),
+    }));
+    const { db } = await import('@/lib/database');
+
+    await expect(db.expenses.count()).rejects.toThrow('Could not back up your data');
+
+    db.close();
+    expect(await getInstalledVersion()).toBe(1);
+  });
+});
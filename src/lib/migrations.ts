@@ -0,0 +1,732 @@
+/**
+ * Schema Migrations
+ * Ordered upgrade steps for the IndexedDB schema and for backup payloads,
+ * with dry-run reports and an automatic backup before the database is upgraded
+ */
+
+import type { Transaction } from 'dexie';
+import { set } from 'idb-keyval';
+import type { Account, Category, Expense, ExpenseRevision, MediaFile, MonthlyRollup, RecurringRule, TrashedExpense } from '@/lib/database';
+import type { BackupData } from '@/lib/backup';
+import { SearchUtils } from '@/lib/search';
+import { TagUtils } from '@/lib/tags';
+import { CategoryUtils } from '@/lib/categories';
+import { MoneyUtils } from '@/lib/money';
+import { REVISION_MONEY_FIELDS } from '@/lib/revisions';
+import { RollupUtils } from '@/lib/rollups';
+
+export interface DatabaseMigration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>;
+  rewrites?: string[]; // Tables whose existing rows the upgrade modifies
+  backupVersion?: string; // Backup format the rows are in from this version on
+  upgrade?: (trans: Transaction) => Promise<void>;
+}
+
+export interface BackupMigration {
+  from: string;
+  to: string;
+  description: string;
+  // Mutates the backup in place and describes what it changed
+  migrate: (backup: BackupData) => string[];
+}
+
+export interface MigrationStepReport {
+  version: string;
+  description: string;
+  changes: string[];
+}
+
+export interface MigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  dryRun: boolean;
+  steps: MigrationStepReport[];
+}
+
+export const DATABASE_NAME = 'ExpenseWalletDB';
+
+// Prefix for the local backups taken before a schema upgrade
+export const PRE_MIGRATION_BACKUP_PREFIX = 'pre-migration-backup-';
+
+// Expense indexes by version; Dexie needs the full list whenever it changes
+const EXPENSE_INDEXES = {
+  v1: '++id, amount, category, paymentMethod, date, createdAt, syncStatus, cloudId',
+  v2: '++id, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId',
+  v3: '++id, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate]',
+  v4: '++id, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate], *splitCategories',
+  v5: '++id, kind, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate], *splitCategories',
+  v6: '++id, kind, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate], *splitCategories, accountId, toAccountId',
+  v7: '++id, kind, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate], *splitCategories, accountId, toAccountId, *searchTerms',
+  v8: '++id, kind, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate], *splitCategories, accountId, toAccountId, *searchTerms, *tags',
+  v13: '++id, kind, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate], *splitCategories, accountId, toAccountId, *searchTerms, *tags, [kind+date], [paymentMethod+date], [syncStatus+date]',
+  v16: '++id, kind, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate], *splitCategories, accountId, toAccountId, *searchTerms, *tags, [kind+date], [paymentMethod+date], [syncStatus+date], payeeId',
+  v18: '++id, kind, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate], *splitCategories, accountId, toAccountId, *searchTerms, *tags, [kind+date], [paymentMethod+date], [syncStatus+date], payeeId, *sharedWith',
+  v19: '++id, kind, amount, currency, category, paymentMethod, date, createdAt, syncStatus, cloudId, recurringRuleId, [recurringRuleId+recurrenceDate], *splitCategories, accountId, toAccountId, *searchTerms, *tags, [kind+date], [paymentMethod+date], [syncStatus+date], payeeId, *sharedWith, [projectId+date]',
+};
+
+/**
+ * Database schema versions, oldest first. New versions are appended here;
+ * existing entries must never change once released.
+ */
+export const DATABASE_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      expenses: EXPENSE_INDEXES.v1,
+      categories: '++id, name, isDefault, createdAt',
+      mediaFiles: '++id, mediaId, fileName, mimeType, createdAt, expenseId',
+      syncQueue: '++id, operation, entityType, entityId, timestamp, retryCount',
+      settings: '++id, key, updatedAt',
+    },
+  },
+  {
+    version: 2,
+    description: 'Per-expense currency and dated exchange rates',
+    stores: {
+      expenses: EXPENSE_INDEXES.v2,
+      exchangeRates: '++id, [base+quote+date], [base+quote], date',
+    },
+    rewrites: ['expenses'],
+    upgrade: async (trans) => {
+      // Existing expenses were recorded in the global currency setting
+      const setting = await trans.table('settings').where('key').equals('currency').first();
+      const currency = setting?.value || 'USD';
+      await trans.table('expenses').toCollection().modify((expense: Expense) => {
+        if (!expense.currency) {
+          expense.currency = currency;
+        }
+      });
+    },
+  },
+  {
+    version: 3,
+    description: 'Recurring expense rules',
+    stores: {
+      expenses: EXPENSE_INDEXES.v3,
+      recurringRules: '++id, status, nextDate',
+    },
+  },
+  {
+    version: 4,
+    description: 'Split transactions, indexed by every category they touch',
+    stores: {
+      expenses: EXPENSE_INDEXES.v4,
+    },
+  },
+  {
+    version: 5,
+    description: 'Income and transfer transactions alongside expenses',
+    stores: {
+      expenses: EXPENSE_INDEXES.v5,
+      categories: '++id, name, kind, isDefault, createdAt',
+    },
+    rewrites: ['expenses', 'categories'],
+    upgrade: async (trans) => {
+      await trans.table('expenses').toCollection().modify((expense: Expense) => {
+        expense.kind = expense.kind || 'expense';
+      });
+      await trans.table('categories').toCollection().modify((category: Category) => {
+        category.kind = category.kind || 'expense';
+      });
+
+      // Existing databases only have the expense defaults
+      const incomeCategories = CategoryUtils.getDefaultCategories().filter(category => category.kind === 'income');
+      await trans.table('categories').bulkAdd(incomeCategories);
+    },
+  },
+  {
+    version: 6,
+    description: 'Accounts and transfers between them',
+    stores: {
+      expenses: EXPENSE_INDEXES.v6,
+      accounts: '++id, name, type, isArchived',
+    },
+  },
+  {
+    version: 7,
+    description: 'Full-text search terms',
+    stores: {
+      expenses: EXPENSE_INDEXES.v7,
+    },
+    rewrites: ['expenses'],
+    upgrade: async (trans) => {
+      await trans.table('expenses').toCollection().modify((expense: Expense) => {
+        expense.searchTerms = SearchUtils.getSearchTerms(expense);
+      });
+    },
+  },
+  {
+    version: 8,
+    description: 'Tag registry with colors and usage counts',
+    stores: {
+      expenses: EXPENSE_INDEXES.v8,
+      tags: '++id, &name, usageCount',
+    },
+    rewrites: ['expenses'],
+    upgrade: async (trans) => {
+      // Fold existing variants like "Work" and "work " into one tag
+      const usage = new Map<string, number>();
+      await trans.table('expenses').toCollection().modify((expense: Expense) => {
+        expense.tags = TagUtils.normalizeList(expense.tags);
+        expense.tags.forEach(tag => usage.set(tag, (usage.get(tag) ?? 0) + 1));
+      });
+
+      const now = new Date();
+      await trans.table('tags').bulkAdd(
+        Array.from(usage.entries()).map(([name, usageCount]) => ({
+          name,
+          color: TagUtils.getDefaultColor(name),
+          usageCount,
+          createdAt: now,
+          updatedAt: now,
+        }))
+      );
+    },
+  },
+  {
+    version: 9,
+    description: 'Nested categories',
+    stores: {
+      categories: '++id, name, kind, isDefault, createdAt, parentId',
+    },
+  },
+  {
+    version: 10,
+    description: 'Trash for deleted expenses',
+    stores: {
+      trash: 'id, deletedAt',
+    },
+  },
+  {
+    version: 11,
+    description: 'Expense revision history',
+    stores: {
+      revisions: '++id, expenseId, timestamp',
+    },
+  },
+  {
+    version: 12,
+    description: 'Amounts stored as integer minor units',
+    stores: {},
+    backupVersion: '1.2',
+    rewrites: ['expenses', 'trash', 'categories', 'accounts', 'recurringRules', 'revisions'],
+    upgrade: async (trans) => {
+      // Budgets were entered in the base currency
+      const setting = await trans.table('settings').where('key').equals('currency').first();
+      const base: string = setting?.value || 'USD';
+
+      const accounts: Account[] = await trans.table('accounts').toArray();
+      const accountCurrencies = new Map(accounts.map(account => [account.id, account.currency]));
+      const expenseCurrencies = new Map<number, string>();
+      const convertExpense = (expense: Expense) => {
+        const currency = expense.currency || base;
+        MigrationUtils.convertToMinorUnits(expense, currency, accountCurrencies.get(expense.toAccountId) ?? currency);
+        if (expense.id !== undefined) expenseCurrencies.set(expense.id, currency);
+      };
+
+      await trans.table('expenses').toCollection().modify(convertExpense);
+      await trans.table('trash').toCollection().modify((expense: TrashedExpense) => convertExpense(expense));
+      await trans.table('categories').toCollection().modify((category: Category) => {
+        if (typeof category.budget === 'number') {
+          category.budget = MoneyUtils.fromMajor(category.budget, base).amount;
+        }
+      });
+      await trans.table('accounts').toCollection().modify((account: Account) => {
+        account.openingBalance = MoneyUtils.fromMajor(account.openingBalance || 0, account.currency).amount;
+      });
+      await trans.table('recurringRules').toCollection().modify((rule: RecurringRule) => {
+        const currency = rule.template.currency || base;
+        const toCurrency = accountCurrencies.get(rule.template.toAccountId) ?? currency;
+        MigrationUtils.convertToMinorUnits(rule.template, currency, toCurrency);
+        rule.exceptions.forEach(exception => {
+          if (exception.overrides) {
+            MigrationUtils.convertToMinorUnits(exception.overrides, exception.overrides.currency || currency, toCurrency);
+          }
+        });
+      });
+      await trans.table('revisions').toCollection().modify((revision: ExpenseRevision) => {
+        const currency = expenseCurrencies.get(revision.expenseId) ?? base;
+        MigrationUtils.convertChangesToMinorUnits(revision, currency, accountCurrencies);
+      });
+    },
+  },
+  {
+    version: 13,
+    description: 'Compound indexes for paged expense queries',
+    stores: {
+      expenses: EXPENSE_INDEXES.v13,
+    },
+  },
+  {
+    version: 14,
+    description: 'Monthly rollups for statistics',
+    stores: {
+      rollups: '++id, &[month+kind+currency+dimension+key], month',
+    },
+    upgrade: async (trans) => {
+      const rows = new Map<string, MonthlyRollup>();
+      await trans.table('expenses').each((expense: Expense) => RollupUtils.accumulate(rows, RollupUtils.getEntries(expense)));
+      await trans.table('rollups').bulkAdd(Array.from(rows.values()));
+    },
+  },
+  {
+    version: 15,
+    description: 'Receipt hashes and duplicate expense review',
+    stores: {
+      mediaFiles: '++id, mediaId, fileName, mimeType, createdAt, expenseId, hash',
+      duplicates: '++id, &[expenseId+otherId], expenseId, otherId, status',
+    },
+  },
+  {
+    version: 16,
+    description: 'Payees with aliases and default categories',
+    stores: {
+      expenses: EXPENSE_INDEXES.v16,
+      payees: '++id, name, *aliases',
+    },
+  },
+  {
+    version: 17,
+    description: 'Auto-categorization rules',
+    stores: {
+      categorizationRules: '++id, order',
+    },
+  },
+  {
+    version: 18,
+    description: 'People, shared expenses and settlements',
+    stores: {
+      expenses: EXPENSE_INDEXES.v18,
+      people: '++id, name, isArchived',
+      settlements: '++id, date, fromPersonId, toPersonId, currency',
+    },
+  },
+  {
+    version: 19,
+    description: 'Trips and projects',
+    stores: {
+      expenses: EXPENSE_INDEXES.v19,
+      projects: '++id, name, isArchived',
+    },
+  },
+  {
+    version: 20,
+    description: 'Savings goals',
+    stores: {
+      goals: '++id, name, isArchived',
+      goalContributions: '++id, goalId, date',
+    },
+  },
+  {
+    version: 21,
+    description: 'Bill reminders',
+    stores: {
+      bills: '++id, dueDate, expenseId',
+    },
+  },
+  {
+    version: 22,
+    description: 'Multiple ordered attachments per expense',
+    stores: {
+      mediaFiles: '++id, mediaId, fileName, mimeType, createdAt, expenseId, hash, [expenseId+position]',
+    },
+    rewrites: ['mediaFiles'],
+    upgrade: async (trans) => {
+      // Each existing receipt becomes its expense's first attachment
+      const owners = new Map<string, number>();
+      const collect = (expense: Expense) => {
+        if (expense.receipt && expense.id !== undefined) owners.set(expense.receipt.mediaId, expense.id);
+      };
+      await trans.table('expenses').each(collect);
+      await trans.table('trash').each(collect);
+
+      await trans.table('mediaFiles').toCollection().modify((media: MediaFile) => {
+        const expenseId = owners.get(media.mediaId);
+        if (expenseId !== undefined) {
+          media.expenseId = expenseId;
+          media.position = 0;
+        }
+      });
+    },
+  },
+  {
+    version: 23,
+    description: 'Mileage logging',
+    stores: {
+      vehicles: '++id, name, isArchived',
+      mileageRates: '++id, effectiveFrom, vehicleId',
+      mileageTrips: '++id, date, vehicleId, expenseId',
+    },
+  },
+];
+
+/**
+ * Backup payload upgrades, oldest first. Each step runs only on backups of
+ * its `from` version, so it sees payloads in exactly the previous format.
+ */
+export const BACKUP_MIGRATIONS: BackupMigration[] = [
+  {
+    from: '1.0',
+    to: '1.1',
+    description: 'Currency, transaction type and normalized tags on every expense',
+    migrate: (backup) => {
+      const changes: string[] = [];
+      const expenses: any[] = backup.data.expenses ?? [];
+      const categories: any[] = backup.data.categories ?? [];
+
+      // Backups made before multi-currency support have no per-expense currency
+      const fallbackCurrency = backup.data.preferences?.currency || 'USD';
+      const withoutCurrency = expenses.filter(expense => !expense.currency);
+      withoutCurrency.forEach(expense => (expense.currency = fallbackCurrency));
+      if (withoutCurrency.length > 0) {
+        changes.push(`Set currency to ${fallbackCurrency} on ${withoutCurrency.length} expenses`);
+      }
+
+      const withoutKind = expenses.filter(expense => !expense.kind);
+      withoutKind.forEach(expense => (expense.kind = 'expense'));
+      if (withoutKind.length > 0) {
+        changes.push(`Marked ${withoutKind.length} transactions as expenses`);
+      }
+
+      const categoriesWithoutKind = categories.filter(category => !category.kind);
+      categoriesWithoutKind.forEach(category => (category.kind = 'expense'));
+      if (categoriesWithoutKind.length > 0) {
+        changes.push(`Marked ${categoriesWithoutKind.length} categories as expense categories`);
+      }
+
+      let retagged = 0;
+      expenses.forEach(expense => {
+        const tags = TagUtils.normalizeList(expense.tags);
+        if (JSON.stringify(tags) !== JSON.stringify(expense.tags ?? [])) {
+          retagged++;
+        }
+        expense.tags = tags;
+      });
+      if (retagged > 0) {
+        changes.push(`Normalized tags on ${retagged} expenses`);
+      }
+
+      return changes;
+    },
+  },
+  {
+    from: '1.1',
+    to: '1.2',
+    description: 'Amounts stored as integer minor units',
+    migrate: (backup) => {
+      const changes: string[] = [];
+      const base: string =
+        backup.data.settings?.find((setting: { key: string }) => setting.key === 'currency')?.value ||
+        backup.data.preferences?.currency ||
+        'USD';
+      const accounts: any[] = backup.data.accounts ?? [];
+      const accountCurrencies = new Map<number | undefined, string>(accounts.map(account => [account.id, account.currency]));
+      const expenseCurrencies = new Map<number, string>();
+
+      const expenses: any[] = [...backup.data.expenses, ...(backup.data.trash ?? [])];
+      expenses.forEach(expense => {
+        const currency = expense.currency || base;
+        MigrationUtils.convertToMinorUnits(expense, currency, accountCurrencies.get(expense.toAccountId) ?? currency);
+        expenseCurrencies.set(expense.id, currency);
+      });
+      if (expenses.length > 0) {
+        changes.push(`Converted amounts on ${expenses.length} transactions to minor units`);
+      }
+
+      const budgeted = backup.data.categories.filter(category => typeof category.budget === 'number');
+      budgeted.forEach(category => (category.budget = MoneyUtils.fromMajor(category.budget, base).amount));
+      if (budgeted.length > 0) {
+        changes.push(`Converted ${budgeted.length} budgets to minor units of ${base}`);
+      }
+
+      accounts.forEach(account => (account.openingBalance = MoneyUtils.fromMajor(account.openingBalance || 0, account.currency).amount));
+      if (accounts.length > 0) {
+        changes.push(`Converted opening balances on ${accounts.length} accounts`);
+      }
+
+      const rules: any[] = backup.data.recurringRules ?? [];
+      rules.forEach(rule => {
+        const currency = rule.template.currency || base;
+        const toCurrency = accountCurrencies.get(rule.template.toAccountId) ?? currency;
+        MigrationUtils.convertToMinorUnits(rule.template, currency, toCurrency);
+        (rule.exceptions ?? []).forEach((exception: any) => {
+          if (exception.overrides) {
+            MigrationUtils.convertToMinorUnits(exception.overrides, exception.overrides.currency || currency, toCurrency);
+          }
+        });
+      });
+      if (rules.length > 0) {
+        changes.push(`Converted amounts on ${rules.length} recurring rules`);
+      }
+
+      (backup.data.revisions ?? []).forEach((revision: ExpenseRevision) => {
+        MigrationUtils.convertChangesToMinorUnits(revision, expenseCurrencies.get(revision.expenseId) ?? base, accountCurrencies);
+      });
+
+      return changes;
+    },
+  },
+];
+
+export const CURRENT_BACKUP_VERSION = BACKUP_MIGRATIONS[BACKUP_MIGRATIONS.length - 1]!.to;
+
+// Utility functions
+export const MigrationUtils = {
+  getLatestDatabaseVersion(): number {
+    return DATABASE_MIGRATIONS[DATABASE_MIGRATIONS.length - 1]!.version;
+  },
+
+  getPendingDatabaseMigrations(installedVersion: number): DatabaseMigration[] {
+    return DATABASE_MIGRATIONS.filter(migration => migration.version > installedVersion);
+  },
+
+  /**
+   * Backup format matching the rows of a database at the given version, so
+   * a snapshot of it is migrated from the right starting point
+   */
+  getBackupVersionForDatabase(version: number): string {
+    const match = DATABASE_MIGRATIONS.filter(migration => migration.version <= version && migration.backupVersion).pop();
+    return match?.backupVersion ?? BACKUP_MIGRATIONS[0]!.from;
+  },
+
+  /**
+   * Bring a backup payload up to the current format. With `dryRun` the
+   * backup is left untouched and only the report is produced.
+   */
+  migrateBackup(backup: BackupData, options: { dryRun?: boolean } = {}): { backup: BackupData; report: MigrationReport } {
+    const target = options.dryRun ? structuredClone(backup) : backup;
+    const report: MigrationReport = {
+      fromVersion: backup.version,
+      toVersion: CURRENT_BACKUP_VERSION,
+      dryRun: options.dryRun ?? false,
+      steps: [],
+    };
+
+    if (backup.version !== CURRENT_BACKUP_VERSION && !BACKUP_MIGRATIONS.some(step => step.from === backup.version)) {
+      throw new Error(`Unsupported backup version ${backup.version}. It may have been made by a newer version of the app.`);
+    }
+
+    let step = BACKUP_MIGRATIONS.find(migration => migration.from === target.version);
+    while (step) {
+      report.steps.push({ version: step.to, description: step.description, changes: step.migrate(target) });
+      target.version = step.to;
+      step = BACKUP_MIGRATIONS.find(migration => migration.from === target.version);
+    }
+
+    return { backup: options.dryRun ? backup : target, report };
+  },
+
+  /**
+   * Rewrite the decimal amounts on an expense-shaped record as minor units.
+   * `toCurrency` is the destination account's currency, for `toAmount`.
+   */
+  convertToMinorUnits(record: Partial<Expense>, currency: string, toCurrency = currency): void {
+    if (typeof record.amount === 'number') {
+      record.amount = MoneyUtils.fromMajor(record.amount, currency).amount;
+    }
+    if (typeof record.toAmount === 'number') {
+      record.toAmount = MoneyUtils.fromMajor(record.toAmount, toCurrency).amount;
+    }
+    record.splits?.forEach(split => {
+      split.amount = MoneyUtils.fromMajor(split.amount, currency).amount;
+    });
+  },
+
+  /**
+   * Same for the before and after values recorded in a revision
+   */
+  convertChangesToMinorUnits(revision: ExpenseRevision, currency: string, accountCurrencies: Map<number | undefined, string>): void {
+    // A change of account tells us which currency the amount received was in
+    const toAccountChange = revision.changes.find(change => change.field === 'toAccountId');
+
+    revision.changes
+      .filter(change => REVISION_MONEY_FIELDS.includes(change.field))
+      .forEach(change => {
+        (['before', 'after'] as const).forEach(side => {
+          const record: Partial<Expense> = { [change.field]: structuredClone(change[side]) };
+          const toAccountId = toAccountChange?.[side] as number | undefined;
+          this.convertToMinorUnits(record, currency, accountCurrencies.get(toAccountId) ?? currency);
+          change[side] = record[change.field as keyof Expense];
+        });
+      });
+  },
+};
+
+class MigrationManager {
+  private snapshot: Promise<void> | null = null;
+  private snapshotError: Error | null = null;
+
+  /**
+   * Dry run of the database upgrade: which steps are pending and how many
+   * rows each would rewrite. Reads the database without upgrading it, so call
+   * it before the app first opens the database.
+   */
+  async planDatabaseMigration(): Promise<MigrationReport> {
+    const latest = MigrationUtils.getLatestDatabaseVersion();
+    const { version, counts } = await this.inspectDatabase();
+
+    return {
+      fromVersion: String(version),
+      toVersion: String(latest),
+      dryRun: true,
+      steps: MigrationUtils.getPendingDatabaseMigrations(version).map(migration => ({
+        version: String(migration.version),
+        description: migration.description,
+        changes: [
+          ...Object.entries(migration.stores).map(([table, indexes]) =>
+            indexes === null
+              ? `Delete table ${table}`
+              : counts.has(table)
+                ? `Update indexes on ${table}`
+                : `Create table ${table}`
+          ),
+          ...(migration.rewrites ?? []).map(table => `Rewrite ${counts.get(table) ?? 0} rows in ${table}`),
+        ],
+      })),
+    };
+  }
+
+  /**
+   * Store a copy of the installed database when an upgrade is pending. Call
+   * and wait for it before opening the database at the new version; it runs
+   * once per session. When the copy can't be stored the upgrade is refused.
+   */
+  backupBeforeUpgrade(): Promise<void> {
+    this.snapshot ??= this.savePreMigrationBackup().catch(error => {
+      console.error('Failed to store pre-migration backup:', error);
+      this.snapshotError = new Error(
+        'Could not back up your data before upgrading the database. Please free up some storage and reload the app.'
+      );
+    });
+    return this.snapshot;
+  }
+
+  /**
+   * Run one upgrade step inside Dexie's upgrade transaction
+   */
+  async runUpgrade(migration: DatabaseMigration, trans: Transaction): Promise<void> {
+    // Throwing aborts the upgrade and leaves the data at its old version
+    if (this.snapshotError) {
+      throw this.snapshotError;
+    }
+
+    if (!migration.upgrade) return;
+
+    console.log(`Migrating database to v${migration.version}: ${migration.description}`);
+    await migration.upgrade(trans);
+  }
+
+  // Helper methods
+
+  private async savePreMigrationBackup(): Promise<void> {
+    const { version, rows } = await this.inspectDatabase({ rows: true });
+    if (version === 0 || version >= MigrationUtils.getLatestDatabaseVersion()) return;
+
+    const createdAt = new Date();
+    const backup: BackupData = {
+      version: MigrationUtils.getBackupVersionForDatabase(version),
+      createdAt,
+      appVersion: `db-v${version}`,
+      data: {
+        expenses: rows.get('expenses') ?? [],
+        categories: rows.get('categories') ?? [],
+        settings: rows.get('settings') ?? [],
+        exchangeRates: rows.get('exchangeRates'),
+        recurringRules: rows.get('recurringRules'),
+        accounts: rows.get('accounts'),
+        tags: rows.get('tags'),
+        trash: rows.get('trash'),
+        revisions: rows.get('revisions'),
+        duplicates: rows.get('duplicates'),
+        payees: rows.get('payees'),
+        categorizationRules: rows.get('categorizationRules'),
+        people: rows.get('people'),
+        settlements: rows.get('settlements'),
+        projects: rows.get('projects'),
+        goals: rows.get('goals'),
+        goalContributions: rows.get('goalContributions'),
+        bills: rows.get('bills'),
+        vehicles: rows.get('vehicles'),
+        mileageRates: rows.get('mileageRates'),
+        mileageTrips: rows.get('mileageTrips'),
+        preferences: null,
+        appState: null,
+      },
+      metadata: {
+        totalExpenses: rows.get('expenses')?.length ?? 0,
+        totalCategories: rows.get('categories')?.length ?? 0,
+        dateRange: { start: null, end: null },
+        fileCount: rows.get('mediaFiles')?.length ?? 0,
+        mediaSize: 0,
+      },
+    };
+
+    await set(`${PRE_MIGRATION_BACKUP_PREFIX}v${version}-${createdAt.toISOString()}`, backup);
+  }
+
+  /**
+   * Installed schema version and row counts, read with plain IndexedDB so
+   * opening doesn't trigger an upgrade. With `rows` every table's rows are
+   * read as well.
+   */
+  private inspectDatabase(
+    options: { rows?: boolean } = {}
+  ): Promise<{ version: number; counts: Map<string, number>; rows: Map<string, any[]> }> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME);
+
+      request.onupgradeneeded = () => {
+        // The database doesn't exist yet; don't create it
+        request.transaction?.abort();
+      };
+      request.onerror = () => {
+        if (request.error?.name === 'AbortError') {
+          resolve({ version: 0, counts: new Map(), rows: new Map() });
+        } else {
+          reject(request.error);
+        }
+      };
+      request.onsuccess = () => {
+        const idb = request.result;
+        // Dexie stores versions multiplied by ten
+        const version = Math.round(idb.version / 10);
+        const storeNames = Array.from(idb.objectStoreNames);
+        const counts = new Map<string, number>();
+        const rows = new Map<string, any[]>();
+
+        if (storeNames.length === 0) {
+          idb.close();
+          resolve({ version, counts, rows });
+          return;
+        }
+
+        const tx = idb.transaction(storeNames, 'readonly');
+        storeNames.forEach(name => {
+          const countRequest = tx.objectStore(name).count();
+          countRequest.onsuccess = () => counts.set(name, countRequest.result);
+
+          if (options.rows) {
+            const rowsRequest = tx.objectStore(name).getAll();
+            rowsRequest.onsuccess = () => rows.set(name, rowsRequest.result);
+          }
+        });
+        tx.oncomplete = () => {
+          idb.close();
+          resolve({ version, counts, rows });
+        };
+        tx.onerror = () => {
+          idb.close();
+          reject(tx.error);
+        };
+      };
+    });
+  }
+}
+
+// Singleton instance
+export const migrationManager = new MigrationManager();
+
+export default migrationManager;
@@ -0,0 +1,443 @@
+/**
+ * Mileage
+ * Logs business trips by vehicle as distance times a dated per-distance
+ * rate, records each trip as a reimbursable expense and exports the log
+ */
+
+import { db, type DistanceUnit, type Expense, type MileageRate, type MileageTrip, type Vehicle } from '@/lib/database';
+import { MoneyUtils } from '@/lib/money';
+import { CsvUtils } from '@/lib/csv';
+import { trashManager } from '@/lib/trash';
+
+export type VehicleInput = Pick<Vehicle, 'name' | 'unit'>;
+
+export type MileageRateInput = Omit<MileageRate, 'id' | 'createdAt'>;
+
+// A trip as entered: odometer readings, or the distance alone
+export interface MileageTripInput {
+  date: Date;
+  vehicleId: number;
+  purpose: string;
+  startOdometer?: number;
+  endOdometer?: number;
+  distance?: number;
+  notes?: string;
+}
+
+const KM_PER_MILE = 1.609344;
+
+// Category of the expenses generated for trips
+export const MILEAGE_CATEGORY = 'Transportation';
+
+export const DISTANCE_UNITS: Array<{ value: DistanceUnit; label: string }> = [
+  { value: 'km', label: 'Kilometres' },
+  { value: 'mi', label: 'Miles' },
+];
+
+// Utility functions
+export const MileageUtils = {
+  convertDistance(distance: number, from: DistanceUnit, to: DistanceUnit): number {
+    if (from === to) return distance;
+    return from === 'mi' ? distance * KM_PER_MILE : distance / KM_PER_MILE;
+  },
+
+  /**
+   * Distance driven: end minus start when both odometer readings are
+   * given, otherwise the distance entered
+   */
+  getDistance(trip: Pick<MileageTripInput, 'startOdometer' | 'endOdometer' | 'distance'>): number {
+    if (trip.startOdometer !== undefined && trip.endOdometer !== undefined) {
+      return Math.round((trip.endOdometer - trip.startOdometer) * 10) / 10;
+    }
+    return trip.distance ?? NaN;
+  },
+
+  /**
+   * The rate in effect for a vehicle on a date: the latest one for that
+   * vehicle, or failing that the latest one for all vehicles
+   */
+  findRate(rates: MileageRate[], vehicleId: number, date: Date): MileageRate | undefined {
+    const latest = (candidates: MileageRate[]) =>
+      candidates
+        .filter(rate => rate.effectiveFrom <= date)
+        .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())[0];
+
+    return (
+      latest(rates.filter(rate => rate.vehicleId === vehicleId)) ??
+      latest(rates.filter(rate => rate.vehicleId === undefined))
+    );
+  },
+
+  /**
+   * A rate per distance unit, restated per another unit
+   */
+  convertRate(rate: MileageRate, unit: DistanceUnit): number {
+    return rate.rate * this.convertDistance(1, unit, rate.unit);
+  },
+
+  getAmount(distance: number, ratePerUnit: number): number {
+    return MoneyUtils.round(distance * ratePerUnit);
+  },
+
+  /**
+   * Read a rate typed in major units, e.g. "0.725", as fractional minor units
+   */
+  parseRate(input: string, currency: string): number {
+    const value = parseFloat(input.trim().replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0) return NaN;
+    return Math.round(value * 10 ** MoneyUtils.getMinorDigits(currency) * 1000) / 1000;
+  },
+
+  /**
+   * A rate in major units with up to two extra digits, e.g. "$0.725/mi"
+   */
+  formatRate(rate: number, currency: string, unit: DistanceUnit): string {
+    const digits = MoneyUtils.getMinorDigits(currency);
+    const amount = new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits + 2,
+    }).format(rate / 10 ** digits);
+    return `${amount}/${unit}`;
+  },
+
+  formatDistance(distance: number, unit: DistanceUnit): string {
+    return `${distance.toLocaleString('en-US', { maximumFractionDigits: 1 })} ${unit}`;
+  },
+
+  /**
+   * The reimbursable expense recorded for a trip
+   */
+  toExpense(trip: Omit<MileageTrip, 'id' | 'createdAt' | 'updatedAt'>, vehicle: Vehicle): Omit<Expense, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'> {
+    const odometer =
+      trip.startOdometer !== undefined && trip.endOdometer !== undefined
+        ? ` (odometer ${trip.startOdometer}–${trip.endOdometer})`
+        : '';
+
+    return {
+      kind: 'expense',
+      amount: trip.amount,
+      currency: trip.currency,
+      description: `Mileage: ${trip.purpose}`,
+      category: MILEAGE_CATEGORY,
+      paymentMethod: 'other',
+      date: trip.date,
+      notes: [
+        `${vehicle.name}, ${this.formatDistance(trip.distance, trip.unit)}${odometer} at ${this.formatRate(trip.rate, trip.currency, trip.unit)}`,
+        trip.notes,
+      ].filter(Boolean).join('\n'),
+      reimbursable: true,
+    };
+  },
+
+  /**
+   * The log as CSV, one row per trip, oldest first
+   */
+  toCSV(trips: MileageTrip[], vehicles: Vehicle[]): string {
+    const vehicleNames = new Map(vehicles.map(vehicle => [vehicle.id!, vehicle.name]));
+    const headers = [
+      'Date',
+      'Vehicle',
+      'Purpose',
+      'Start odometer',
+      'End odometer',
+      'Distance',
+      'Unit',
+      'Rate',
+      'Amount',
+      'Currency',
+      'Notes',
+      'Expense ID',
+    ];
+    const rows = [...trips]
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || (a.id ?? 0) - (b.id ?? 0))
+      .map(trip => [
+        trip.date.toISOString().split('T')[0]!,
+        CsvUtils.text(vehicleNames.get(trip.vehicleId) ?? ''),
+        CsvUtils.text(trip.purpose),
+        trip.startOdometer?.toString() ?? '',
+        trip.endOdometer?.toString() ?? '',
+        trip.distance.toString(),
+        trip.unit,
+        (trip.rate / 10 ** MoneyUtils.getMinorDigits(trip.currency)).toString(),
+        MoneyUtils.toInputValue({ amount: trip.amount, currency: trip.currency }),
+        trip.currency,
+        CsvUtils.text(trip.notes ?? ''),
+        trip.expenseId?.toString() ?? '',
+      ]);
+
+    return CsvUtils.build(headers, rows);
+  },
+
+  validateTrip(trip: MileageTripInput): void {
+    if (!trip.purpose.trim()) {
+      throw new Error('Please enter the purpose of the trip.');
+    }
+    if (isNaN(trip.date.getTime())) {
+      throw new Error('Please enter the date of the trip.');
+    }
+    if (
+      trip.startOdometer !== undefined &&
+      trip.endOdometer !== undefined &&
+      trip.endOdometer <= trip.startOdometer
+    ) {
+      throw new Error('The end odometer reading must be higher than the start.');
+    }
+
+    const distance = this.getDistance(trip);
+    if (!Number.isFinite(distance) || distance <= 0) {
+      throw new Error('Please enter odometer readings or a distance.');
+    }
+  },
+
+  validateRate(rate: MileageRateInput): void {
+    if (!Number.isFinite(rate.rate) || rate.rate <= 0) {
+      throw new Error('Please enter a valid rate.');
+    }
+    if (isNaN(rate.effectiveFrom.getTime())) {
+      throw new Error('Please enter the date the rate applies from.');
+    }
+  },
+};
+
+class MileageManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  async getVehicles(includeArchived = false): Promise<Vehicle[]> {
+    const vehicles = await db.vehicles.orderBy('name').toArray();
+    return includeArchived ? vehicles : vehicles.filter(vehicle => !vehicle.isArchived);
+  }
+
+  async createVehicle(vehicle: VehicleInput): Promise<number> {
+    if (!vehicle.name.trim()) {
+      throw new Error('Please enter a vehicle name.');
+    }
+
+    const id = await db.vehicles.add({ ...vehicle, name: vehicle.name.trim(), isArchived: false } as Vehicle);
+    this.emit('vehiclesChanged');
+    return id;
+  }
+
+  async archiveVehicle(id: number, archived = true): Promise<void> {
+    await db.vehicles.update(id, { isArchived: archived });
+    this.emit('vehiclesChanged');
+  }
+
+  /**
+   * Delete a vehicle with no trips. Vehicles with trips should be archived
+   * so the log keeps naming them.
+   */
+  async deleteVehicle(id: number): Promise<void> {
+    if ((await db.mileageTrips.where('vehicleId').equals(id).count()) > 0) {
+      throw new Error('This vehicle has trips. Archive it instead.');
+    }
+
+    await db.transaction('rw', [db.vehicles, db.mileageRates], async () => {
+      await db.mileageRates.where('vehicleId').equals(id).delete();
+      await db.vehicles.delete(id);
+    });
+    this.emit('vehiclesChanged');
+  }
+
+  /**
+   * Rates, most recent first
+   */
+  async getRates(): Promise<MileageRate[]> {
+    return await db.mileageRates.orderBy('effectiveFrom').reverse().toArray();
+  }
+
+  /**
+   * Add a rate. Trips already logged keep the rate they were recorded with.
+   */
+  async addRate(rate: MileageRateInput): Promise<number> {
+    MileageUtils.validateRate(rate);
+
+    const id = await db.mileageRates.add({ ...rate, currency: rate.currency.toUpperCase() } as MileageRate);
+    this.emit('ratesChanged');
+    return id;
+  }
+
+  async deleteRate(id: number): Promise<void> {
+    await db.mileageRates.delete(id);
+    this.emit('ratesChanged');
+  }
+
+  /**
+   * Trips, most recent first, optionally within a date range (inclusive)
+   */
+  async getTrips(from?: Date, to?: Date): Promise<MileageTrip[]> {
+    const trips = from || to
+      ? await db.mileageTrips.where('date').between(from ?? new Date(0), to ?? new Date(8.64e15), true, true).toArray()
+      : await db.mileageTrips.toArray();
+    return trips.sort((a, b) => b.date.getTime() - a.date.getTime() || (b.id ?? 0) - (a.id ?? 0));
+  }
+
+  /**
+   * The highest odometer reading logged for a vehicle, to start the next trip from
+   */
+  async getLastOdometer(vehicleId: number): Promise<number | undefined> {
+    const readings = (await db.mileageTrips.where('vehicleId').equals(vehicleId).toArray())
+      .map(trip => trip.endOdometer)
+      .filter((reading): reading is number => reading !== undefined);
+    return readings.length > 0 ? Math.max(...readings) : undefined;
+  }
+
+  /**
+   * Log a trip and record its reimbursable expense in one go
+   */
+  async logTrip(input: MileageTripInput): Promise<number> {
+    MileageUtils.validateTrip(input);
+
+    const id = await db.transaction(
+      'rw',
+      [db.mileageTrips, db.vehicles, db.mileageRates, db.expenses, db.tags, db.syncQueue, db.revisions],
+      async () => {
+        const { trip, vehicle } = await this.prepareTrip(input);
+        const expenseId = await db.addExpense(MileageUtils.toExpense(trip, vehicle));
+        return await db.mileageTrips.add({ ...trip, expenseId } as MileageTrip);
+      }
+    );
+
+    this.emit('tripsChanged');
+    return id;
+  }
+
+  /**
+   * Change a trip. The rate is looked up again for its date and the
+   * expense is updated to match, or recorded again if it was deleted.
+   */
+  async updateTrip(id: number, input: MileageTripInput): Promise<void> {
+    MileageUtils.validateTrip(input);
+
+    await db.transaction(
+      'rw',
+      [db.mileageTrips, db.vehicles, db.mileageRates, db.expenses, db.tags, db.syncQueue, db.revisions],
+      async () => {
+        const existing = await db.mileageTrips.get(id);
+        if (!existing) {
+          throw new Error(`Trip ${id} not found`);
+        }
+
+        const { trip, vehicle } = await this.prepareTrip(input);
+        const expense = MileageUtils.toExpense(trip, vehicle);
+        let expenseId = existing.expenseId;
+        if (expenseId !== undefined && (await db.expenses.get(expenseId))) {
+          await db.updateExpense(expenseId, expense);
+        } else {
+          expenseId = await db.addExpense(expense);
+        }
+
+        // Readings and notes left out are cleared, as undefined removes them
+        await db.mileageTrips.update(id, { ...trip, expenseId });
+      }
+    );
+
+    this.emit('tripsChanged');
+  }
+
+  /**
+   * Delete a trip. Its expense is moved to the trash.
+   */
+  async deleteTrip(id: number): Promise<void> {
+    const deleted = await db.transaction(
+      'rw',
+      [db.mileageTrips, db.expenses, db.trash, db.tags, db.syncQueue, db.revisions],
+      async () => {
+        const trip = await db.mileageTrips.get(id);
+        if (!trip) return false;
+
+        await db.mileageTrips.delete(id);
+        if (trip.expenseId !== undefined && (await db.expenses.get(trip.expenseId))) {
+          await trashManager.moveToTrash(trip.expenseId);
+        }
+        return true;
+      }
+    );
+
+    if (deleted) {
+      this.emit('tripsChanged');
+    }
+  }
+
+  /**
+   * Download the log, optionally for a date range (inclusive)
+   */
+  async exportLog(from?: Date, to?: Date): Promise<void> {
+    const [trips, vehicles] = await Promise.all([this.getTrips(from, to), this.getVehicles(true)]);
+    if (trips.length === 0) {
+      throw new Error('There are no trips to export.');
+    }
+
+    const suffix = from ? from.toISOString().split('T')[0] : new Date().toISOString().split('T')[0];
+    CsvUtils.download(MileageUtils.toCSV(trips, vehicles), `mileage-log-${suffix}.csv`);
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+
+  // Helper methods
+
+  /**
+   * Work out a trip's distance, rate and amount in the vehicle's unit and
+   * the rate's currency. Must run inside a transaction over vehicles and rates.
+   */
+  private async prepareTrip(
+    input: MileageTripInput
+  ): Promise<{ trip: Omit<MileageTrip, 'id' | 'createdAt' | 'updatedAt'>; vehicle: Vehicle }> {
+    const vehicle = await db.vehicles.get(input.vehicleId);
+    if (!vehicle) {
+      throw new Error('Please choose a vehicle.');
+    }
+
+    const rate = MileageUtils.findRate(await db.mileageRates.toArray(), vehicle.id!, input.date);
+    if (!rate) {
+      throw new Error('Please add a mileage rate that applies on this date.');
+    }
+
+    const distance = MileageUtils.getDistance(input);
+    const ratePerUnit = MileageUtils.convertRate(rate, vehicle.unit);
+    return {
+      vehicle,
+      trip: {
+        date: input.date,
+        vehicleId: vehicle.id!,
+        purpose: input.purpose.trim(),
+        startOdometer: input.startOdometer,
+        endOdometer: input.endOdometer,
+        distance,
+        unit: vehicle.unit,
+        rate: Math.round(ratePerUnit * 1000) / 1000,
+        currency: rate.currency,
+        amount: MileageUtils.getAmount(distance, ratePerUnit),
+        notes: input.notes?.trim() || undefined,
+      },
+    };
+  }
+}
+
+// Singleton instance
+export const mileageManager = new MileageManager();
+
+export default mileageManager;
@@ -0,0 +1,213 @@
+/**
+ * Money
+ * Exact currency amounts stored as integer minor units (cents, pence, yen),
+ * with rounding, allocation, formatting and parsing
+ */
+
+export interface Money {
+  amount: number; // Integer minor units of `currency`
+  currency: string; // ISO 4217 code
+}
+
+export type RoundingMode = 'half-up' | 'half-even' | 'floor' | 'ceil';
+
+// Fraction digits per currency, looked up from Intl once
+const minorDigitsCache = new Map<string, number>();
+
+// Products within this distance of .5 count as exactly half, absorbing float noise
+const HALF_TOLERANCE = 1e-9;
+
+// Utility functions
+export const MoneyUtils = {
+  /**
+   * Number of minor-unit digits: 2 for USD, 0 for JPY, 3 for KWD
+   */
+  getMinorDigits(currency: string): number {
+    const code = currency.toUpperCase();
+    let digits = minorDigitsCache.get(code);
+    if (digits === undefined) {
+      try {
+        digits = new Intl.NumberFormat('en-US', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? 2;
+      } catch {
+        digits = 2;
+      }
+      minorDigitsCache.set(code, digits);
+    }
+    return digits;
+  },
+
+  of(amount: number, currency: string): Money {
+    if (!Number.isSafeInteger(amount)) {
+      throw new Error(`Money amounts must be whole minor units, got ${amount}`);
+    }
+    return { amount, currency };
+  },
+
+  zero(currency: string): Money {
+    return { amount: 0, currency };
+  },
+
+  /**
+   * Money from a decimal amount such as 12.34, rounded to the currency's minor unit
+   */
+  fromMajor(major: number, currency: string, mode: RoundingMode = 'half-up'): Money {
+    const digits = this.getMinorDigits(currency);
+    // Shift through the decimal string so 1.005 becomes 100.5 rather than 100.49999
+    const text = String(Math.abs(major));
+    const shifted = text.includes('e') ? Math.abs(major) * 10 ** digits : Number(`${text}e${digits}`);
+    return { amount: this.round(Math.sign(major) * shifted, mode) || 0, currency };
+  },
+
+  toMajor(money: Money): number {
+    return money.amount / 10 ** this.getMinorDigits(money.currency);
+  },
+
+  round(value: number, mode: RoundingMode = 'half-up'): number {
+    const floor = Math.floor(value);
+    const fraction = value - floor;
+    const isHalf = Math.abs(fraction - 0.5) < HALF_TOLERANCE;
+
+    switch (mode) {
+      case 'floor':
+        return fraction > 1 - HALF_TOLERANCE ? floor + 1 : floor;
+      case 'ceil':
+        return fraction < HALF_TOLERANCE ? floor : floor + 1;
+      case 'half-even':
+        if (isHalf) return floor % 2 === 0 ? floor : floor + 1;
+        return fraction > 0.5 ? floor + 1 : floor;
+      case 'half-up':
+        // Away from zero, like most receipts
+        if (isHalf) return value < 0 ? floor : floor + 1;
+        return fraction > 0.5 ? floor + 1 : floor;
+    }
+  },
+
+  add(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return { amount: a.amount + b.amount, currency: a.currency };
+  },
+
+  subtract(a: Money, b: Money): Money {
+    this.assertSameCurrency(a, b);
+    return { amount: a.amount - b.amount, currency: a.currency };
+  },
+
+  sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce((total, money) => this.add(total, money), this.zero(currency));
+  },
+
+  multiply(money: Money, factor: number, mode: RoundingMode = 'half-up'): Money {
+    return { amount: this.round(money.amount * factor, mode), currency: money.currency };
+  },
+
+  /**
+   * Split money by ratios without losing or inventing a minor unit. Leftover
+   * units go to the largest remainders, earlier shares first on ties, so
+   * 10.00 three ways is 3.34, 3.33, 3.33.
+   */
+  allocate(money: Money, ratios: number[]): Money[] {
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (ratios.length === 0 || total <= 0 || ratios.some(ratio => ratio < 0)) {
+      throw new Error('Allocation ratios must be non-negative and add up to more than zero.');
+    }
+
+    const sign = money.amount < 0 ? -1 : 1;
+    const amount = Math.abs(money.amount);
+    const shares = ratios.map(ratio => {
+      const exact = (amount * ratio) / total;
+      return { floor: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+
+    let leftover = amount - shares.reduce((sum, share) => sum + share.floor, 0);
+    shares
+      .map((share, index) => ({ ...share, index }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+      .forEach(share => {
+        if (leftover > 0) {
+          shares[share.index]!.floor++;
+          leftover--;
+        }
+      });
+
+    return shares.map(share => ({ amount: sign * share.floor || 0, currency: money.currency }));
+  },
+
+  /**
+   * Convert at `rate` units of `to` per unit of the source currency
+   */
+  convert(money: Money, to: string, rate: number, mode: RoundingMode = 'half-up'): Money {
+    const shift = this.getMinorDigits(to) - this.getMinorDigits(money.currency);
+    return { amount: this.round(money.amount * rate * 10 ** shift, mode), currency: to };
+  },
+
+  format(money: Money, locale = 'en-US'): string {
+    const major = this.toMajor(money);
+    try {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency }).format(major);
+    } catch {
+      return `${money.currency} ${major.toFixed(this.getMinorDigits(money.currency))}`;
+    }
+  },
+
+  /**
+   * Amount as plain decimal text for form inputs, e.g. "1234.50"
+   */
+  toInputValue(money: Money): string {
+    return this.toMajor(money).toFixed(this.getMinorDigits(money.currency));
+  },
+
+  /**
+   * Read an amount typed by a person: "12.5", "1,234.56", "1.234,56",
+   * "(4.20)", "-3" or "$7". Returns null when it isn't a number. A lone
+   * separator followed by three digits is read as a thousands separator
+   * unless the locale uses it as its decimal mark.
+   */
+  parse(input: string, currency: string, locale = 'en-US'): Money | null {
+    let text = input.trim();
+    const negative = /^\(.*\)$/.test(text) || text.includes('-');
+    text = text.replace(/[^\d.,]/g, '');
+    if (!/\d/.test(text)) return null;
+
+    const localeDecimal = new Intl.NumberFormat(locale).formatToParts(1.1).find(part => part.type === 'decimal')?.value ?? '.';
+    const lastDot = text.lastIndexOf('.');
+    const lastComma = text.lastIndexOf(',');
+    let decimal: string | null = null;
+
+    if (lastDot !== -1 && lastComma !== -1) {
+      decimal = lastDot > lastComma ? '.' : ',';
+    } else if (lastDot !== -1 || lastComma !== -1) {
+      const separator = lastDot !== -1 ? '.' : ',';
+      const occurrences = text.split(separator).length - 1;
+      const digitsAfter = text.length - text.lastIndexOf(separator) - 1;
+      if (occurrences === 1 && (digitsAfter !== 3 || separator === localeDecimal)) {
+        decimal = separator;
+      }
+    }
+
+    const [wholeText = '', fractionText = ''] = decimal
+      ? [text.slice(0, text.lastIndexOf(decimal)), text.slice(text.lastIndexOf(decimal) + 1)]
+      : [text];
+    const whole = wholeText.replace(/[.,]/g, '') || '0';
+    if (/[.,]/.test(fractionText)) return null;
+
+    const digits = this.getMinorDigits(currency);
+    let amount = Number(whole + fractionText.padEnd(digits, '0').slice(0, digits));
+    // Round away extra typed digits, half up
+    if (Number(fractionText.charAt(digits) || '0') >= 5) {
+      amount++;
+    }
+    if (!Number.isSafeInteger(amount)) return null;
+
+    return { amount: negative ? -amount || 0 : amount, currency };
+  },
+
+  // Helper methods
+
+  assertSameCurrency(a: Money, b: Money): void {
+    if (a.currency !== b.currency) {
+      throw new Error(`Cannot combine ${a.currency} and ${b.currency} without converting`);
+    }
+  },
+};
+
+export default MoneyUtils;
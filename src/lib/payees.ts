@@ -0,0 +1,200 @@
+/**
+ * Payees
+ * Merchants and other parties, recognized from expense descriptions by their
+ * aliases, with the category and payment method they are usually paid with
+ */
+
+import { db, type Expense, type Payee } from '@/lib/database';
+import { SearchUtils } from '@/lib/search';
+
+export type PayeeInput = Omit<Payee, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Utility functions
+export const PayeeUtils = {
+  /**
+   * Comparable form of a description: lowercase words without accents, with
+   * store numbers and other words containing digits dropped, so
+   * "STARBUCKS #1234" and "Starbucks" both become "starbucks"
+   */
+  getMatchKey(text: string): string {
+    return SearchUtils.tokenize(text)
+      .filter(word => !/\d/.test(word))
+      .join(' ');
+  },
+
+  /**
+   * Match keys for a payee's name and aliases, de-duplicated with blanks removed
+   */
+  normalizeAliases(name: string, aliases: string[] = []): string[] {
+    return Array.from(new Set([name, ...aliases].map(alias => this.getMatchKey(alias)).filter(Boolean)));
+  },
+
+  /**
+   * Length of the longest alias the description starts with, word for word,
+   * or 0 when none does
+   */
+  getMatchLength(payee: Payee, description: string): number {
+    const key = this.getMatchKey(description);
+    if (!key) return 0;
+
+    return payee.aliases.reduce(
+      (longest, alias) => (key === alias || key.startsWith(`${alias} `) ? Math.max(longest, alias.length) : longest),
+      0
+    );
+  },
+
+  /**
+   * Payee a description belongs to. The most specific alias wins, so
+   * "Amazon Prime" goes to its own payee rather than "Amazon".
+   */
+  findMatch(payees: Payee[], description: string): Payee | undefined {
+    let best: Payee | undefined;
+    let bestLength = 0;
+    payees.forEach(payee => {
+      const length = this.getMatchLength(payee, description);
+      if (length > bestLength) {
+        best = payee;
+        bestLength = length;
+      }
+    });
+    return best;
+  },
+
+  /**
+   * Payees for a partly typed description, where some word of the name or an
+   * alias starts with what was typed. Names starting with it come first.
+   */
+  suggest(payees: Payee[], input: string, limit = 5): Payee[] {
+    const key = this.getMatchKey(input);
+    if (key.length < 2) return [];
+
+    const ranked = payees
+      .map(payee => {
+        const keys = [this.getMatchKey(payee.name), ...payee.aliases];
+        if (keys.some(alias => alias.startsWith(key))) return { payee, rank: 0 };
+        if (keys.some(alias => alias.includes(` ${key}`))) return { payee, rank: 1 };
+        return null;
+      })
+      .filter((match): match is { payee: Payee; rank: number } => match !== null);
+
+    return ranked
+      .sort((a, b) => a.rank - b.rank || a.payee.name.localeCompare(b.payee.name))
+      .slice(0, limit)
+      .map(match => match.payee);
+  },
+};
+
+class PayeeManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  async getPayees(): Promise<Payee[]> {
+    return await db.payees.orderBy('name').toArray();
+  }
+
+  async createPayee(payee: PayeeInput): Promise<number> {
+    const name = payee.name.trim();
+    if (!name) {
+      throw new Error('Please enter a payee name.');
+    }
+    await this.assertUniqueName(name);
+
+    const aliases = PayeeUtils.normalizeAliases(name, payee.aliases);
+    if (aliases.length === 0) {
+      throw new Error('A payee name needs at least one word without digits.');
+    }
+
+    const id = await db.payees.add({ ...payee, name, aliases } as Payee);
+    this.emit('payeesChanged');
+    return id;
+  }
+
+  async updatePayee(id: number, updates: Partial<PayeeInput>): Promise<void> {
+    const payee = await db.payees.get(id);
+    if (!payee) {
+      throw new Error('Payee not found');
+    }
+
+    const name = updates.name?.trim() ?? payee.name;
+    if (!name) {
+      throw new Error('Please enter a payee name.');
+    }
+    if (name.toLowerCase() !== payee.name.toLowerCase()) {
+      await this.assertUniqueName(name);
+    }
+
+    const aliases = PayeeUtils.normalizeAliases(name, updates.aliases ?? payee.aliases);
+    if (aliases.length === 0) {
+      throw new Error('A payee name needs at least one word without digits.');
+    }
+
+    await db.payees.update(id, { ...updates, name, aliases });
+    this.emit('payeesChanged');
+  }
+
+  /**
+   * Delete a payee. Its expenses keep their descriptions and categories and
+   * are simply no longer linked to it.
+   */
+  async deletePayee(id: number): Promise<void> {
+    await db.transaction('rw', [db.payees, db.expenses], async () => {
+      await db.expenses.where('payeeId').equals(id).modify((expense: Expense) => {
+        delete expense.payeeId;
+      });
+      await db.payees.delete(id);
+    });
+    this.emit('payeesChanged');
+  }
+
+  /**
+   * Payee a description resolves to, if any
+   */
+  async resolve(description: string): Promise<Payee | undefined> {
+    return PayeeUtils.findMatch(await db.payees.toArray(), description);
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+
+  // Helper methods
+
+  private async assertUniqueName(name: string): Promise<void> {
+    const existing = await db.payees.where('name').equalsIgnoreCase(name).first();
+    if (existing) {
+      throw new Error(`A payee named "${existing.name}" already exists.`);
+    }
+  }
+}
+
+// Singleton instance
+export const payeeManager = new PayeeManager();
+
+export const PAYMENT_METHODS: Array<{ value: Expense['paymentMethod']; label: string; icon: string }> = [
+  { value: 'cash', label: 'Cash', icon: '💵' },
+  { value: 'card', label: 'Card', icon: '💳' },
+  { value: 'bank_transfer', label: 'Bank Transfer', icon: '🏦' },
+  { value: 'digital_wallet', label: 'Digital Wallet', icon: '📱' },
+  { value: 'other', label: 'Other', icon: '🔄' },
+];
+
+export default payeeManager;
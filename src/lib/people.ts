@@ -0,0 +1,153 @@
+/**
+ * People and IOUs
+ * Manages the people expenses are shared with, settle-up payments and the
+ * resulting who-owes-whom ledger
+ */
+
+import { db, type Expense, type Person, type Settlement } from '@/lib/database';
+import { SharingUtils, SELF_ID, type Debt } from '@/lib/sharing';
+
+export type SettlementInput = Omit<Settlement, 'id' | 'createdAt'>;
+
+// Everything owed in one currency
+export interface IouLedger {
+  currency: string;
+  balances: Array<{ personId: number; balance: number }>; // Positive means owed money
+  debts: Debt[]; // Pair by pair
+  transfers: Debt[]; // Payments that settle everything, the fewest possible up to EXACT_SETTLE_LIMIT people
+}
+
+class PeopleManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  async getPeople(includeArchived = false): Promise<Person[]> {
+    const people = await db.people.orderBy('name').toArray();
+    return includeArchived ? people : people.filter(person => !person.isArchived);
+  }
+
+  async createPerson(name: string): Promise<number> {
+    if (!name.trim()) {
+      throw new Error('Please enter a name.');
+    }
+
+    const id = await db.people.add({ name: name.trim(), isArchived: false } as Person);
+    this.emit('peopleChanged');
+    return id;
+  }
+
+  async updatePerson(id: number, updates: Partial<Pick<Person, 'name' | 'isArchived'>>): Promise<void> {
+    if (updates.name !== undefined && !updates.name.trim()) {
+      throw new Error('Please enter a name.');
+    }
+
+    await db.people.update(id, updates.name !== undefined ? { ...updates, name: updates.name.trim() } : updates);
+    this.emit('peopleChanged');
+  }
+
+  async archivePerson(id: number, archived = true): Promise<void> {
+    await this.updatePerson(id, { isArchived: archived });
+  }
+
+  /**
+   * Delete someone with no shared expenses or settlements. People with
+   * history should be archived.
+   */
+  async deletePerson(id: number): Promise<void> {
+    const [expenses, settlements] = await Promise.all([
+      db.expenses.where('sharedWith').equals(id).count(),
+      db.settlements.where('fromPersonId').equals(id).or('toPersonId').equals(id).count(),
+    ]);
+
+    if (expenses > 0 || settlements > 0) {
+      throw new Error('This person has shared expenses or settlements. Archive them instead.');
+    }
+
+    await db.people.delete(id);
+    this.emit('peopleChanged');
+  }
+
+  /**
+   * Expenses shared with anyone, or with one person when given
+   */
+  async getSharedExpenses(personId?: number): Promise<Expense[]> {
+    const expenses = personId === undefined
+      ? await db.expenses.where('sharedWith').aboveOrEqual(SELF_ID).distinct().toArray()
+      : await db.expenses.where('sharedWith').equals(personId).toArray();
+    return expenses.sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  async getSettlements(): Promise<Settlement[]> {
+    return await db.settlements.orderBy('date').reverse().toArray();
+  }
+
+  /**
+   * Record a payment from one person to another, for example paying back a
+   * roommate
+   */
+  async settleUp(settlement: SettlementInput): Promise<number> {
+    if (SharingUtils.getPersonKey(settlement.fromPersonId) === SharingUtils.getPersonKey(settlement.toPersonId)) {
+      throw new Error('Choose two different people.');
+    }
+    if (!Number.isSafeInteger(settlement.amount) || settlement.amount <= 0) {
+      throw new Error('Please enter a valid amount.');
+    }
+
+    const id = await db.settlements.add({ ...settlement, currency: settlement.currency.toUpperCase() } as Settlement);
+    this.emit('settlementsChanged');
+    return id;
+  }
+
+  async deleteSettlement(id: number): Promise<void> {
+    await db.settlements.delete(id);
+    this.emit('settlementsChanged');
+  }
+
+  /**
+   * Balances, debts and suggested transfers for every currency anything is
+   * owed in. Balances are derived each time, so edits to old expenses are
+   * always reflected.
+   */
+  async getLedgers(): Promise<IouLedger[]> {
+    const [expenses, settlements] = await Promise.all([this.getSharedExpenses(), this.getSettlements()]);
+    const debts = SharingUtils.getDebts(expenses, settlements);
+
+    return Array.from(SharingUtils.getBalances(expenses, settlements))
+      .map(([currency, balances]) => ({
+        currency,
+        balances: Array.from(balances, ([personId, balance]) => ({ personId, balance })).filter(entry => entry.balance !== 0),
+        debts: debts.filter(debt => debt.currency === currency),
+        transfers: SharingUtils.simplify(balances, currency),
+      }))
+      .filter(ledger => ledger.balances.length > 0)
+      .sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const peopleManager = new PeopleManager();
+
+export default peopleManager;
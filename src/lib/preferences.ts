@@ -4,6 +4,7 @@
  */
 
 import { get, set, del, clear, keys } from 'idb-keyval';
+import { MoneyUtils } from '@/lib/money';
 
 export interface UserPreferences {
   // Display settings
@@ -19,6 +20,9 @@ export interface UserPreferences {
   autoSaveReceipts: boolean;
   compressImages: boolean;
   generateThumbnails: boolean;
+  trashRetentionDays: number; // Days before deleted expenses are purged for good
+  financialYearStartMonth: number; // 1-12, month the tax year starts in
+  financialYearStartDay: number; // Day of that month it starts on
   
   // Privacy and security
   requireAuth: boolean;
@@ -27,7 +31,10 @@ export interface UserPreferences {
   
   // Notifications
   notificationsEnabled: boolean;
+  billReminderDays: number; // Days before a bill is due to remind about it
   budgetAlerts: boolean;
+  budgetWarningThreshold: number; // Percent of a budget spent before warning
+  budgetOverspendThreshold: number; // Percent of a budget spent before it counts as overspent
   syncNotifications: boolean;
   
   // Backup and sync
@@ -87,6 +94,9 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   autoSaveReceipts: true,
   compressImages: true,
   generateThumbnails: true,
+  trashRetentionDays: 30,
+  financialYearStartMonth: 1,
+  financialYearStartDay: 1,
   
   // Privacy and security
   requireAuth: false,
@@ -95,7 +105,10 @@ const DEFAULT_PREFERENCES: UserPreferences = {
   
   // Notifications
   notificationsEnabled: true,
+  billReminderDays: 3,
   budgetAlerts: true,
+  budgetWarningThreshold: 80,
+  budgetOverspendThreshold: 100,
   syncNotifications: true,
   
   // Backup and sync
@@ -419,18 +432,12 @@ class PreferencesManager {
     return symbols[currency] || currency;
   }
 
+  /**
+   * Format an amount in minor units of the preferred currency
+   */
   async formatCurrency(amount: number): Promise<string> {
     const currency = await this.getPreference('currency');
-    
-    try {
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: currency,
-      }).format(amount);
-    } catch (error) {
-      const symbol = await this.getCurrencySymbol();
-      return `${symbol}${amount.toFixed(2)}`;
-    }
+    return MoneyUtils.format({ amount, currency });
   }
 
   async formatDate(date: Date): Promise<string> {
@@ -348,6 +348,7 @@ class PrivacyManager {
       // Update expenses with anonymized data
       await db.expenses.clear();
       await db.expenses.bulkAdd(anonymizedExpenses);
+      await db.rebuildRollups();
 
       this.emit('dataAnonymized');
       console.log('User data anonymized');
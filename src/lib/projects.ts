@@ -0,0 +1,270 @@
+/**
+ * Trips and Projects
+ * Groups expenses under a trip or project with its own date range, budget
+ * and currency, and reports totals and breakdowns for each group
+ */
+
+import { db, type Expense, type Project } from '@/lib/database';
+import type { ExchangeRateTable } from '@/lib/currency';
+import { SplitUtils } from '@/lib/splits';
+
+export type ProjectInput = Omit<Project, 'id' | 'createdAt' | 'updatedAt' | 'isArchived'>;
+
+// Running totals for a project, in the project's currency
+export interface ProjectTotal {
+  spent: number;
+  income: number;
+  count: number;
+  unconverted: number; // Expenses left out because no exchange rate was available
+}
+
+export interface ProjectSummary extends ProjectTotal {
+  project: Project;
+  remaining: number | null; // Budget left, null without a budget
+  percentUsed: number | null;
+  dailyAverage: number; // Spending per day of the project, or per day with spending when it has no dates
+  byCategory: Array<{ category: string; amount: number; percentage: number }>;
+  byDay: Array<{ date: Date; amount: number }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest date range filled in day by day in the per-day breakdown
+const MAX_FILLED_DAYS = 366;
+
+// Utility functions
+export const ProjectUtils = {
+  emptyTotal(): ProjectTotal {
+    return { spent: 0, income: 0, count: 0, unconverted: 0 };
+  },
+
+  /**
+   * Whether a date falls inside a project's range; open ends always match
+   */
+  isInRange(project: Pick<Project, 'startDate' | 'endDate'>, date: Date): boolean {
+    if (project.startDate && date < project.startDate) return false;
+    if (project.endDate && date > project.endDate) return false;
+    return true;
+  },
+
+  /**
+   * Number of days a project spans, counting both ends; null when open-ended
+   */
+  getDayCount(project: Pick<Project, 'startDate' | 'endDate'>): number | null {
+    if (!project.startDate || !project.endDate) return null;
+    return Math.round((project.endDate.getTime() - project.startDate.getTime()) / DAY_MS) + 1;
+  },
+
+  /**
+   * An expense converted to the project's currency, or null without a rate
+   */
+  convert(expense: Expense, project: Project, rateTable: ExchangeRateTable): number | null {
+    return rateTable.convert(expense.amount, expense.currency || project.currency, project.currency, expense.date);
+  },
+
+  getTotal(project: Project, expenses: Expense[], rateTable: ExchangeRateTable): ProjectTotal {
+    const total = this.emptyTotal();
+    // Transfers move money between accounts and never count as spending
+    expenses.forEach(expense => {
+      if (expense.kind === 'transfer') return;
+      total.count++;
+
+      const amount = this.convert(expense, project, rateTable);
+      if (amount === null) {
+        total.unconverted++;
+      } else if (expense.kind === 'income') {
+        total.income += amount;
+      } else {
+        total.spent += amount;
+      }
+    });
+    return total;
+  },
+
+  summarize(project: Project, expenses: Expense[], rateTable: ExchangeRateTable): ProjectSummary {
+    const total = this.getTotal(project, expenses, rateTable);
+    const byCategory = new Map<string, number>();
+    const byDay = new Map<number, number>();
+
+    expenses.forEach(expense => {
+      if (expense.kind !== 'expense') return;
+      const amount = this.convert(expense, project, rateTable);
+      if (amount === null) return;
+
+      SplitUtils.getAllocations(expense, amount).forEach(allocation => {
+        byCategory.set(allocation.category, (byCategory.get(allocation.category) ?? 0) + allocation.amount);
+      });
+      const day = expense.date.getTime();
+      byDay.set(day, (byDay.get(day) ?? 0) + amount);
+    });
+
+    // Show quiet days of a trip too, so the breakdown reads as a timeline
+    const dayCount = this.getDayCount(project);
+    if (dayCount !== null && dayCount > 0 && dayCount <= MAX_FILLED_DAYS) {
+      for (let i = 0; i < dayCount; i++) {
+        const day = project.startDate!.getTime() + i * DAY_MS;
+        if (!byDay.has(day)) byDay.set(day, 0);
+      }
+    }
+
+    const budget = project.budget;
+    const daysWithSpending = Array.from(byDay.values()).filter(amount => amount > 0).length;
+    const days = dayCount ?? daysWithSpending;
+
+    return {
+      ...total,
+      project,
+      remaining: budget !== undefined ? budget - total.spent : null,
+      percentUsed: budget ? (total.spent / budget) * 100 : null,
+      dailyAverage: days > 0 ? Math.round(total.spent / days) : 0,
+      byCategory: Array.from(byCategory, ([category, amount]) => ({
+        category,
+        amount,
+        percentage: total.spent > 0 ? (amount / total.spent) * 100 : 0,
+      })).sort((a, b) => b.amount - a.amount),
+      byDay: Array.from(byDay, ([day, amount]) => ({ date: new Date(day), amount })).sort(
+        (a, b) => a.date.getTime() - b.date.getTime()
+      ),
+    };
+  },
+
+  validate(project: Partial<ProjectInput>): void {
+    if (project.name !== undefined && !project.name.trim()) {
+      throw new Error('Please enter a project name.');
+    }
+    if (project.startDate && project.endDate && project.endDate < project.startDate) {
+      throw new Error('The end date must be on or after the start date.');
+    }
+    if (project.budget !== undefined && (!Number.isSafeInteger(project.budget) || project.budget < 0)) {
+      throw new Error('Please enter a valid budget.');
+    }
+  },
+};
+
+class ProjectManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  async getProjects(includeArchived = false): Promise<Project[]> {
+    const projects = await db.projects.orderBy('name').toArray();
+    return includeArchived ? projects : projects.filter(project => !project.isArchived);
+  }
+
+  async createProject(project: ProjectInput): Promise<number> {
+    ProjectUtils.validate(project);
+
+    const id = await db.projects.add({
+      ...project,
+      name: project.name.trim(),
+      currency: project.currency.toUpperCase(),
+      isArchived: false,
+    } as Project);
+
+    this.emit('projectsChanged');
+    return id;
+  }
+
+  async updateProject(id: number, updates: Partial<Omit<Project, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+    const project = await db.projects.get(id);
+    if (!project) {
+      throw new Error(`Project ${id} not found`);
+    }
+    ProjectUtils.validate({ ...project, ...updates });
+
+    await db.projects.update(id, {
+      ...updates,
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.currency !== undefined && { currency: updates.currency.toUpperCase() }),
+    });
+    this.emit('projectsChanged');
+  }
+
+  async archiveProject(id: number, archived = true): Promise<void> {
+    await this.updateProject(id, { isArchived: archived });
+  }
+
+  /**
+   * Delete a project with no expenses. Projects with history should be
+   * archived so their expenses keep their grouping.
+   */
+  async deleteProject(id: number): Promise<void> {
+    if ((await db.queryExpenses().inProjects(id).count()) > 0) {
+      throw new Error('This project has expenses. Archive it instead.');
+    }
+
+    await db.projects.delete(id);
+    this.emit('projectsChanged');
+  }
+
+  async getExpenses(projectId: number): Promise<Expense[]> {
+    return await db.queryExpenses().inProjects(projectId).toArray();
+  }
+
+  /**
+   * Running totals for every project, keyed by project id
+   */
+  async getTotals(includeArchived = false): Promise<Map<number, ProjectTotal>> {
+    const projects = await this.getProjects(includeArchived);
+    if (projects.length === 0) return new Map();
+
+    const [expenses, rateTable] = await Promise.all([
+      db.queryExpenses().inProjects(...projects.map(project => project.id!)).toArray(),
+      db.getExchangeRateTable(),
+    ]);
+
+    return new Map(
+      projects.map(project => [
+        project.id!,
+        ProjectUtils.getTotal(project, expenses.filter(expense => expense.projectId === project.id), rateTable),
+      ])
+    );
+  }
+
+  /**
+   * Totals with category and per-day breakdowns for one project
+   */
+  async getSummary(projectId: number): Promise<ProjectSummary> {
+    const project = await db.projects.get(projectId);
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    const [expenses, rateTable] = await Promise.all([this.getExpenses(projectId), db.getExchangeRateTable()]);
+    return ProjectUtils.summarize(project, expenses, rateTable);
+  }
+
+  /**
+   * Let views showing project totals know an expense in a project was saved
+   */
+  notifyExpenseSaved(): void {
+    this.emit('totalsChanged');
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const projectManager = new ProjectManager();
+
+export default projectManager;
@@ -291,6 +291,64 @@ class PWAService {
     }
   }
 
+  /**
+   * Current notification permission, or 'unsupported' when the browser
+   * can't show notifications
+   */
+  getNotificationPermission(): NotificationPermission | 'unsupported' {
+    if (typeof window === 'undefined' || !('Notification' in window) || !('serviceWorker' in navigator)) {
+      return 'unsupported';
+    }
+    return Notification.permission;
+  }
+
+  /**
+   * Ask for permission to show notifications. Browsers only allow this in
+   * response to a user gesture.
+   */
+  async requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (this.getNotificationPermission() === 'unsupported') {
+      return 'unsupported';
+    }
+
+    try {
+      const permission = await Notification.requestPermission();
+      this.emit('notificationPermission', { permission });
+      return permission;
+    } catch (error) {
+      console.error('Failed to request notification permission:', error);
+      return Notification.permission;
+    }
+  }
+
+  /**
+   * Show a local notification through the service worker registration, so
+   * it works in installed apps where page notifications are unavailable.
+   * Returns whether the notification was shown.
+   */
+  async showNotification(title: string, options: NotificationOptions = {}): Promise<boolean> {
+    if (this.getNotificationPermission() !== 'granted') {
+      return false;
+    }
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      if (!registration) {
+        return false;
+      }
+
+      await registration.showNotification(title, {
+        icon: '/icon-192x192.png',
+        badge: '/icon-192x192.png',
+        ...options,
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to show notification:', error);
+      return false;
+    }
+  }
+
   /**
    * Check if app is running in standalone mode
    */
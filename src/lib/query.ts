@@ -0,0 +1,298 @@
+/**
+ * Expense Queries
+ * Composable filters over the expenses table with sorting and cursor-based
+ * pagination. Pages are read straight off an index, so a page costs the same
+ * however far into the list it is.
+ */
+
+import Dexie, { type Table } from 'dexie';
+import type { Expense, TransactionKind } from '@/lib/database';
+import { SearchUtils } from '@/lib/search';
+
+export interface ExpenseFilter {
+  dateFrom?: Date; // Inclusive
+  dateTo?: Date; // Inclusive
+  minAmount?: number; // Minor units of each expense's own currency, inclusive
+  maxAmount?: number;
+  kinds?: TransactionKind[];
+  categories?: string[]; // Also matches split lines in these categories
+  tags?: string[]; // Every tag must be present
+  paymentMethods?: Expense['paymentMethod'][];
+  accountIds?: number[]; // Either side of a transfer
+  text?: string; // Words match by prefix; quoted phrases word for word
+  hasReceipt?: boolean;
+  syncStatuses?: Expense['syncStatus'][];
+  projectIds?: number[];
+  taxDeductible?: boolean;
+}
+
+export type ExpenseSortField = 'date' | 'amount' | 'createdAt';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ExpensePage {
+  expenses: Expense[];
+  nextCursor: string | null; // Pass to `after()` for the following page
+}
+
+interface CursorPosition {
+  value: number; // Sort key, with dates as timestamps
+  id: number;
+}
+
+// Single-value filters that have a compound index with the date, most selective first
+const DATE_PREFIX_INDEXES = [
+  { field: 'projectId', filter: 'projectIds', index: '[projectId+date]' },
+  { field: 'syncStatus', filter: 'syncStatuses', index: '[syncStatus+date]' },
+  { field: 'paymentMethod', filter: 'paymentMethods', index: '[paymentMethod+date]' },
+  { field: 'kind', filter: 'kinds', index: '[kind+date]' },
+] as const;
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Utility functions
+export const QueryUtils = {
+  /**
+   * Whether an expense passes every filter
+   */
+  matches(expense: Expense, filter: ExpenseFilter): boolean {
+    if (filter.dateFrom && expense.date < filter.dateFrom) return false;
+    if (filter.dateTo && expense.date > filter.dateTo) return false;
+    if (filter.minAmount !== undefined && expense.amount < filter.minAmount) return false;
+    if (filter.maxAmount !== undefined && expense.amount > filter.maxAmount) return false;
+    if (filter.kinds && !filter.kinds.includes(expense.kind)) return false;
+    if (filter.paymentMethods && !filter.paymentMethods.includes(expense.paymentMethod)) return false;
+    if (filter.syncStatuses && !filter.syncStatuses.includes(expense.syncStatus)) return false;
+    if (filter.projectIds && (expense.projectId === undefined || !filter.projectIds.includes(expense.projectId))) return false;
+    if (filter.hasReceipt !== undefined && !!expense.receipt !== filter.hasReceipt) return false;
+    if (filter.taxDeductible !== undefined && !!expense.taxDeductible !== filter.taxDeductible) return false;
+
+    if (
+      filter.categories &&
+      !filter.categories.includes(expense.category) &&
+      !(expense.splitCategories ?? []).some(category => filter.categories!.includes(category))
+    ) {
+      return false;
+    }
+
+    if (filter.tags && !filter.tags.every(tag => expense.tags?.includes(tag))) return false;
+
+    if (
+      filter.accountIds &&
+      !filter.accountIds.some(id => id === expense.accountId || id === expense.toAccountId)
+    ) {
+      return false;
+    }
+
+    if (filter.text) {
+      const { terms, phrases } = SearchUtils.parseQuery(filter.text);
+      const words = (expense.searchTerms ?? []).map(term => term.slice(term.indexOf(':') + 1));
+      if (!terms.every(term => words.some(word => word.startsWith(term)))) return false;
+      if (!phrases.every(phrase => SearchUtils.containsPhrase(expense, phrase))) return false;
+    }
+
+    return true;
+  },
+
+  getSortValue(expense: Expense, field: ExpenseSortField): number {
+    const value = expense[field];
+    return value instanceof Date ? value.getTime() : value;
+  },
+
+  encodeCursor(position: CursorPosition): string {
+    return btoa(JSON.stringify([position.value, position.id]));
+  },
+
+  decodeCursor(cursor: string): CursorPosition {
+    try {
+      const [value, id] = JSON.parse(atob(cursor));
+      if (typeof value === 'number' && typeof id === 'number') {
+        return { value, id };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error('Invalid page cursor');
+  },
+};
+
+/**
+ * Builder for a filtered, sorted page of expenses. Get one from
+ * `db.queryExpenses()`; each method returns the same query for chaining.
+ */
+export class ExpenseQuery {
+  private filter: ExpenseFilter = {};
+  private sortField: ExpenseSortField = 'date';
+  private direction: SortDirection = 'desc';
+  private pageSize = DEFAULT_PAGE_SIZE;
+  private cursor: CursorPosition | null = null;
+
+  constructor(private readonly table: Table<Expense, number>) {}
+
+  /**
+   * Merge in a set of filters, replacing any already set for the same fields
+   */
+  where(filter: ExpenseFilter): this {
+    this.filter = { ...this.filter, ...filter };
+    return this;
+  }
+
+  dateBetween(from?: Date, to?: Date): this {
+    return this.where({ dateFrom: from, dateTo: to });
+  }
+
+  amountBetween(min?: number, max?: number): this {
+    return this.where({ minAmount: min, maxAmount: max });
+  }
+
+  ofKind(...kinds: TransactionKind[]): this {
+    return this.where({ kinds });
+  }
+
+  inCategories(...categories: string[]): this {
+    return this.where({ categories });
+  }
+
+  withTags(...tags: string[]): this {
+    return this.where({ tags });
+  }
+
+  paidWith(...paymentMethods: Expense['paymentMethod'][]): this {
+    return this.where({ paymentMethods });
+  }
+
+  inAccounts(...accountIds: number[]): this {
+    return this.where({ accountIds });
+  }
+
+  matching(text: string): this {
+    return this.where({ text: text.trim() || undefined });
+  }
+
+  withReceipt(hasReceipt = true): this {
+    return this.where({ hasReceipt });
+  }
+
+  withSyncStatus(...syncStatuses: Expense['syncStatus'][]): this {
+    return this.where({ syncStatuses });
+  }
+
+  inProjects(...projectIds: number[]): this {
+    return this.where({ projectIds });
+  }
+
+  taxDeductible(taxDeductible = true): this {
+    return this.where({ taxDeductible });
+  }
+
+  sortBy(field: ExpenseSortField, direction: SortDirection = 'desc'): this {
+    this.sortField = field;
+    this.direction = direction;
+    return this;
+  }
+
+  limit(pageSize: number): this {
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      throw new Error('Page size must be a positive whole number');
+    }
+    this.pageSize = pageSize;
+    return this;
+  }
+
+  /**
+   * Continue from the `nextCursor` of a previous page. Cursors belong to a
+   * sort order; reusing one after `sortBy()` changes gives unspecified results.
+   */
+  after(cursor: string | null | undefined): this {
+    this.cursor = cursor ? QueryUtils.decodeCursor(cursor) : null;
+    return this;
+  }
+
+  async page(): Promise<ExpensePage> {
+    const rows = await this.getCollection().limit(this.pageSize + 1).toArray();
+    const expenses = rows.slice(0, this.pageSize);
+    const last = expenses[expenses.length - 1];
+
+    return {
+      expenses,
+      nextCursor:
+        rows.length > this.pageSize && last
+          ? QueryUtils.encodeCursor({ value: QueryUtils.getSortValue(last, this.sortField), id: last.id! })
+          : null,
+    };
+  }
+
+  /**
+   * Every match from the cursor on, ignoring the page size
+   */
+  async toArray(): Promise<Expense[]> {
+    return await this.getCollection().toArray();
+  }
+
+  async first(): Promise<Expense | undefined> {
+    return await this.getCollection().first();
+  }
+
+  async count(): Promise<number> {
+    return await this.getCollection().count();
+  }
+
+  // Helper methods
+
+  /**
+   * Walk the index for the sort field, narrowed by whichever filters the
+   * index can answer, and check the rest row by row
+   */
+  private getCollection(): Dexie.Collection<Expense, number> {
+    const { index, lower, upper } = this.getRange();
+    let collection = this.table.where(index).between(lower, upper, true, true);
+    if (this.direction === 'desc') {
+      collection = collection.reverse();
+    }
+
+    return collection.filter(expense => this.isAfterCursor(expense) && QueryUtils.matches(expense, this.filter));
+  }
+
+  private getRange(): { index: string; lower: unknown; upper: unknown } {
+    const toKey = (value: number) => (this.sortField === 'amount' ? value : new Date(value));
+    let lower: unknown = Dexie.minKey;
+    let upper: unknown = Dexie.maxKey;
+
+    if (this.sortField === 'date') {
+      lower = this.filter.dateFrom ?? lower;
+      upper = this.filter.dateTo ?? upper;
+    } else if (this.sortField === 'amount') {
+      lower = this.filter.minAmount ?? lower;
+      upper = this.filter.maxAmount ?? upper;
+    }
+
+    // Start at the cursor; rows tied with it are skipped in isAfterCursor
+    if (this.cursor) {
+      if (this.direction === 'asc') lower = toKey(this.cursor.value);
+      else upper = toKey(this.cursor.value);
+    }
+
+    if (this.sortField === 'date') {
+      const prefix = DATE_PREFIX_INDEXES.find(candidate => this.filter[candidate.filter]?.length === 1);
+      if (prefix) {
+        const value = this.filter[prefix.filter]![0];
+        return { index: prefix.index, lower: [value, lower], upper: [value, upper] };
+      }
+    }
+
+    return { index: this.sortField, lower, upper };
+  }
+
+  /**
+   * Ties on the sort key come out in id order, so the cursor's id tells
+   * which of them were already returned
+   */
+  private isAfterCursor(expense: Expense): boolean {
+    if (!this.cursor || QueryUtils.getSortValue(expense, this.sortField) !== this.cursor.value) {
+      return true;
+    }
+    return this.direction === 'asc' ? expense.id! > this.cursor.id : expense.id! < this.cursor.id;
+  }
+}
+
+export default ExpenseQuery;
@@ -0,0 +1,524 @@
+/**
+ * Recurring Expenses Engine
+ * Generates expenses from RRULE-style recurring rules, catching up on periods
+ * missed while the app was closed
+ */
+
+import {
+  db,
+  type Expense,
+  type RecurrenceException,
+  type RecurrenceFrequency,
+  type RecurringExpenseTemplate,
+  type RecurringRule,
+} from '@/lib/database';
+
+export interface RecurringSchedule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: Date;
+  endDate?: Date;
+  count?: number;
+  monthDayPolicy?: RecurringRule['monthDayPolicy'];
+}
+
+export interface UpcomingOccurrence {
+  index: number;
+  date: Date;
+  skipped: boolean;
+  overrides?: Partial<RecurringExpenseTemplate>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Utility functions
+export const RecurrenceUtils = {
+  /**
+   * Date of the Nth scheduled period, or null when that period has no
+   * occurrence (a missing day of month under the 'skip' policy).
+   * Dates are computed in UTC to match how expense dates are stored.
+   */
+  getOccurrenceDate(schedule: RecurringSchedule, index: number): Date | null {
+    const start = schedule.startDate;
+    const step = index * schedule.interval;
+
+    switch (schedule.frequency) {
+      case 'daily':
+        return new Date(start.getTime() + step * DAY_MS);
+      case 'weekly':
+        return new Date(start.getTime() + step * 7 * DAY_MS);
+      case 'monthly':
+        return this.addMonths(start, step, schedule.monthDayPolicy ?? 'clamp');
+      case 'yearly':
+        return this.addMonths(start, step * 12, schedule.monthDayPolicy ?? 'clamp');
+    }
+  },
+
+  /**
+   * Add months keeping the start day, clamping to the month end or skipping
+   * months that don't have that day
+   */
+  addMonths(start: Date, months: number, policy: 'clamp' | 'skip'): Date | null {
+    const totalMonths = start.getUTCMonth() + months;
+    const year = start.getUTCFullYear() + Math.floor(totalMonths / 12);
+    const month = ((totalMonths % 12) + 12) % 12;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const day = start.getUTCDate();
+
+    if (day > daysInMonth && policy === 'skip') {
+      return null;
+    }
+
+    const result = new Date(start.getTime());
+    result.setUTCFullYear(year, month, Math.min(day, daysInMonth));
+    return result;
+  },
+
+  /**
+   * Whether the Nth period is still inside the series bounds
+   */
+  isWithinSeries(schedule: RecurringSchedule, index: number, date: Date | null): boolean {
+    if (schedule.count !== undefined && index >= schedule.count) return false;
+    if (schedule.endDate && date && date.getTime() > schedule.endDate.getTime()) return false;
+    return true;
+  },
+
+  /**
+   * Find the first occurrence at or after `fromIndex` whose date is on or after `notBefore`
+   */
+  findNextOccurrence(
+    schedule: RecurringSchedule,
+    fromIndex: number,
+    notBefore?: Date
+  ): { index: number; date: Date } | null {
+    // Guard against schedules that never produce a date
+    const maxScan = fromIndex + 10000;
+
+    for (let index = fromIndex; index < maxScan; index++) {
+      const date = this.getOccurrenceDate(schedule, index);
+      if (!this.isWithinSeries(schedule, index, date)) return null;
+      if (!date) continue;
+      if (notBefore && date.getTime() < notBefore.getTime()) continue;
+      return { index, date };
+    }
+
+    return null;
+  },
+
+  /**
+   * Stable key for matching occurrence dates
+   */
+  dayKey(date: Date): string {
+    return date.toISOString().split('T')[0]!;
+  },
+
+  findException(rule: RecurringRule, date: Date): RecurrenceException | undefined {
+    const key = this.dayKey(date);
+    return rule.exceptions.find(exception => this.dayKey(exception.date) === key);
+  },
+
+  startOfUTCDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  },
+
+  describe(rule: Pick<RecurringRule, 'frequency' | 'interval'>): string {
+    const units: Record<RecurrenceFrequency, string> = {
+      daily: 'day',
+      weekly: 'week',
+      monthly: 'month',
+      yearly: 'year',
+    };
+    const unit = units[rule.frequency];
+    return rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  },
+};
+
+class RecurringManager {
+  private readonly MAX_CATCH_UP = 500; // Per rule, per run
+  private isProcessing = false;
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  /**
+   * Create a recurring rule. Occurrences are generated by processDueRules().
+   */
+  async createRule(
+    name: string,
+    template: RecurringExpenseTemplate,
+    schedule: RecurringSchedule
+  ): Promise<number> {
+    const normalized = this.validateSchedule(schedule);
+    const next = RecurrenceUtils.findNextOccurrence(normalized, 0);
+
+    const id = await db.recurringRules.add(
+      this.buildRule(name.trim() || template.description, template, normalized, next?.index ?? 0, next?.date)
+    );
+
+    this.emit('rulesChanged');
+    return id;
+  }
+
+  /**
+   * Turn an existing expense into the first occurrence of a new series
+   */
+  async createRuleFromExpense(expenseId: number, schedule: Omit<RecurringSchedule, 'startDate'>): Promise<number> {
+    const expense = await db.expenses.get(expenseId);
+    if (!expense) {
+      throw new Error(`Expense ${expenseId} not found`);
+    }
+
+    const normalized = this.validateSchedule({ ...schedule, startDate: expense.date });
+    const next = RecurrenceUtils.findNextOccurrence(normalized, 1);
+
+    return await db.transaction('rw', [db.recurringRules, db.expenses, db.syncQueue, db.tags, db.revisions], async () => {
+      const id = await db.recurringRules.add(
+        this.buildRule(expense.description, this.toTemplate(expense), normalized, next?.index ?? 1, next?.date)
+      );
+
+      await db.updateExpense(expenseId, {
+        recurringRuleId: id,
+        recurrenceDate: expense.date,
+      });
+
+      this.emit('rulesChanged');
+      return id;
+    });
+  }
+
+  /**
+   * Edit the series. Schedule changes only affect occurrences that have not
+   * been generated yet.
+   */
+  async updateRule(
+    id: number,
+    updates: Partial<Pick<RecurringRule, 'name' | 'template'>> & Partial<RecurringSchedule>
+  ): Promise<void> {
+    const rule = await this.getRuleOrThrow(id);
+    const { name, template, ...scheduleUpdates } = updates;
+    const changes: Partial<RecurringRule> = {};
+
+    if (name !== undefined) changes.name = name;
+    if (template !== undefined) changes.template = { ...rule.template, ...template };
+
+    if (Object.keys(scheduleUpdates).length > 0) {
+      const schedule = this.validateSchedule({ ...rule, ...scheduleUpdates });
+      Object.assign(changes, schedule);
+
+      // Resume after the last generated occurrence so nothing is duplicated
+      const lastGenerated = await db.expenses
+        .where('recurringRuleId')
+        .equals(id)
+        .reverse()
+        .sortBy('recurrenceDate');
+      const lastDate = lastGenerated[0]?.recurrenceDate;
+      const notBefore = lastDate ? new Date(lastDate.getTime() + 1) : undefined;
+      const next = RecurrenceUtils.findNextOccurrence(schedule, 0, notBefore);
+
+      changes.nextIndex = next?.index ?? rule.nextIndex;
+      changes.nextDate = next?.date;
+    }
+
+    await db.recurringRules.update(id, changes);
+    this.emit('rulesChanged');
+  }
+
+  async deleteRule(id: number, options: { deleteGenerated?: boolean } = {}): Promise<void> {
+    await db.transaction('rw', [db.recurringRules, db.expenses, db.trash, db.syncQueue, db.tags, db.revisions], async () => {
+      const generated = await db.expenses.where('recurringRuleId').equals(id).toArray();
+
+      for (const expense of generated) {
+        if (options.deleteGenerated) {
+          await db.deleteExpense(expense.id!, { source: 'recurring' });
+        } else {
+          await db.updateExpense(expense.id!, { recurringRuleId: undefined }, { source: 'recurring' });
+        }
+      }
+
+      await db.recurringRules.delete(id);
+    });
+
+    this.emit('rulesChanged');
+  }
+
+  async pauseRule(id: number): Promise<void> {
+    await db.recurringRules.update(id, { status: 'paused' });
+    this.emit('rulesChanged');
+  }
+
+  /**
+   * Resume a paused rule. Periods that fell inside the pause are not back-filled.
+   */
+  async resumeRule(id: number, now = new Date()): Promise<void> {
+    const rule = await this.getRuleOrThrow(id);
+    const next = RecurrenceUtils.findNextOccurrence(rule, rule.nextIndex, RecurrenceUtils.startOfUTCDay(now));
+
+    await db.recurringRules.update(id, {
+      status: 'active',
+      nextIndex: next?.index ?? rule.nextIndex,
+      nextDate: next?.date,
+    });
+    this.emit('rulesChanged');
+  }
+
+  /**
+   * Skip a single occurrence, removing it if it was already generated
+   */
+  async skipOccurrence(ruleId: number, date: Date): Promise<void> {
+    await db.transaction('rw', [db.recurringRules, db.expenses, db.trash, db.syncQueue, db.tags, db.revisions], async () => {
+      const rule = await this.getRuleOrThrow(ruleId);
+      const existing = await this.getGeneratedExpense(ruleId, date);
+
+      if (existing) {
+        await db.deleteExpense(existing.id!, { source: 'recurring' });
+      }
+
+      await db.recurringRules.update(ruleId, {
+        exceptions: this.upsertException(rule.exceptions, { date, type: 'skip' }),
+      });
+    });
+
+    this.emit('rulesChanged');
+  }
+
+  /**
+   * Edit a single occurrence without touching the rest of the series
+   */
+  async editOccurrence(
+    ruleId: number,
+    date: Date,
+    overrides: Partial<RecurringExpenseTemplate>
+  ): Promise<void> {
+    await db.transaction('rw', [db.recurringRules, db.expenses, db.syncQueue, db.tags, db.revisions], async () => {
+      const rule = await this.getRuleOrThrow(ruleId);
+      const existing = await this.getGeneratedExpense(ruleId, date);
+
+      if (existing) {
+        await db.updateExpense(existing.id!, overrides, { source: 'recurring' });
+        return;
+      }
+
+      await db.recurringRules.update(ruleId, {
+        exceptions: this.upsertException(rule.exceptions, { date, type: 'override', overrides }),
+      });
+    });
+
+    this.emit('rulesChanged');
+  }
+
+  /**
+   * Restore a skipped or edited occurrence to the series defaults
+   */
+  async clearException(ruleId: number, date: Date): Promise<void> {
+    const rule = await this.getRuleOrThrow(ruleId);
+    const key = RecurrenceUtils.dayKey(date);
+
+    await db.recurringRules.update(ruleId, {
+      exceptions: rule.exceptions.filter(exception => RecurrenceUtils.dayKey(exception.date) !== key),
+    });
+    this.emit('rulesChanged');
+  }
+
+  /**
+   * Generate every occurrence that is due, including periods missed while
+   * the app was closed. Returns the number of expenses created.
+   */
+  async processDueRules(now = new Date()): Promise<number> {
+    if (this.isProcessing) return 0;
+    this.isProcessing = true;
+
+    let generatedCount = 0;
+
+    try {
+      const dueRules = await db.recurringRules
+        .where('nextDate')
+        .belowOrEqual(now)
+        .filter(rule => rule.status === 'active')
+        .toArray();
+
+      for (const rule of dueRules) {
+        generatedCount += await this.catchUpRule(rule.id!, now);
+      }
+
+      if (generatedCount > 0) {
+        console.log(`Generated ${generatedCount} recurring expenses`);
+        this.emit('expensesGenerated', { count: generatedCount });
+      }
+    } catch (error) {
+      console.error('Failed to process recurring rules:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return generatedCount;
+  }
+
+  async getRules(): Promise<RecurringRule[]> {
+    return await db.recurringRules.toArray();
+  }
+
+  /**
+   * Preview the next occurrences of a rule, including skipped ones
+   */
+  async getUpcomingOccurrences(ruleId: number, limit = 5): Promise<UpcomingOccurrence[]> {
+    const rule = await this.getRuleOrThrow(ruleId);
+    const upcoming: UpcomingOccurrence[] = [];
+    let index = rule.nextIndex;
+
+    while (upcoming.length < limit) {
+      const next = RecurrenceUtils.findNextOccurrence(rule, index);
+      if (!next) break;
+
+      const exception = RecurrenceUtils.findException(rule, next.date);
+      upcoming.push({
+        index: next.index,
+        date: next.date,
+        skipped: exception?.type === 'skip',
+        overrides: exception?.type === 'override' ? exception.overrides : undefined,
+      });
+      index = next.index + 1;
+    }
+
+    return upcoming;
+  }
+
+  // Helper methods
+
+  private async catchUpRule(ruleId: number, now: Date): Promise<number> {
+    return await db.transaction('rw', [db.recurringRules, db.expenses, db.syncQueue, db.tags, db.revisions], async () => {
+      // Re-read inside the transaction so concurrent runs can't double-generate
+      const rule = await db.recurringRules.get(ruleId);
+      if (!rule || rule.status !== 'active') return 0;
+
+      let created = 0;
+      let next = RecurrenceUtils.findNextOccurrence(rule, rule.nextIndex);
+
+      while (next && next.date.getTime() <= now.getTime() && created < this.MAX_CATCH_UP) {
+        const exception = RecurrenceUtils.findException(rule, next.date);
+        const alreadyGenerated = await this.getGeneratedExpense(ruleId, next.date);
+
+        if (exception?.type !== 'skip' && !alreadyGenerated) {
+          await db.addExpense({
+            ...rule.template,
+            ...(exception?.type === 'override' ? exception.overrides : {}),
+            date: next.date,
+            recurringRuleId: ruleId,
+            recurrenceDate: next.date,
+          }, { source: 'recurring' });
+          created++;
+        }
+
+        next = RecurrenceUtils.findNextOccurrence(rule, next.index + 1);
+      }
+
+      await db.recurringRules.update(ruleId, {
+        nextIndex: next?.index ?? rule.nextIndex,
+        nextDate: next?.date,
+      });
+
+      return created;
+    });
+  }
+
+  private async getGeneratedExpense(ruleId: number, date: Date): Promise<Expense | undefined> {
+    return await db.expenses
+      .where('[recurringRuleId+recurrenceDate]')
+      .equals([ruleId, date])
+      .first();
+  }
+
+  private async getRuleOrThrow(id: number): Promise<RecurringRule> {
+    const rule = await db.recurringRules.get(id);
+    if (!rule) {
+      throw new Error(`Recurring rule ${id} not found`);
+    }
+    return rule;
+  }
+
+  private validateSchedule(schedule: RecurringSchedule): Required<Pick<RecurringSchedule, 'monthDayPolicy'>> & RecurringSchedule {
+    if (!Number.isInteger(schedule.interval) || schedule.interval < 1) {
+      throw new Error('Interval must be a positive whole number');
+    }
+    if (schedule.endDate && schedule.endDate.getTime() < schedule.startDate.getTime()) {
+      throw new Error('End date must be after the start date');
+    }
+    if (schedule.count !== undefined && (!Number.isInteger(schedule.count) || schedule.count < 1)) {
+      throw new Error('Occurrence count must be a positive whole number');
+    }
+
+    return {
+      frequency: schedule.frequency,
+      interval: schedule.interval,
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+      count: schedule.count,
+      monthDayPolicy: schedule.monthDayPolicy ?? 'clamp',
+    };
+  }
+
+  private upsertException(exceptions: RecurrenceException[], exception: RecurrenceException): RecurrenceException[] {
+    const key = RecurrenceUtils.dayKey(exception.date);
+    return [...exceptions.filter(existing => RecurrenceUtils.dayKey(existing.date) !== key), exception];
+  }
+
+  private buildRule(
+    name: string,
+    template: RecurringExpenseTemplate,
+    schedule: RecurringSchedule,
+    nextIndex: number,
+    nextDate?: Date
+  ): RecurringRule {
+    return {
+      name,
+      template,
+      frequency: schedule.frequency,
+      interval: schedule.interval,
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+      count: schedule.count,
+      monthDayPolicy: schedule.monthDayPolicy ?? 'clamp',
+      status: 'active',
+      nextIndex,
+      nextDate,
+      exceptions: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+
+  private toTemplate(expense: Expense): RecurringExpenseTemplate {
+    const instanceFields = new Set<string>([
+      'id', 'date', 'receipt', 'createdAt', 'updatedAt', 'syncStatus', 'cloudId', 'recurringRuleId', 'recurrenceDate',
+    ]);
+    return Object.fromEntries(
+      Object.entries(expense).filter(([field]) => !instanceFields.has(field))
+    ) as RecurringExpenseTemplate;
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const recurringManager = new RecurringManager();
+
+export default recurringManager;
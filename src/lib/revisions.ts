@@ -0,0 +1,100 @@
+/**
+ * Expense Revisions
+ * Field-level diffs between versions of an expense, for the revision log
+ */
+
+import type { Expense, FieldChange } from '@/lib/database';
+import { MoneyUtils } from '@/lib/money';
+
+// Bookkeeping and derived fields that don't count as a change
+export const REVISION_IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', 'syncStatus', 'cloudId', 'searchTerms', 'splitCategories', 'sharedWith', 'deletedAt'];
+
+// Fields holding minor units, shown as money when a currency is known
+export const REVISION_MONEY_FIELDS = ['amount', 'toAmount', 'splits'];
+
+const FIELD_LABELS: Record<string, string> = {
+  kind: 'Type',
+  amount: 'Amount',
+  currency: 'Currency',
+  description: 'Description',
+  category: 'Category',
+  paymentMethod: 'Payment method',
+  date: 'Date',
+  notes: 'Notes',
+  tags: 'Tags',
+  location: 'Location',
+  receipt: 'Receipt',
+  splits: 'Splits',
+  accountId: 'Account',
+  toAccountId: 'To account',
+  toAmount: 'Amount received',
+  recurringRuleId: 'Recurring rule',
+  recurrenceDate: 'Occurrence',
+  reimbursable: 'Reimbursable',
+  sharing: 'Shared with',
+  projectId: 'Project',
+  taxDeductible: 'Tax deductible',
+  taxCategory: 'Tax category',
+};
+
+// Utility functions
+export const RevisionUtils = {
+  /**
+   * Fields that differ between two versions. A missing version (before a
+   * create or after a delete) counts as having no fields.
+   */
+  diff(before: Partial<Expense> | undefined, after: Partial<Expense> | undefined): FieldChange[] {
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    const changes: FieldChange[] = [];
+
+    fields.forEach(field => {
+      if (REVISION_IGNORED_FIELDS.includes(field)) return;
+
+      const previous = (before as Record<string, unknown> | undefined)?.[field];
+      const next = (after as Record<string, unknown> | undefined)?.[field];
+      if (!this.isEqual(previous, next)) {
+        changes.push({ field, before: previous, after: next });
+      }
+    });
+
+    return changes.sort((a, b) => a.field.localeCompare(b.field));
+  },
+
+  /**
+   * Structural equality for stored values. Empty arrays and missing values
+   * are the same, so tagging and untagging doesn't leave noise behind.
+   */
+  isEqual(a: unknown, b: unknown): boolean {
+    const normalize = (value: unknown) => (Array.isArray(value) && value.length === 0 ? undefined : value);
+    return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+  },
+
+  getFieldLabel(field: string): string {
+    return FIELD_LABELS[field] ?? field;
+  },
+
+  /**
+   * Readable value for the history panel. Pass the currency for money
+   * fields so minor units show as amounts.
+   */
+  formatValue(value: unknown, currency?: string): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (value instanceof Date) return value.toLocaleDateString(undefined, { timeZone: 'UTC' });
+    if (typeof value === 'number' && currency) return MoneyUtils.format({ amount: value, currency });
+    if (Array.isArray(value)) {
+      return value.map(item => (typeof item === 'object' ? this.formatValue(item, currency) : String(item))).join(', ');
+    }
+    if (typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      // Receipts, locations and split lines have a readable name or category
+      return String(
+        record['fileName'] ??
+          record['name'] ??
+          (record['category'] ? `${record['category']} ${this.formatValue(record['amount'], currency)}` : JSON.stringify(value))
+      );
+    }
+    return String(value);
+  },
+};
+
+export default RevisionUtils;
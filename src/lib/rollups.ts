@@ -0,0 +1,112 @@
+/**
+ * Monthly Rollups
+ * Per-month totals by category and payment method, kept in step with the
+ * expenses table so statistics don't have to read every expense
+ */
+
+import type { Expense, MonthlyRollup } from '@/lib/database';
+import { SplitUtils } from '@/lib/splits';
+
+export type RollupKey = Pick<MonthlyRollup, 'month' | 'kind' | 'currency' | 'dimension' | 'key'>;
+
+// Fields that decide which rollups an expense counts towards
+export const ROLLUP_SOURCE_FIELDS = ['kind', 'amount', 'currency', 'date', 'category', 'splits', 'paymentMethod'];
+
+// Utility functions
+export const RollupUtils = {
+  /**
+   * Month of a date as "YYYY-MM". Expense dates are stored as UTC midnight,
+   * so months are UTC months.
+   */
+  getMonth(date: Date): string {
+    return date.toISOString().slice(0, 7);
+  },
+
+  getMonthStart(month: string): Date {
+    return new Date(`${month}-01T00:00:00.000Z`);
+  },
+
+  getNextMonthStart(month: string): Date {
+    const start = this.getMonthStart(month);
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  },
+
+  getIdentity(row: RollupKey): string {
+    return [row.month, row.kind, row.currency, row.dimension, row.key].join('|');
+  },
+
+  /**
+   * Rollup rows an expense contributes, negated when `sign` is -1. Transfers
+   * are neither spending nor income and contribute nothing.
+   */
+  getEntries(expense: Expense, sign: 1 | -1 = 1): MonthlyRollup[] {
+    if (expense.kind === 'transfer' || !expense.date) return [];
+
+    const base = { month: this.getMonth(expense.date), kind: expense.kind, currency: expense.currency };
+    const entries: MonthlyRollup[] = [
+      { ...base, dimension: 'total', key: '', amount: sign * expense.amount, count: sign },
+      { ...base, dimension: 'paymentMethod', key: expense.paymentMethod, amount: sign * expense.amount, count: sign },
+    ];
+
+    // A split expense counts once in each of its categories
+    const byCategory = new Map<string, number>();
+    SplitUtils.getAllocations(expense).forEach(allocation => {
+      byCategory.set(allocation.category, (byCategory.get(allocation.category) ?? 0) + allocation.amount);
+    });
+    byCategory.forEach((amount, category) => {
+      entries.push({ ...base, dimension: 'category', key: category, amount: sign * amount, count: sign });
+    });
+
+    return entries;
+  },
+
+  /**
+   * Add rows into a map keyed by identity
+   */
+  accumulate(target: Map<string, MonthlyRollup>, entries: MonthlyRollup[]): void {
+    entries.forEach(entry => {
+      const identity = this.getIdentity(entry);
+      const current = target.get(identity);
+      if (current) {
+        current.amount += entry.amount;
+        current.count += entry.count;
+      } else {
+        target.set(identity, { ...entry });
+      }
+    });
+  },
+
+  /**
+   * Split a date range (end exclusive) into the whole months rollups can
+   * answer and the partial edges that need the expenses themselves. Without
+   * both bounds every month is covered.
+   */
+  splitRange(startDate?: Date, endDate?: Date): { months: string[] | null; edges: Array<[Date, Date]> } {
+    if (!startDate || !endDate) return { months: null, edges: [] };
+
+    let firstMonth = this.getMonth(startDate);
+    if (this.getMonthStart(firstMonth) < startDate) {
+      firstMonth = this.getMonth(this.getNextMonthStart(firstMonth));
+    }
+    const endMonth = this.getMonth(endDate);
+    const fullStart = this.getMonthStart(firstMonth);
+    const fullEnd = this.getMonthStart(endMonth);
+
+    if (fullStart >= fullEnd) {
+      return { months: [], edges: startDate < endDate ? [[startDate, endDate]] : [] };
+    }
+
+    const months: string[] = [];
+    for (let month = firstMonth; month !== endMonth; month = this.getMonth(this.getNextMonthStart(month))) {
+      months.push(month);
+    }
+
+    const edges: Array<[Date, Date]> = [];
+    if (startDate < fullStart) edges.push([startDate, fullStart]);
+    if (fullEnd < endDate) edges.push([fullEnd, endDate]);
+
+    return { months, edges };
+  },
+};
+
+export default RollupUtils;
@@ -0,0 +1,154 @@
+/**
+ * Full-Text Search
+ * Tokenization and matching helpers for the expense search index. Index terms
+ * are stored on each expense as `field:word` so one multi-entry index can
+ * answer which expenses contain a word and in which field.
+ */
+
+import type { Expense } from '@/lib/database';
+
+export type SearchField = 'description' | 'notes' | 'tags' | 'location';
+
+export interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+}
+
+export type TermMatch = 'exact' | 'prefix' | 'fuzzy';
+
+// Short field codes keep the index small
+export const SEARCH_FIELD_CODES: Record<SearchField, string> = {
+  description: 'd',
+  notes: 'n',
+  tags: 't',
+  location: 'l',
+};
+
+// Matches in the description count for more than matches in the notes
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  description: 1,
+  tags: 0.8,
+  location: 0.6,
+  notes: 0.4,
+};
+
+export const SEARCH_MATCH_WEIGHTS: Record<TermMatch, number> = {
+  exact: 1,
+  prefix: 0.7,
+  fuzzy: 0.4,
+};
+
+// Utility functions
+export const SearchUtils = {
+  /**
+   * Split text into lowercase words with accents removed
+   */
+  tokenize(text: string | undefined): string[] {
+    if (!text) return [];
+
+    return text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+  },
+
+  /**
+   * Text of each searchable field of an expense
+   */
+  getFieldText(expense: Partial<Pick<Expense, 'description' | 'notes' | 'tags' | 'location'>>): Record<SearchField, string> {
+    return {
+      description: expense.description ?? '',
+      notes: expense.notes ?? '',
+      tags: (expense.tags ?? []).join(' '),
+      location: expense.location?.name ?? '',
+    };
+  },
+
+  /**
+   * Distinct `field:word` index terms for an expense
+   */
+  getSearchTerms(expense: Partial<Pick<Expense, 'description' | 'notes' | 'tags' | 'location'>>): string[] {
+    const fieldText = this.getFieldText(expense);
+    const terms = new Set<string>();
+
+    (Object.keys(fieldText) as SearchField[]).forEach(field => {
+      this.tokenize(fieldText[field]).forEach(word => terms.add(`${SEARCH_FIELD_CODES[field]}:${word}`));
+    });
+
+    return Array.from(terms);
+  },
+
+  /**
+   * Split an index term back into its field and word
+   */
+  parseTerm(term: string): { field: SearchField; word: string } | null {
+    const separator = term.indexOf(':');
+    const code = term.slice(0, separator);
+    const field = (Object.keys(SEARCH_FIELD_CODES) as SearchField[]).find(name => SEARCH_FIELD_CODES[name] === code);
+    return field ? { field, word: term.slice(separator + 1) } : null;
+  },
+
+  /**
+   * Separate quoted phrases from loose words
+   */
+  parseQuery(query: string): ParsedQuery {
+    const phrases: string[][] = [];
+    const rest = query.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+      const words = this.tokenize(phrase);
+      if (words.length > 0) phrases.push(words);
+      return ' ';
+    });
+
+    return { terms: this.tokenize(rest), phrases };
+  },
+
+  /**
+   * Typo allowance for a query word; short words must match exactly
+   */
+  getMaxEdits(word: string): number {
+    if (word.length < 4) return 0;
+    if (word.length < 8) return 1;
+    return 2;
+  },
+
+  /**
+   * Levenshtein distance, giving up once it exceeds `max`
+   */
+  editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      let rowMin = i;
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        const value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+        current.push(value);
+        rowMin = Math.min(rowMin, value);
+      }
+      if (rowMin > max) return max + 1;
+      previous = current;
+    }
+
+    return previous[b.length]!;
+  },
+
+  /**
+   * Whether an expense contains the words of a phrase next to each other in
+   * a single field
+   */
+  containsPhrase(expense: Expense, phrase: string[]): boolean {
+    return Object.values(this.getFieldText(expense)).some(text => {
+      const words = this.tokenize(text);
+      for (let i = 0; i + phrase.length <= words.length; i++) {
+        if (phrase.every((word, offset) => words[i + offset] === word)) return true;
+      }
+      return false;
+    });
+  },
+};
+
+export default SearchUtils;
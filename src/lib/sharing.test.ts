@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { EXACT_SETTLE_LIMIT, SharingUtils, type Balances, type Debt } from '@/lib/sharing';
+
+function settle(balances: Balances, transfers: Debt[]): Balances {
+  const result = new Map(balances);
+  transfers.forEach(({ from, to, amount }) => {
+    result.set(from, result.get(from)! + amount);
+    result.set(to, result.get(to)! - amount);
+  });
+  return result;
+}
+
+describe('SharingUtils.simplify', () => {
+  it('finds the fewest transfers where largest-first pairing needs more', () => {
+    const balances: Balances = new Map([[1, -600], [2, -400], [3, 300], [4, 300], [5, 200], [6, 200]]);
+    const transfers = SharingUtils.simplify(balances, 'USD');
+
+    expect(transfers).toHaveLength(4);
+    expect(transfers.every(transfer => transfer.amount > 0 && transfer.currency === 'USD')).toBe(true);
+    expect(Array.from(settle(balances, transfers).values()).every(balance => balance === 0)).toBe(true);
+  });
+
+  it('settles everyone in one fewer transfer than people when no smaller group nets to zero', () => {
+    const balances: Balances = new Map([[0, -700], [1, 200], [2, 0], [3, 500]]);
+    const transfers = SharingUtils.simplify(balances, 'EUR');
+
+    expect(transfers).toHaveLength(2);
+    expect(Array.from(settle(balances, transfers).values()).every(balance => balance === 0)).toBe(true);
+  });
+
+  it('falls back to greedy pairing above the exact search limit', () => {
+    const balances: Balances = new Map();
+    for (let person = 1; person <= EXACT_SETTLE_LIMIT; person += 2) {
+      balances.set(person, -100 * person);
+      balances.set(person + 1, 100 * person);
+    }
+    balances.set(EXACT_SETTLE_LIMIT + 1, -50);
+    balances.set(EXACT_SETTLE_LIMIT + 2, 50);
+
+    const transfers = SharingUtils.simplify(balances, 'USD');
+    expect(transfers).toHaveLength(balances.size / 2);
+    expect(Array.from(settle(balances, transfers).values()).every(balance => balance === 0)).toBe(true);
+  });
+
+  it('returns nothing when everyone is even', () => {
+    expect(SharingUtils.simplify(new Map([[1, 0], [2, 0]]), 'USD')).toEqual([]);
+  });
+});
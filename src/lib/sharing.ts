@@ -0,0 +1,271 @@
+/**
+ * Shared Expenses
+ * Share resolution for expenses split between people, and the balances,
+ * debts and settle-up transfers that follow from them
+ */
+
+import type { Expense, ExpenseShare, ExpenseSharing, Settlement } from '@/lib/database';
+import { MoneyUtils } from '@/lib/money';
+
+// Stands for you wherever a person id is expected
+export const SELF_ID = 0;
+
+// One person owing another
+export interface Debt {
+  from: number; // Person id, SELF_ID for you
+  to: number;
+  amount: number; // Minor units of `currency`
+  currency: string;
+}
+
+// Net position of everyone in one currency; positive means they are owed
+export type Balances = Map<number, number>;
+
+// Most people with a balance whose settle-up is searched exactly
+export const EXACT_SETTLE_LIMIT = 16;
+
+// Utility functions
+export const SharingUtils = {
+  getPersonKey(personId: number | undefined): number {
+    return personId ?? SELF_ID;
+  },
+
+  /**
+   * Everyone involved in a shared expense, the payer included
+   */
+  getPeople(sharing: ExpenseSharing | undefined): number[] | undefined {
+    if (!sharing) return undefined;
+    return Array.from(
+      new Set([this.getPersonKey(sharing.paidBy), ...sharing.shares.map(share => this.getPersonKey(share.personId))])
+    );
+  },
+
+  /**
+   * Work out each share's amount from the method, throwing when the shares
+   * can't cover the total. Equal and percentage shares are spread to the
+   * minor unit so they always add up exactly.
+   */
+  resolve(amount: number, sharing: ExpenseSharing, currency = 'USD'): ExpenseSharing {
+    const { shares } = sharing;
+    if (shares.length === 0) {
+      throw new Error('Choose who the expense is shared with.');
+    }
+
+    const people = shares.map(share => this.getPersonKey(share.personId));
+    if (new Set(people).size !== people.length) {
+      throw new Error('Each person can only have one share.');
+    }
+    if (people.every(person => person === this.getPersonKey(sharing.paidBy))) {
+      throw new Error('Share the expense with at least one person besides whoever paid.');
+    }
+
+    const money = { amount, currency };
+    let amounts: number[];
+
+    switch (sharing.method) {
+      case 'equal':
+        amounts = MoneyUtils.allocate(money, shares.map(() => 1)).map(share => share.amount);
+        break;
+      case 'percentage': {
+        const percentages = shares.map(share => share.percentage ?? NaN);
+        if (percentages.some(percentage => !Number.isFinite(percentage) || percentage < 0)) {
+          throw new Error('Enter a percentage for everyone sharing the expense.');
+        }
+        const total = percentages.reduce((sum, percentage) => sum + percentage, 0);
+        if (Math.abs(total - 100) > 1e-6) {
+          throw new Error(`Percentages must add up to 100% (currently ${Math.round(total * 100) / 100}%).`);
+        }
+        amounts = MoneyUtils.allocate(money, percentages).map(share => share.amount);
+        break;
+      }
+      case 'exact': {
+        amounts = shares.map(share => share.amount);
+        if (amounts.some(share => !Number.isSafeInteger(share) || share < 0)) {
+          throw new Error('Enter a valid amount for everyone sharing the expense.');
+        }
+        const remaining = amount - amounts.reduce((sum, share) => sum + share, 0);
+        if (remaining !== 0) {
+          throw new Error(
+            `Shares must add up to the total (${remaining > 0 ? 'unassigned' : 'over by'} ${MoneyUtils.format({ amount: Math.abs(remaining), currency })}).`
+          );
+        }
+        break;
+      }
+    }
+
+    return {
+      ...sharing,
+      shares: shares.map((share, index): ExpenseShare => ({ ...share, amount: amounts[index]! })),
+    };
+  },
+
+  /**
+   * Net balances per currency from shared expenses and settlements. The payer
+   * is owed the whole amount and everyone is charged their share, so each
+   * currency's balances add up to zero.
+   */
+  getBalances(expenses: Expense[], settlements: Settlement[]): Map<string, Balances> {
+    const byCurrency = new Map<string, Balances>();
+    const add = (currency: string, person: number, amount: number) => {
+      const balances = byCurrency.get(currency) ?? new Map<number, number>();
+      balances.set(person, (balances.get(person) ?? 0) + amount);
+      byCurrency.set(currency, balances);
+    };
+
+    expenses.forEach(expense => {
+      if (!expense.sharing) return;
+      add(expense.currency, this.getPersonKey(expense.sharing.paidBy), expense.amount);
+      expense.sharing.shares.forEach(share => add(expense.currency, this.getPersonKey(share.personId), -share.amount));
+    });
+
+    settlements.forEach(settlement => {
+      add(settlement.currency, this.getPersonKey(settlement.fromPersonId), settlement.amount);
+      add(settlement.currency, this.getPersonKey(settlement.toPersonId), -settlement.amount);
+    });
+
+    return byCurrency;
+  },
+
+  /**
+   * Who owes whom, pair by pair: each share is owed to whoever paid, and
+   * amounts between the same two people in the same currency cancel out
+   */
+  getDebts(expenses: Expense[], settlements: Settlement[]): Debt[] {
+    const pairs = new Map<string, Debt>();
+    const owe = (from: number, to: number, amount: number, currency: string) => {
+      if (from === to || amount === 0) return;
+      // Keep one entry per unordered pair, signed by direction
+      const [low, high, sign] = from < to ? [from, to, 1] : [to, from, -1];
+      const key = `${currency}|${low}|${high}`;
+      const debt = pairs.get(key) ?? { from: low, to: high, amount: 0, currency };
+      debt.amount += sign * amount;
+      pairs.set(key, debt);
+    };
+
+    expenses.forEach(expense => {
+      if (!expense.sharing) return;
+      const payer = this.getPersonKey(expense.sharing.paidBy);
+      expense.sharing.shares.forEach(share => owe(this.getPersonKey(share.personId), payer, share.amount, expense.currency));
+    });
+
+    // Paying someone reduces what you owe them
+    settlements.forEach(settlement =>
+      owe(this.getPersonKey(settlement.toPersonId), this.getPersonKey(settlement.fromPersonId), settlement.amount, settlement.currency)
+    );
+
+    return Array.from(pairs.values())
+      .filter(debt => debt.amount !== 0)
+      .map(debt => (debt.amount > 0 ? debt : { ...debt, from: debt.to, to: debt.from, amount: -debt.amount }));
+  },
+
+  /**
+   * The fewest transfers that settle a set of balances. Everyone is split into
+   * as many separate groups that each net to zero as possible; a group of n
+   * people then settles in n - 1 transfers, and no plan can do better. The
+   * search is exact up to EXACT_SETTLE_LIMIT people with a balance; beyond
+   * that everyone is settled as one group, which may take a few extra
+   * transfers.
+   */
+  simplify(balances: Balances, currency: string): Debt[] {
+    const entries = Array.from(balances)
+      .filter(([, balance]) => balance !== 0)
+      .map(([person, balance]) => ({ person, balance }));
+
+    if (entries.length > EXACT_SETTLE_LIMIT) return this.settleGroup(entries, currency);
+
+    return this.findZeroSumGroups(entries.map(entry => entry.balance)).flatMap(group =>
+      this.settleGroup(group.map(index => entries[index]!), currency)
+    );
+  },
+
+  /**
+   * Split balances that net to zero into the largest number of groups that
+   * each net to zero, as lists of indexes. Checks every subset, so the work
+   * doubles with each balance.
+   */
+  findZeroSumGroups(balances: number[]): number[][] {
+    const size = 1 << balances.length;
+    const sums = new Float64Array(size);
+    // Most separate zero-sum groups within each subset
+    const groups = new Int32Array(size);
+
+    for (let mask = 1; mask < size; mask++) {
+      const lowest = mask & -mask;
+      sums[mask] = sums[mask ^ lowest]! + balances[31 - Math.clz32(lowest)]!;
+
+      let best = 0;
+      for (let rest = mask; rest; rest &= rest - 1) {
+        best = Math.max(best, groups[mask ^ (rest & -rest)]!);
+      }
+      groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+    }
+
+    // Peel people off the way the best count was reached; each time what's
+    // left nets to zero again, the people peeled since form a group
+    const result: number[][] = [];
+    let current: number[] = [];
+    for (let mask = size - 1; mask; ) {
+      let pick = mask & -mask;
+      for (let rest = mask; rest; rest &= rest - 1) {
+        const bit = rest & -rest;
+        if (groups[mask ^ bit]! > groups[mask ^ pick]!) pick = bit;
+      }
+
+      current.push(31 - Math.clz32(pick));
+      mask ^= pick;
+      if (sums[mask] === 0) {
+        result.push(current);
+        current = [];
+      }
+    }
+
+    return result;
+  },
+
+  /**
+   * Transfers that settle balances netting to zero, one fewer than there are
+   * people. Debtors and creditors with equal amounts are paired first, then
+   * the largest debtor pays the largest creditor until everyone is even.
+   */
+  settleGroup(entries: Array<{ person: number; balance: number }>, currency: string): Debt[] {
+    const debtors: Array<{ person: number; amount: number }> = [];
+    const creditors: Array<{ person: number; amount: number }> = [];
+    entries.forEach(({ person, balance }) => {
+      if (balance < 0) debtors.push({ person, amount: -balance });
+      else if (balance > 0) creditors.push({ person, amount: balance });
+    });
+
+    const transfers: Debt[] = [];
+
+    // Exact matches settle two people in one transfer
+    for (const debtor of debtors) {
+      const creditor = creditors.find(candidate => candidate.amount === debtor.amount);
+      if (creditor) {
+        transfers.push({ from: debtor.person, to: creditor.person, amount: debtor.amount, currency });
+        debtor.amount = 0;
+        creditor.amount = 0;
+      }
+    }
+
+    const byAmount = (a: { amount: number }, b: { amount: number }) => b.amount - a.amount;
+    let openDebtors = debtors.filter(debtor => debtor.amount > 0).sort(byAmount);
+    let openCreditors = creditors.filter(creditor => creditor.amount > 0).sort(byAmount);
+
+    while (openDebtors.length > 0 && openCreditors.length > 0) {
+      const debtor = openDebtors[0]!;
+      const creditor = openCreditors[0]!;
+      const amount = Math.min(debtor.amount, creditor.amount);
+
+      transfers.push({ from: debtor.person, to: creditor.person, amount, currency });
+      debtor.amount -= amount;
+      creditor.amount -= amount;
+
+      openDebtors = openDebtors.filter(entry => entry.amount > 0).sort(byAmount);
+      openCreditors = openCreditors.filter(entry => entry.amount > 0).sort(byAmount);
+    }
+
+    return transfers;
+  },
+};
+
+export default SharingUtils;
@@ -0,0 +1,82 @@
+/**
+ * Split Transactions
+ * Validation and category allocation for expenses split across several categories
+ */
+
+import type { Expense, ExpenseSplit } from '@/lib/database';
+import { MoneyUtils } from '@/lib/money';
+
+// Utility functions
+export const SplitUtils = {
+  /**
+   * Throw when split lines are malformed or don't add up to the parent total
+   */
+  validate(amount: number, splits: ExpenseSplit[] | undefined, currency = 'USD'): void {
+    if (!splits || splits.length === 0) return;
+
+    if (splits.length < 2) {
+      throw new Error('A split expense needs at least two lines.');
+    }
+
+    splits.forEach((split, index) => {
+      if (!Number.isInteger(split.amount) || split.amount <= 0) {
+        throw new Error(`Split line ${index + 1} needs a valid amount.`);
+      }
+      if (!split.category) {
+        throw new Error(`Split line ${index + 1} needs a category.`);
+      }
+    });
+
+    const remaining = this.getRemaining(amount, splits);
+    if (remaining !== 0) {
+      throw new Error(
+        `Split lines must add up to the total (${remaining > 0 ? 'unallocated' : 'over by'} ${MoneyUtils.format({ amount: Math.abs(remaining), currency })}).`
+      );
+    }
+  },
+
+  /**
+   * Amount of the parent total not yet covered by split lines
+   */
+  getRemaining(amount: number, splits: ExpenseSplit[]): number {
+    return amount - splits.reduce((sum, split) => sum + (split.amount || 0), 0);
+  },
+
+  /**
+   * Category of the largest split line, used as the expense's primary category
+   */
+  getPrimaryCategory(splits: ExpenseSplit[]): string | undefined {
+    return splits.reduce<ExpenseSplit | undefined>(
+      (largest, split) => (!largest || split.amount > largest.amount ? split : largest),
+      undefined
+    )?.category;
+  },
+
+  /**
+   * Distinct categories across an expense's split lines
+   */
+  getCategories(splits: ExpenseSplit[] | undefined): string[] {
+    return Array.from(new Set((splits ?? []).map(split => split.category)));
+  },
+
+  /**
+   * How an expense's amount is allocated to categories. Unsplit expenses
+   * allocate everything to their own category. Pass `total` to spread a
+   * converted amount over the lines in the same proportions, to the unit.
+   */
+  getAllocations(
+    expense: Pick<Expense, 'amount' | 'currency' | 'category' | 'splits'>,
+    total: number = expense.amount
+  ): Array<{ category: string; amount: number }> {
+    if (!expense.splits || expense.splits.length === 0) {
+      return [{ category: expense.category, amount: total }];
+    }
+
+    const amounts = total === expense.amount
+      ? expense.splits.map(split => split.amount)
+      : MoneyUtils.allocate({ amount: total, currency: expense.currency }, expense.splits.map(split => split.amount)).map(share => share.amount);
+    return expense.splits.map((split, index) => ({ category: split.category, amount: amounts[index]! }));
+  },
+};
+
+export default SplitUtils;
@@ -11,6 +11,7 @@ export interface MediaMetadata {
   width?: number;
   height?: number;
   thumbnailId?: string;
+  hash?: string; // SHA-256 of the file as uploaded, before compression
   createdAt: Date;
 }
 
@@ -96,6 +97,7 @@ class OPFSStorage {
       fileName: file.name,
       mimeType: file.type,
       size: file.size,
+      hash: await StorageUtils.hashFile(file),
       createdAt: new Date(),
     };
 
@@ -507,6 +509,14 @@ export const StorageUtils = {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   },
 
+  /**
+   * Hex SHA-256 of a file's contents, so the same photo uploaded twice can be recognized
+   */
+  async hashFile(file: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  },
+
   /**
    * Generate a unique media ID
    */
@@ -250,6 +250,13 @@ class SyncManager {
     // 2. Make API call to your backend
     // 3. Update the expense with server response (cloudId, etc.)
     
+    // Deletes are tombstones: the row is in the trash or already purged
+    if (item.operation === 'delete') {
+      // DELETE /api/expenses/:cloudId
+      console.log('Syncing deleted expense:', item.entityId, item.data?.cloudId);
+      return;
+    }
+
     const expense = await db.expenses.get(item.entityId);
     if (!expense) {
       throw new Error(`Expense ${item.entityId} not found`);
@@ -273,11 +280,6 @@ class SyncManager {
           syncStatus: 'synced',
         });
         break;
-        
-      case 'delete':
-        // DELETE /api/expenses/:id
-        console.log('Syncing deleted expense:', item.entityId);
-        break;
     }
   }
 
@@ -0,0 +1,52 @@
+/**
+ * Tags
+ * Normalization and color helpers for the tag registry
+ */
+
+// Colors handed out to new tags, picked by name so a tag keeps its color
+export const TAG_COLORS = [
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#06b6d4',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+  '#6b7280',
+];
+
+// Utility functions
+export const TagUtils = {
+  /**
+   * Canonical form of a tag name, so "Work Trip", "#work trip" and
+   * " work  trip" are the same tag
+   */
+  normalize(name: string): string {
+    return name.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase();
+  },
+
+  /**
+   * Normalized, de-duplicated tag list with blanks removed
+   */
+  normalizeList(tags: string[] | undefined): string[] {
+    return Array.from(new Set((tags ?? []).map(tag => this.normalize(tag)).filter(Boolean)));
+  },
+
+  /**
+   * Tags from comma-separated input
+   */
+  parseInput(input: string): string[] {
+    return this.normalizeList(input.split(','));
+  },
+
+  getDefaultColor(name: string): string {
+    let hash = 0;
+    for (let i = 0; i < name.length; i++) {
+      hash = (hash * 31 + name.charCodeAt(i)) | 0;
+    }
+    return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length]!;
+  },
+};
+
+export default TagUtils;
@@ -0,0 +1,388 @@
+/**
+ * Tax Report
+ * Collects the expenses flagged as tax deductible in a financial year,
+ * grouped by tax category with references to their receipts, and exports
+ * them as CSV or a printable summary
+ */
+
+import { db, type Expense, type MediaFile } from '@/lib/database';
+import type { ExchangeRateTable } from '@/lib/currency';
+import { CurrencyUtils } from '@/lib/currency';
+import { MoneyUtils } from '@/lib/money';
+import { preferences } from '@/lib/preferences';
+import { AttachmentUtils } from '@/lib/attachments';
+import { CsvUtils } from '@/lib/csv';
+
+export interface FinancialYear {
+  startYear: number; // Calendar year the financial year starts in
+  start: Date; // Inclusive, UTC midnight
+  end: Date; // Exclusive
+  label: string; // "2025", or "2025–26" when it spans two calendar years
+}
+
+// A receipt or other attachment backing a deduction
+export interface TaxReceiptReference {
+  mediaId: string;
+  fileName: string;
+  caption?: string;
+}
+
+export interface TaxReportItem {
+  expenseId: number;
+  date: Date;
+  description: string;
+  payee?: string;
+  category: string;
+  amount: number; // Minor units of `currency`
+  currency: string;
+  converted: number | null; // In the report currency, null without an exchange rate
+  receipts: TaxReceiptReference[];
+  notes?: string;
+}
+
+export interface TaxCategoryGroup {
+  taxCategory: string;
+  total: number; // Report currency, converted items only
+  items: TaxReportItem[];
+}
+
+export interface TaxReport {
+  year: FinancialYear;
+  currency: string;
+  groups: TaxCategoryGroup[]; // Largest first
+  total: number;
+  count: number;
+  unconverted: number; // Items left out of the totals because no exchange rate was available
+  missingReceipts: number;
+  generatedAt: Date;
+}
+
+// Common itemized deductions; any other name can be typed in
+export const TAX_CATEGORIES = [
+  'Medical & dental',
+  'Charitable donations',
+  'Home office',
+  'Business travel',
+  'Vehicle',
+  'Education',
+  'Professional fees',
+  'Work equipment',
+  'Other deductions',
+];
+
+// Where deductible expenses without a tax category are reported
+export const DEFAULT_TAX_CATEGORY = 'Other deductions';
+
+// Utility functions
+export const TaxUtils = {
+  /**
+   * The financial year starting in `startYear`. A start day past the end
+   * of the month falls back to the month's last day.
+   */
+  getFinancialYear(startYear: number, startMonth: number, startDay: number): FinancialYear {
+    const clampDay = (year: number) => Math.min(startDay, new Date(Date.UTC(year, startMonth, 0)).getUTCDate());
+    const start = new Date(Date.UTC(startYear, startMonth - 1, clampDay(startYear)));
+    const end = new Date(Date.UTC(startYear + 1, startMonth - 1, clampDay(startYear + 1)));
+    const isCalendarYear = startMonth === 1 && startDay === 1;
+
+    return {
+      startYear,
+      start,
+      end,
+      label: isCalendarYear ? `${startYear}` : `${startYear}–${String((startYear + 1) % 100).padStart(2, '0')}`,
+    };
+  },
+
+  /**
+   * The financial year a date falls in
+   */
+  getFinancialYearOf(date: Date, startMonth: number, startDay: number): FinancialYear {
+    const year = date.getUTCFullYear();
+    const current = this.getFinancialYear(year, startMonth, startDay);
+    return date < current.start ? this.getFinancialYear(year - 1, startMonth, startDay) : current;
+  },
+
+  getTaxCategory(expense: Pick<Expense, 'taxCategory'>): string {
+    return expense.taxCategory?.trim() || DEFAULT_TAX_CATEGORY;
+  },
+
+  /**
+   * Receipts for an expense: its attachments in order, or the receipt link
+   * alone for expenses saved before attachments were listed
+   */
+  getReceipts(expense: Expense, attachments: MediaFile[] = []): TaxReceiptReference[] {
+    if (attachments.length > 0) {
+      return AttachmentUtils.sortByPosition(attachments).map(media => ({
+        mediaId: media.mediaId,
+        fileName: media.fileName,
+        caption: media.caption,
+      }));
+    }
+    return expense.receipt ? [{ mediaId: expense.receipt.mediaId, fileName: expense.receipt.fileName }] : [];
+  },
+
+  describeReceipt(receipt: TaxReceiptReference): string {
+    return receipt.caption ? `${receipt.caption} (${receipt.fileName})` : receipt.fileName;
+  },
+
+  /**
+   * Group deductible expenses by tax category, with totals converted to the
+   * report currency on each expense's date
+   */
+  buildReport(
+    year: FinancialYear,
+    expenses: Expense[],
+    options: {
+      currency: string;
+      rateTable: ExchangeRateTable;
+      attachments?: Map<number, MediaFile[]>;
+      payeeNames?: Map<number, string>;
+    }
+  ): TaxReport {
+    const groups = new Map<string, TaxCategoryGroup>();
+    const report: TaxReport = {
+      year,
+      currency: options.currency,
+      groups: [],
+      total: 0,
+      count: 0,
+      unconverted: 0,
+      missingReceipts: 0,
+      generatedAt: new Date(),
+    };
+
+    expenses
+      .filter(expense => expense.kind === 'expense' && expense.taxDeductible)
+      .filter(expense => expense.date >= year.start && expense.date < year.end)
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || (a.id ?? 0) - (b.id ?? 0))
+      .forEach(expense => {
+        const converted = options.rateTable.convert(expense.amount, expense.currency, options.currency, expense.date);
+        const item: TaxReportItem = {
+          expenseId: expense.id!,
+          date: expense.date,
+          description: expense.description,
+          payee: expense.payeeId !== undefined ? options.payeeNames?.get(expense.payeeId) : undefined,
+          category: expense.category,
+          amount: expense.amount,
+          currency: expense.currency,
+          converted,
+          receipts: this.getReceipts(expense, options.attachments?.get(expense.id!)),
+          notes: expense.notes,
+        };
+
+        const taxCategory = this.getTaxCategory(expense);
+        const group = groups.get(taxCategory) ?? { taxCategory, total: 0, items: [] };
+        group.items.push(item);
+        groups.set(taxCategory, group);
+        report.count++;
+
+        if (converted === null) {
+          report.unconverted++;
+        } else {
+          group.total += converted;
+          report.total += converted;
+        }
+        if (item.receipts.length === 0) {
+          report.missingReceipts++;
+        }
+      });
+
+    report.groups = [...groups.values()].sort((a, b) => b.total - a.total || a.taxCategory.localeCompare(b.taxCategory));
+    return report;
+  },
+
+  /**
+   * One row per expense, amounts as plain decimals in their own currency and
+   * converted to the report currency
+   */
+  toCSV(report: TaxReport): string {
+    const headers = [
+      'Tax category',
+      'Date',
+      'Description',
+      'Payee',
+      'Category',
+      'Amount',
+      'Currency',
+      `Amount (${report.currency})`,
+      'Receipts',
+      'Notes',
+      'Expense ID',
+    ];
+    const rows = report.groups.flatMap(group =>
+      group.items.map(item => [
+        CsvUtils.text(group.taxCategory),
+        item.date.toISOString().split('T')[0]!,
+        CsvUtils.text(item.description),
+        CsvUtils.text(item.payee ?? ''),
+        CsvUtils.text(item.category),
+        MoneyUtils.toInputValue({ amount: item.amount, currency: item.currency }),
+        item.currency,
+        item.converted === null ? '' : MoneyUtils.toInputValue({ amount: item.converted, currency: report.currency }),
+        CsvUtils.text(item.receipts.map(receipt => this.describeReceipt(receipt)).join('; ')),
+        CsvUtils.text(item.notes ?? ''),
+        String(item.expenseId),
+      ])
+    );
+
+    return CsvUtils.build(headers, rows);
+  },
+
+  /**
+   * A standalone HTML page summarizing the report, laid out for printing
+   */
+  toPrintableHTML(report: TaxReport): string {
+    const format = (amount: number) => CurrencyUtils.format(amount, report.currency);
+    const escape = (text: string) => this.escapeHTML(text);
+    const formatDate = (date: Date) => date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+    const lastDay = new Date(report.year.end.getTime() - 1);
+
+    const summaryRows = report.groups
+      .map(group => `<tr><td>${escape(group.taxCategory)}</td><td class="num">${group.items.length}</td><td class="num">${format(group.total)}</td></tr>`)
+      .join('');
+
+    const sections = report.groups
+      .map(group => {
+        const rows = group.items
+          .map(item => {
+            const amount = CurrencyUtils.format(item.amount, item.currency);
+            const converted = item.currency === report.currency ? '' : ` <span class="muted">(${item.converted === null ? 'no rate' : format(item.converted)})</span>`;
+            const receipts = item.receipts.length > 0
+              ? item.receipts.map(receipt => escape(this.describeReceipt(receipt))).join('<br>')
+              : '<span class="missing">No receipt</span>';
+            return `<tr><td>${formatDate(item.date)}</td><td>${escape(item.description)}${item.payee ? `<br><span class="muted">${escape(item.payee)}</span>` : ''}</td><td class="num">${amount}${converted}</td><td>${receipts}</td><td class="muted">#${item.expenseId}</td></tr>`;
+          })
+          .join('');
+        return `<h2>${escape(group.taxCategory)} <span class="muted">${format(group.total)}</span></h2>
+<table><thead><tr><th>Date</th><th>Description</th><th class="num">Amount</th><th>Receipts</th><th>Ref</th></tr></thead><tbody>${rows}</tbody></table>`;
+      })
+      .join('\n');
+
+    const notes = [
+      report.unconverted > 0 ? `${report.unconverted} expense(s) have no exchange rate to ${report.currency} and are left out of the totals.` : '',
+      report.missingReceipts > 0 ? `${report.missingReceipts} expense(s) have no receipt attached.` : '',
+    ].filter(Boolean).map(note => `<p class="missing">${note}</p>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Tax report ${escape(report.year.label)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; color: #111; margin: 2em; }
+  h1 { font-size: 20px; margin-bottom: 0; }
+  h2 { font-size: 15px; margin-top: 2em; border-bottom: 1px solid #999; page-break-after: avoid; }
+  table { width: 100%; border-collapse: collapse; margin-top: 0.5em; }
+  th, td { text-align: left; vertical-align: top; padding: 4px 6px; border-bottom: 1px solid #ddd; }
+  tr { page-break-inside: avoid; }
+  .num { text-align: right; white-space: nowrap; }
+  .muted { color: #666; font-weight: normal; }
+  .missing { color: #b91c1c; }
+  tfoot td { font-weight: bold; border-top: 2px solid #111; }
+</style>
+</head>
+<body>
+<h1>Tax-deductible expenses ${escape(report.year.label)}</h1>
+<p class="muted">${formatDate(report.year.start)} – ${formatDate(lastDay)} · ${report.count} expense(s) · generated ${report.generatedAt.toLocaleString()}</p>
+${notes}
+<table><thead><tr><th>Tax category</th><th class="num">Expenses</th><th class="num">Total</th></tr></thead>
+<tbody>${summaryRows}</tbody>
+<tfoot><tr><td>Total</td><td class="num">${report.count}</td><td class="num">${format(report.total)}</td></tr></tfoot></table>
+${sections}
+</body>
+</html>
+`;
+  },
+
+  escapeHTML(text: string): string {
+    return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+  },
+};
+
+class TaxManager {
+  /**
+   * The financial year a date falls in, per the user's financial year start
+   */
+  async getFinancialYear(date: Date = new Date()): Promise<FinancialYear> {
+    const [month, day] = await Promise.all([
+      preferences.getPreference('financialYearStartMonth'),
+      preferences.getPreference('financialYearStartDay'),
+    ]);
+    const today = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+    return TaxUtils.getFinancialYearOf(today, month, day);
+  }
+
+  async getYear(startYear: number): Promise<FinancialYear> {
+    const [month, day] = await Promise.all([
+      preferences.getPreference('financialYearStartMonth'),
+      preferences.getPreference('financialYearStartDay'),
+    ]);
+    return TaxUtils.getFinancialYear(startYear, month, day);
+  }
+
+  /**
+   * Tax categories to suggest: the common ones plus any already in use
+   */
+  async getTaxCategories(): Promise<string[]> {
+    const used = new Set<string>();
+    await db.expenses.each(expense => {
+      if (expense.taxCategory) used.add(expense.taxCategory);
+    });
+    return [...new Set([...TAX_CATEGORIES, ...[...used].sort()])];
+  }
+
+  async getReport(startYear: number): Promise<TaxReport> {
+    const year = await this.getYear(startYear);
+    const expenses = await db
+      .queryExpenses()
+      .dateBetween(year.start, new Date(year.end.getTime() - 1))
+      .ofKind('expense')
+      .taxDeductible()
+      .sortBy('date', 'asc')
+      .toArray();
+
+    const ids = expenses.map(expense => expense.id!);
+    const [currency, rateTable, mediaFiles, payees] = await Promise.all([
+      db.getBaseCurrency(),
+      db.getExchangeRateTable(),
+      db.mediaFiles.where('expenseId').anyOf(ids).toArray(),
+      db.payees.toArray(),
+    ]);
+
+    const attachments = new Map<number, MediaFile[]>();
+    mediaFiles.forEach(media => {
+      attachments.set(media.expenseId!, [...(attachments.get(media.expenseId!) ?? []), media]);
+    });
+
+    return TaxUtils.buildReport(year, expenses, {
+      currency,
+      rateTable,
+      attachments,
+      payeeNames: new Map(payees.map(payee => [payee.id!, payee.name])),
+    });
+  }
+
+  exportCSV(report: TaxReport): void {
+    CsvUtils.download(TaxUtils.toCSV(report), `tax-report-${report.year.label}.csv`);
+  }
+
+  /**
+   * Open the printable summary in a new window and bring up the print dialog
+   */
+  printReport(report: TaxReport): void {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error('Please allow pop-ups to print the tax report.');
+    }
+
+    printWindow.document.write(TaxUtils.toPrintableHTML(report));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  }
+}
+
+// Singleton instance
+export const taxManager = new TaxManager();
+
+export default taxManager;
@@ -0,0 +1,117 @@
+/**
+ * Trash
+ * Deleted expenses wait here, attachments included, until they are restored or
+ * purged after the retention period
+ */
+
+import { db, type TrashedExpense } from '@/lib/database';
+import { preferences } from '@/lib/preferences';
+import { attachmentManager } from '@/lib/attachments';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Utility functions
+export const TrashUtils = {
+  /**
+   * When a trashed expense will be purged. A retention of 0 keeps it until
+   * the trash is emptied by hand.
+   */
+  getPurgeDate(expense: TrashedExpense, retentionDays: number): Date | null {
+    if (retentionDays <= 0) return null;
+    return new Date(expense.deletedAt.getTime() + retentionDays * DAY_MS);
+  },
+
+  getDaysLeft(expense: TrashedExpense, retentionDays: number, now: Date = new Date()): number | null {
+    const purgeDate = this.getPurgeDate(expense, retentionDays);
+    if (!purgeDate) return null;
+    return Math.max(0, Math.ceil((purgeDate.getTime() - now.getTime()) / DAY_MS));
+  },
+};
+
+class TrashManager {
+  private listeners = new Map<string, Set<(data?: any) => void>>();
+
+  /**
+   * Trashed expenses, most recently deleted first
+   */
+  async getTrash(): Promise<TrashedExpense[]> {
+    return await db.trash.orderBy('deletedAt').reverse().toArray();
+  }
+
+  async moveToTrash(id: number): Promise<void> {
+    await db.deleteExpense(id);
+    this.emit('trashChanged');
+  }
+
+  async restore(id: number): Promise<void> {
+    await db.restoreExpense(id);
+    this.emit('trashChanged');
+  }
+
+  /**
+   * Delete trashed expenses for good, along with all of their attachments
+   */
+  async purge(ids: number[]): Promise<void> {
+    const receiptIds = await db.transaction('rw', [db.trash], async () => {
+      const expenses = (await db.trash.bulkGet(ids)).filter((expense): expense is TrashedExpense => !!expense);
+      await db.trash.bulkDelete(ids);
+      return expenses.map(expense => expense.receipt?.mediaId).filter((mediaId): mediaId is string => !!mediaId);
+    });
+
+    try {
+      await attachmentManager.deleteForExpenses(ids, receiptIds);
+    } catch (error) {
+      console.error('Failed to delete attachments:', error);
+    }
+
+    if (ids.length > 0) {
+      this.emit('trashChanged');
+    }
+  }
+
+  async emptyTrash(): Promise<void> {
+    await this.purge((await db.trash.toCollection().primaryKeys()) as number[]);
+  }
+
+  /**
+   * Purge everything deleted longer ago than the retention setting
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const retentionDays = await preferences.getPreference('trashRetentionDays');
+    if (retentionDays <= 0) return 0;
+
+    const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+    const ids = (await db.trash.where('deletedAt').below(cutoff).primaryKeys()) as number[];
+    await this.purge(ids);
+    return ids.length;
+  }
+
+  /**
+   * Event system
+   */
+  on(event: string, callback: (data?: any) => void): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off(event: string, callback: (data?: any) => void): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.delete(callback);
+    }
+  }
+
+  private emit(event: string, data?: any): void {
+    const eventListeners = this.listeners.get(event);
+    if (eventListeners) {
+      eventListeners.forEach(callback => callback(data));
+    }
+  }
+}
+
+// Singleton instance
+export const trashManager = new TrashManager();
+
+export default trashManager;